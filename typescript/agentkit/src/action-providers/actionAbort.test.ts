@@ -0,0 +1,64 @@
+import { ActionAbortedError, runAbortable } from "./actionAbort";
+import { getActionContext, runInActionContext } from "./actionContext";
+
+const never = () => new Promise<never>(() => {});
+
+describe("runAbortable", () => {
+  it("should return the result of operations completing in time", async () => {
+    await expect(runAbortable({ timeoutMs: 1000 }, "Operation", async () => "done")).resolves.toBe(
+      "done",
+    );
+  });
+
+  it("should run operations without a signal when there is nothing to abort them", async () => {
+    const run = jest.fn(async (signal?: AbortSignal) => signal);
+
+    await expect(runAbortable({}, "Operation", run)).resolves.toBeUndefined();
+  });
+
+  it("should abandon operations exceeding their timeout", async () => {
+    const error = await runAbortable({ timeoutMs: 10 }, "Waiting for 0x123", never, "0x123").catch(
+      e => e,
+    );
+
+    expect(error).toBeInstanceOf(ActionAbortedError);
+    expect(error.message).toBe("Waiting for 0x123 timed out after 10ms");
+    expect(error.timedOut).toBe(true);
+    expect(error.transactionHash).toBe("0x123");
+  });
+
+  it("should abort the signal passed to the operation", async () => {
+    let signal: AbortSignal | undefined;
+
+    await runAbortable({ timeoutMs: 10 }, "Request", async s => {
+      signal = s;
+      return never();
+    }).catch(() => undefined);
+
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("should abandon operations when the signal is aborted", async () => {
+    const controller = new AbortController();
+
+    const promise = runAbortable({ signal: controller.signal }, "Request", never);
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({
+      message: "Request was cancelled",
+      timedOut: false,
+    });
+  });
+
+  it("should default to the signal of the action being invoked", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const promise = runInActionContext({ actionName: "test", signal: controller.signal }, () => {
+      expect(getActionContext()?.signal).toBe(controller.signal);
+      return runAbortable({}, "Waiting for 0x123", never);
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(ActionAbortedError);
+  });
+});
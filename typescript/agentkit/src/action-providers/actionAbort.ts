@@ -0,0 +1,100 @@
+import { getActionContext } from "./actionContext";
+
+/**
+ * Options for cancelling an operation or limiting its duration.
+ */
+export interface AbortOptions {
+  /**
+   * A signal cancelling the operation when aborted. Defaults to the signal of the action being
+   * invoked, if any.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * The maximum duration of the operation in milliseconds.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Error thrown when an operation is cancelled or exceeds its timeout.
+ */
+export class ActionAbortedError extends Error {
+  /**
+   * Constructs a new ActionAbortedError.
+   *
+   * @param message - The description of the operation that was aborted.
+   * @param timedOut - Whether the operation exceeded its timeout, as opposed to being cancelled.
+   * @param transactionHash - The hash of the transaction the operation was waiting for, if any.
+   */
+  constructor(
+    message: string,
+    public readonly timedOut: boolean,
+    public readonly transactionHash?: string,
+  ) {
+    super(message);
+    this.name = "ActionAbortedError";
+  }
+}
+
+/**
+ * Runs an operation that is abandoned when the abort signal or timeout of the options fires.
+ *
+ * The operation receives the combined signal to cancel its own work, e.g. by passing it to
+ * `fetch`. It is abandoned even if it ignores the signal.
+ *
+ * @param options - The abort options.
+ * @param description - The description of the operation, used in error messages.
+ * @param run - The operation.
+ * @param transactionHash - The hash of the transaction the operation waits for, if any.
+ * @returns The result of the operation.
+ * @throws ActionAbortedError if the operation is aborted before completing.
+ */
+export async function runAbortable<T>(
+  options: AbortOptions,
+  description: string,
+  run: (signal?: AbortSignal) => Promise<T>,
+  transactionHash?: string,
+): Promise<T> {
+  const parentSignal = options.signal ?? getActionContext()?.signal;
+
+  if (!parentSignal && !options.timeoutMs) {
+    return run();
+  }
+
+  const controller = new AbortController();
+  const abort = (timedOut: boolean, timeoutMs?: number) => {
+    const reason = timedOut
+      ? `timed out${timeoutMs ? ` after ${timeoutMs}ms` : ""}`
+      : "was cancelled";
+    controller.abort(new ActionAbortedError(`${description} ${reason}`, timedOut, transactionHash));
+  };
+
+  const onParentAbort = () =>
+    abort(parentSignal?.reason instanceof ActionAbortedError && parentSignal.reason.timedOut);
+  const timer = options.timeoutMs
+    ? setTimeout(() => abort(true, options.timeoutMs), options.timeoutMs)
+    : undefined;
+
+  if (parentSignal?.aborted) {
+    onParentAbort();
+  } else {
+    parentSignal?.addEventListener("abort", onParentAbort, { once: true });
+  }
+
+  const aborted = new Promise<never>((_, reject) => {
+    if (controller.signal.aborted) {
+      reject(controller.signal.reason);
+    }
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), {
+      once: true,
+    });
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    parentSignal?.removeEventListener("abort", onParentAbort);
+  }
+}
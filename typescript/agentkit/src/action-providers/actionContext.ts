@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { TransactionSimulation } from "../wallet-providers/transactionSimulation";
+import type { RetryAttempt } from "./actionRetry";
+
+/**
+ * ActionContext describes the action currently being invoked.
+ *
+ * It is available to anything called while the action runs, such as wallet providers, without
+ * being passed explicitly.
+ */
+export interface ActionContext {
+  /**
+   * The name of the action being invoked.
+   */
+  actionName: string;
+
+  /**
+   * The transactions simulated by the action in dry-run mode.
+   */
+  simulations?: TransactionSimulation[];
+
+  /**
+   * The hashes of the transactions submitted by the action.
+   */
+  transactionHashes?: string[];
+
+  /**
+   * A signal aborted when the invocation is cancelled or times out. Long-running operations,
+   * such as HTTP requests and receipt waits, should stop when it is aborted.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * The failed attempts of the operations retried while the action runs.
+   */
+  retries?: RetryAttempt[];
+}
+
+const actionContextStorage = new AsyncLocalStorage<ActionContext>();
+
+/**
+ * Runs a function within the context of an action invocation.
+ *
+ * @param context - The context of the action invocation.
+ * @param fn - The function to run.
+ * @returns The return value of the function.
+ */
+export function runInActionContext<T>(context: ActionContext, fn: () => T): T {
+  return actionContextStorage.run(context, fn);
+}
+
+/**
+ * Gets the context of the action currently being invoked.
+ *
+ * @returns The action context, or undefined when called outside of an action invocation.
+ */
+export function getActionContext(): ActionContext | undefined {
+  return actionContextStorage.getStore();
+}
@@ -1,9 +1,58 @@
 import { z } from "zod";
 import { WalletProvider } from "../wallet-providers";
+import { Network } from "../network";
 import { sendAnalyticsEvent } from "../analytics";
 
 import "reflect-metadata";
 
+/**
+ * The kind of effect an action has:
+ * - `read`: only reads data, on or off chain
+ * - `write`: changes chain state, e.g. by sending a transaction
+ * - `social-post`: publishes content publicly, e.g. a tweet or cast
+ * - `deploy`: deploys a contract or token
+ */
+export type ActionKind = "read" | "write" | "social-post" | "deploy";
+
+/**
+ * The kind of actions that do not declare one. Actions are assumed to change chain state unless
+ * classified otherwise.
+ */
+export const DEFAULT_ACTION_KIND: ActionKind = "write";
+
+/**
+ * How much harm an action can do if invoked by mistake:
+ * - `low`: none or negligible, e.g. reading data or requesting testnet funds
+ * - `medium`: visible but recoverable, e.g. publishing a post
+ * - `high`: irreversible loss of funds or assets, e.g. a transfer or trade
+ */
+export type ActionRiskLevel = "low" | "medium" | "high";
+
+/**
+ * The risk level of actions that do not declare one, by kind.
+ */
+export const DEFAULT_ACTION_RISK: Record<ActionKind, ActionRiskLevel> = {
+  read: "low",
+  "social-post": "medium",
+  write: "high",
+  deploy: "high",
+};
+
+/**
+ * An example invocation of an action.
+ */
+export interface ActionExample {
+  /**
+   * What the invocation does, e.g. "Send 1 USDC to vitalik.eth".
+   */
+  description: string;
+
+  /**
+   * The arguments of the invocation. They must match the schema of the action.
+   */
+  args: Record<string, unknown>;
+}
+
 /**
  * Parameters for the create action decorator
  */
@@ -22,6 +71,49 @@ export interface CreateActionDecoratorParams {
    * The schema of the action
    */
   schema: z.ZodSchema;
+
+  /**
+   * The kind of effect the action has. Defaults to "write".
+   */
+  kind?: ActionKind;
+
+  /**
+   * The category of the action, e.g. "token", "defi" or "social", for hosts to group actions.
+   */
+  category?: string;
+
+  /**
+   * Free-form labels of the action, e.g. "testnet".
+   */
+  tags?: string[];
+
+  /**
+   * How much harm the action can do if invoked by mistake. Defaults to "low" for reads,
+   * "medium" for social posts and "high" otherwise.
+   */
+  risk?: ActionRiskLevel;
+
+  /**
+   * The IDs of the networks the action supports, on top of its action provider, e.g.
+   * `["base-sepolia"]`. The action is not exposed on other networks.
+   */
+  networks?: string[];
+
+  /**
+   * Example invocations of the action.
+   */
+  examples?: ActionExample[];
+
+  /**
+   * The schema of the data of successful results of the action.
+   */
+  outputSchema?: z.ZodSchema;
+
+  /**
+   * Checks if the action supports the network of the wallet provider, on top of its action
+   * provider. The action is not exposed on unsupported networks.
+   */
+  supportsNetwork?: (network: Network) => boolean;
 }
 
 /**
@@ -34,10 +126,15 @@ export const ACTION_DECORATOR_KEY = Symbol("agentkit:action");
  */
 export interface ActionMetadata {
   /**
-   * The name of the action
+   * The name of the action, prefixed with the class name of its action provider
    */
   name: string;
 
+  /**
+   * The name of the action as declared, without prefix
+   */
+  baseName: string;
+
   /**
    * The description of the action
    */
@@ -48,6 +145,52 @@ export interface ActionMetadata {
    */
   schema: z.ZodSchema;
 
+  /**
+   * The kind of effect the action has
+   */
+  kind: ActionKind;
+
+  /**
+   * The category of the action
+   */
+  category?: string;
+
+  /**
+   * Free-form labels of the action
+   */
+  tags: string[];
+
+  /**
+   * How much harm the action can do if invoked by mistake
+   */
+  risk: ActionRiskLevel;
+
+  /**
+   * The IDs of the networks the action supports, if restricted
+   */
+  networks?: string[];
+
+  /**
+   * Example invocations of the action
+   */
+  examples: ActionExample[];
+
+  /**
+   * The schema of the data of successful results of the action
+   */
+  outputSchema?: z.ZodSchema;
+
+  /**
+   * Checks if the action supports the network of the wallet provider
+   */
+  supportsNetwork?: (network: Network) => boolean;
+
+  /**
+   * The class the wallet provider must be an instance of for the action to be exposed
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  walletProviderType?: abstract new (...args: any[]) => WalletProvider;
+
   /**
    * The function to invoke the action
    */
@@ -74,7 +217,14 @@ export type StoredActionMetadata = Map<string, ActionMetadata>;
  * @example
  * ```typescript
  * class MyActionProvider extends ActionProvider {
- *   @CreateAction({ name: "my_action", description: "My action", schema: myActionSchema })
+ *   @CreateAction({
+ *     name: "my_action",
+ *     description: "My action",
+ *     schema: myActionSchema,
+ *     kind: "read",
+ *     category: "market-data",
+ *     examples: [{ description: "Get the price of ETH", args: { symbol: "ETH" } }],
+ *   })
  *   public myAction(args: z.infer<typeof myActionSchema>) {
  *     // ...
  *   }
@@ -83,50 +233,21 @@ export type StoredActionMetadata = Map<string, ActionMetadata>;
  */
 export function CreateAction(params: CreateActionDecoratorParams) {
   return (target: object, propertyKey: string, descriptor: PropertyDescriptor) => {
-    const prefixedActionName = `${target.constructor.name}_${params.name}`;
-
-    const originalMethod = descriptor.value;
-
     const { isWalletProvider } = validateActionMethodArguments(target, propertyKey);
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    descriptor.value = function (...args: any[]) {
-      let walletMetrics: Record<string, string> = {};
-
-      if (isWalletProvider) {
-        walletMetrics = {
-          wallet_provider: args[0].getName(),
-          wallet_address: args[0].getAddress(),
-          network_id: args[0].getNetwork().networkId,
-          chain_id: args[0].getNetwork().chainId,
-          protocol_family: args[0].getNetwork().protocolFamily,
-        };
-      }
-
-      sendAnalyticsEvent({
-        name: "agent_action_invocation",
-        action: "invoke_action",
-        component: "agent_action",
-        action_name: prefixedActionName,
-        class_name: target.constructor.name,
-        method_name: propertyKey,
-        ...walletMetrics,
-      });
-
-      return originalMethod.apply(this, args);
-    };
+    const metaData = createActionMetadata(
+      target.constructor.name,
+      propertyKey,
+      params,
+      descriptor.value,
+      isWalletProvider,
+    );
+
+    descriptor.value = metaData.invoke;
 
     const existingMetadata: StoredActionMetadata =
       Reflect.getMetadata(ACTION_DECORATOR_KEY, target.constructor) || new Map();
 
-    const metaData: ActionMetadata = {
-      name: prefixedActionName,
-      description: params.description,
-      schema: params.schema,
-      invoke: descriptor.value,
-      walletProvider: isWalletProvider,
-    };
-
     existingMetadata.set(propertyKey, metaData);
 
     Reflect.defineMetadata(ACTION_DECORATOR_KEY, existingMetadata, target.constructor);
@@ -135,6 +256,81 @@ export function CreateAction(params: CreateActionDecoratorParams) {
   };
 }
 
+/**
+ * Creates the metadata of an action, wrapping its method to report invocations to analytics
+ *
+ * @param className - The class name of the action provider, prefixing the action name
+ * @param methodName - The name of the method implementing the action
+ * @param params - The parameters of the action
+ * @param method - The method implementing the action
+ * @param isWalletProvider - Whether the method takes the wallet provider as first argument
+ * @returns The action metadata
+ * @throws Error if an example does not match the schema of the action
+ */
+export function createActionMetadata(
+  className: string,
+  methodName: string,
+  params: CreateActionDecoratorParams,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  method: (...args: any[]) => any,
+  isWalletProvider: boolean,
+): ActionMetadata {
+  const prefixedActionName = `${className}_${params.name}`;
+
+  params.examples?.forEach(({ description, args }) => {
+    const parsed = params.schema.safeParse(args);
+    if (!parsed.success) {
+      throw new Error(
+        `Example "${description}" of action ${prefixedActionName} does not match its schema: ${parsed.error.message}`,
+      );
+    }
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const invoke = function (this: unknown, ...args: any[]) {
+    let walletMetrics: Record<string, string> = {};
+
+    if (isWalletProvider) {
+      walletMetrics = {
+        wallet_provider: args[0].getName(),
+        wallet_address: args[0].getAddress(),
+        network_id: args[0].getNetwork().networkId,
+        chain_id: args[0].getNetwork().chainId,
+        protocol_family: args[0].getNetwork().protocolFamily,
+      };
+    }
+
+    sendAnalyticsEvent({
+      name: "agent_action_invocation",
+      action: "invoke_action",
+      component: "agent_action",
+      action_name: prefixedActionName,
+      class_name: className,
+      method_name: methodName,
+      ...walletMetrics,
+    });
+
+    return method.apply(this, args);
+  };
+
+  return {
+    name: prefixedActionName,
+    baseName: params.name,
+    description: params.description,
+    schema: params.schema,
+    kind: params.kind ?? DEFAULT_ACTION_KIND,
+    category: params.category,
+    tags: params.tags ?? [],
+    risk: params.risk ?? DEFAULT_ACTION_RISK[params.kind ?? DEFAULT_ACTION_KIND],
+    networks: params.networks,
+    examples: params.examples ?? [],
+    outputSchema: params.outputSchema,
+    supportsNetwork: params.supportsNetwork,
+    invoke,
+    walletProvider: isWalletProvider,
+  };
+}
+
 /**
  * Validates the arguments of an action method
  *
@@ -1,16 +1,45 @@
 import { z } from "zod";
 import { WalletProvider } from "../wallet-providers";
 import { Network } from "../network";
-import { StoredActionMetadata, ACTION_DECORATOR_KEY } from "./actionDecorator";
+import {
+  StoredActionMetadata,
+  ACTION_DECORATOR_KEY,
+  ActionExample,
+  ActionKind,
+  ActionRiskLevel,
+} from "./actionDecorator";
+import {
+  ActionResult,
+  actionAborted,
+  actionError,
+  actionValidationError,
+  toActionResult,
+  toSimulatedActionResult,
+  withRetries,
+  withTransactionHashes,
+} from "./actionResult";
+import { runInActionContext } from "./actionContext";
+import { AbortOptions, ActionAbortedError, runAbortable } from "./actionAbort";
+import { RetryAttempt } from "./actionRetry";
+import { TransactionSimulation } from "../wallet-providers/transactionSimulation";
 
 /**
  * Action is the interface for all actions.
  */
 export interface Action<TActionSchema extends z.ZodSchema = z.ZodSchema> {
   name: string;
+  baseName?: string;
+  provider?: string;
   description: string;
   schema: TActionSchema;
-  invoke: (args: z.infer<TActionSchema>) => Promise<string>;
+  kind?: ActionKind;
+  category?: string;
+  tags?: string[];
+  risk?: ActionRiskLevel;
+  networks?: string[];
+  examples?: ActionExample[];
+  outputSchema?: z.ZodSchema;
+  invoke: (args: z.infer<TActionSchema>, options?: AbortOptions) => Promise<ActionResult>;
 }
 
 /**
@@ -45,7 +74,8 @@ export abstract class ActionProvider<TWalletProvider extends WalletProvider = Wa
   }
 
   /**
-   * Gets the actions of the action provider bound to the given wallet provider.
+   * Gets the actions of the action provider bound to the given wallet provider, leaving out
+   * actions that do not support its network or type.
    *
    * @param walletProvider - The wallet provider.
    * @returns The actions of the action provider.
@@ -56,10 +86,10 @@ export abstract class ActionProvider<TWalletProvider extends WalletProvider = Wa
     const actionProviders = [this, ...this.actionProviders];
 
     for (const actionProvider of actionProviders) {
-      const actionsMetadataMap: StoredActionMetadata | undefined = Reflect.getMetadata(
-        ACTION_DECORATOR_KEY,
-        actionProvider.constructor,
-      );
+      // Action providers created at runtime, e.g. custom action providers, hold their own actions
+      const actionsMetadataMap: StoredActionMetadata | undefined =
+        Reflect.getOwnMetadata(ACTION_DECORATOR_KEY, actionProvider) ??
+        Reflect.getMetadata(ACTION_DECORATOR_KEY, actionProvider.constructor);
 
       if (!actionsMetadataMap) {
         if (!(actionProvider instanceof ActionProvider)) {
@@ -72,19 +102,80 @@ export abstract class ActionProvider<TWalletProvider extends WalletProvider = Wa
       }
 
       for (const actionMetadata of actionsMetadataMap.values()) {
+        if (
+          (actionMetadata.walletProviderType &&
+            !(walletProvider instanceof actionMetadata.walletProviderType)) ||
+          (actionMetadata.networks &&
+            !actionMetadata.networks.includes(walletProvider.getNetwork().networkId!)) ||
+          (actionMetadata.supportsNetwork &&
+            !actionMetadata.supportsNetwork(walletProvider.getNetwork()))
+        ) {
+          continue;
+        }
+
         actions.push({
           name: actionMetadata.name,
+          baseName: actionMetadata.baseName,
+          provider: actionProvider.name,
           description: actionMetadata.description,
           schema: actionMetadata.schema,
-          invoke: schemaArgs => {
+          kind: actionMetadata.kind,
+          category: actionMetadata.category,
+          tags: actionMetadata.tags,
+          risk: actionMetadata.risk,
+          networks: actionMetadata.networks,
+          examples: actionMetadata.examples,
+          outputSchema: actionMetadata.outputSchema,
+          invoke: async (schemaArgs, options = {}) => {
+            const parsedArgs = actionMetadata.schema.safeParse(schemaArgs);
+            if (!parsedArgs.success) {
+              return actionValidationError(actionMetadata.name, parsedArgs.error);
+            }
+
             const args: unknown[] = [];
             if (actionMetadata.walletProvider) {
               args[0] = walletProvider;
             }
 
-            args.push(schemaArgs);
+            args.push(parsedArgs.data);
 
-            return actionMetadata.invoke.apply(actionProvider, args);
+            const simulations: TransactionSimulation[] = [];
+            const transactionHashes: string[] = [];
+            const retries: RetryAttempt[] = [];
+
+            try {
+              const result = toActionResult(
+                await runAbortable(options, `Invocation of ${actionMetadata.name}`, signal =>
+                  runInActionContext(
+                    {
+                      actionName: actionMetadata.name,
+                      simulations,
+                      transactionHashes,
+                      signal,
+                      retries,
+                    },
+                    () => actionMetadata.invoke.apply(actionProvider, args),
+                  ),
+                ),
+              );
+
+              return withRetries(
+                withTransactionHashes(
+                  simulations.length > 0 ? toSimulatedActionResult(result, simulations) : result,
+                  transactionHashes,
+                ),
+                retries,
+              );
+            } catch (error) {
+              if (error instanceof ActionAbortedError) {
+                return withRetries(actionAborted(error, transactionHashes), retries);
+              }
+
+              return withRetries(
+                actionError(`Error invoking ${actionMetadata.name}: ${error}`, "UNKNOWN", error),
+                retries,
+              );
+            }
           },
         });
       }
@@ -0,0 +1,312 @@
+import { z } from "zod";
+import { ActionProvider } from "./actionProvider";
+import { CreateAction } from "./actionDecorator";
+import {
+  actionError,
+  actionSuccess,
+  formatActionResult,
+  isActionResult,
+  toActionResult,
+  toSimulatedActionResult,
+} from "./actionResult";
+import { getActionContext } from "./actionContext";
+import { HttpStatusError, withRetry } from "./actionRetry";
+import { TransactionSimulation, WalletProvider } from "../wallet-providers";
+
+jest.mock("../analytics", () => ({ sendAnalyticsEvent: jest.fn() }));
+
+const MOCK_TX_HASH = "0xabcdef1234567890";
+const MOCK_APPROVAL_TX_HASH = "0x1234567890abcdef";
+
+const EmptySchema = z.object({});
+
+const TransferSchema = z.object({
+  to: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
+  amount: z.coerce.number().positive(),
+  memo: z.string().default("none"),
+});
+
+const MOCK_SIMULATION: TransactionSimulation = {
+  transactionHash: "0x1111111111111111111111111111111111111111111111111111111111111111",
+  status: "success",
+  transaction: { to: "0x2222222222222222222222222222222222222222", value: 1n },
+  gasEstimate: 21000n,
+};
+
+/**
+ * Action provider returning every shape of value an action method may produce.
+ */
+class TestActionProvider extends ActionProvider {
+  /**
+   * Constructor for the TestActionProvider.
+   */
+  constructor() {
+    super("test", []);
+  }
+
+  /**
+   * Returns a structured result.
+   *
+   * @param _ - Empty args object (not used).
+   * @returns A successful action result.
+   */
+  @CreateAction({ name: "structured", description: "structured", schema: EmptySchema })
+  async structured(_: z.infer<typeof EmptySchema>) {
+    return actionSuccess("done", { transactionHash: MOCK_TX_HASH });
+  }
+
+  /**
+   * Returns a legacy string result.
+   *
+   * @param _ - Empty args object (not used).
+   * @returns A string.
+   */
+  @CreateAction({ name: "legacy", description: "legacy", schema: EmptySchema })
+  async legacy(_: z.infer<typeof EmptySchema>) {
+    return "legacy result";
+  }
+
+  /**
+   * Throws an error.
+   *
+   * @param _ - Empty args object (not used).
+   */
+  @CreateAction({ name: "throws", description: "throws", schema: EmptySchema })
+  async throws(_: z.infer<typeof EmptySchema>) {
+    throw new Error("boom");
+  }
+
+  /**
+   * Echoes the arguments it receives.
+   *
+   * @param args - The transfer arguments.
+   * @returns A successful action result containing the arguments.
+   */
+  @CreateAction({ name: "validated", description: "validated", schema: TransferSchema })
+  async validated(args: z.infer<typeof TransferSchema>) {
+    return actionSuccess("validated", { args });
+  }
+
+  /**
+   * Reports a simulated transaction, as wallet providers do in dry-run mode.
+   *
+   * @param _ - Empty args object (not used).
+   * @returns A successful action result.
+   */
+  @CreateAction({ name: "simulates", description: "simulates", schema: EmptySchema })
+  async simulates(_: z.infer<typeof EmptySchema>) {
+    getActionContext()?.simulations?.push(MOCK_SIMULATION);
+    return actionSuccess("sent", { transactionHash: MOCK_SIMULATION.transactionHash });
+  }
+
+  /**
+   * Submits a transaction and never completes, as when a receipt wait hangs.
+   *
+   * @param _ - Empty args object (not used).
+   * @returns A promise that never resolves.
+   */
+  @CreateAction({ name: "hangs", description: "hangs", schema: EmptySchema })
+  async hangs(_: z.infer<typeof EmptySchema>) {
+    getActionContext()?.transactionHashes?.push(MOCK_TX_HASH);
+    return new Promise(() => {});
+  }
+
+  /**
+   * Submits an ERC20 approval followed by a deposit.
+   *
+   * @param _ - Empty args object (not used).
+   * @returns A successful action result.
+   */
+  @CreateAction({ name: "deposits", description: "deposits", schema: EmptySchema })
+  async deposits(_: z.infer<typeof EmptySchema>) {
+    getActionContext()?.transactionHashes?.push(MOCK_APPROVAL_TX_HASH, MOCK_TX_HASH);
+    return actionSuccess("deposited", { transactionHash: MOCK_TX_HASH });
+  }
+
+  /**
+   * Fetches a price from an API rate limiting the first request.
+   *
+   * @param _ - Empty args object (not used).
+   * @returns A successful action result.
+   */
+  @CreateAction({ name: "retries", description: "retries", schema: EmptySchema })
+  async retries(_: z.infer<typeof EmptySchema>) {
+    let attempts = 0;
+    const price = await withRetry(
+      "GET prices.example.com",
+      async () => {
+        if (attempts++ === 0) {
+          throw new HttpStatusError(429);
+        }
+        return "42";
+      },
+      { initialDelayMs: 0 },
+    );
+
+    return actionSuccess(`Price: ${price}`);
+  }
+
+  supportsNetwork = () => true;
+}
+
+describe("ActionResult", () => {
+  it("should create a successful result", () => {
+    const result = actionSuccess("done", { transactionHash: MOCK_TX_HASH });
+
+    expect(result).toEqual({
+      status: "success",
+      message: "done",
+      data: { transactionHash: MOCK_TX_HASH },
+    });
+    expect(isActionResult(result)).toBe(true);
+  });
+
+  it("should create a failed result with an error code and cause", () => {
+    const result = actionError("Error doing things", "TRANSACTION_FAILED", new Error("reverted"));
+
+    expect(result.status).toBe("error");
+    expect(result.data).toEqual({});
+    expect(result.error).toEqual({ code: "TRANSACTION_FAILED", cause: "reverted" });
+  });
+
+  it("should normalize strings and other values into results", () => {
+    expect(toActionResult("hello")).toEqual(actionSuccess("hello"));
+    expect(toActionResult({ amount: 1n }).message).toBe('{"amount":"1"}');
+    expect(isActionResult("hello")).toBe(false);
+  });
+
+  it("should render the message for LLM frameworks", () => {
+    expect(formatActionResult(actionError("Error: nope"))).toBe("Error: nope");
+  });
+});
+
+describe("Action invoke", () => {
+  const actions = new TestActionProvider().getActions({} as WalletProvider);
+  const getAction = (name: string) => actions.find(action => action.name.endsWith(name))!;
+
+  it("should return structured results unchanged", async () => {
+    const result = await getAction("_structured").invoke({});
+
+    expect(result.status).toBe("success");
+    expect(result.data.transactionHash).toBe(MOCK_TX_HASH);
+  });
+
+  it("should wrap string results as successful results", async () => {
+    const result = await getAction("_legacy").invoke({});
+
+    expect(result).toEqual(actionSuccess("legacy result"));
+  });
+
+  it("should convert thrown errors into failed results", async () => {
+    const result = await getAction("_throws").invoke({});
+
+    expect(result.status).toBe("error");
+    expect(result.message).toContain("boom");
+    expect(result.error?.code).toBe("UNKNOWN");
+  });
+
+  it("should pass arguments parsed by the schema to the action", async () => {
+    const to = "0x1234567890123456789012345678901234567890";
+
+    const result = await getAction("_validated").invoke({ to, amount: "1.5" });
+
+    expect(result.status).toBe("success");
+    expect(result.data.args).toEqual({ to, amount: 1.5, memo: "none" });
+  });
+
+  it("should return validation errors for invalid arguments", async () => {
+    const result = await getAction("_validated").invoke({ to: "0x123", amount: -1 });
+
+    expect(result.status).toBe("error");
+    expect(result.error?.code).toBe("INVALID_INPUT");
+    expect(result.data.validationErrors).toEqual([
+      { path: "to", message: "Invalid address" },
+      { path: "amount", message: "Number must be greater than 0" },
+    ]);
+    expect(result.message).toBe(
+      `Invalid arguments for TestActionProvider_validated:\n- to: Invalid address\n- amount: Number must be greater than 0`,
+    );
+  });
+
+  it("should mark results of actions with simulated transactions", async () => {
+    const result = await getAction("_simulates").invoke({});
+
+    expect(result.message).toBe("[Simulated] sent");
+    expect(result.data.simulated).toBe(true);
+    expect(result.data.simulations).toEqual([MOCK_SIMULATION]);
+  });
+
+  it("should not mark results of actions without simulated transactions", async () => {
+    const result = await getAction("_structured").invoke({});
+
+    expect(result.data.simulated).toBeUndefined();
+  });
+
+  it("should report every transaction the action submitted", async () => {
+    const result = await getAction("_deposits").invoke({});
+
+    expect(result.data.transactionHash).toBe(MOCK_TX_HASH);
+    expect(result.data.transactionHashes).toEqual([MOCK_APPROVAL_TX_HASH, MOCK_TX_HASH]);
+  });
+
+  it("should return a timeout result with the submitted transaction hash", async () => {
+    const result = await getAction("_hangs").invoke({}, { timeoutMs: 10 });
+
+    expect(result.status).toBe("error");
+    expect(result.error?.code).toBe("TIMEOUT");
+    expect(result.data.transactionHash).toBe(MOCK_TX_HASH);
+    expect(result.message).toBe(
+      `Invocation of TestActionProvider_hangs timed out after 10ms. Transaction ${MOCK_TX_HASH} was submitted and may still land, check its status before retrying.`,
+    );
+  });
+
+  it("should return a cancelled result when the signal is aborted", async () => {
+    const controller = new AbortController();
+
+    const invocation = getAction("_hangs").invoke({}, { signal: controller.signal });
+    controller.abort();
+    const result = await invocation;
+
+    expect(result.error?.code).toBe("CANCELLED");
+    expect(result.data.transactionHash).toBe(MOCK_TX_HASH);
+  });
+
+  it("should report the requests the action retried", async () => {
+    const result = await getAction("_retries").invoke({});
+
+    expect(result.message).toBe("Price: 42");
+    expect(result.data.retries).toEqual([
+      {
+        operation: "GET prices.example.com",
+        attempt: 1,
+        error: "HTTP error! status: 429",
+        delayMs: 0,
+      },
+    ]);
+  });
+
+  it("should not report retries for actions that retried nothing", async () => {
+    const result = await getAction("_structured").invoke({});
+
+    expect(result.data.retries).toBeUndefined();
+  });
+});
+
+describe("toSimulatedActionResult", () => {
+  it("should turn results with reverted simulations into errors", () => {
+    const reverted: TransactionSimulation = {
+      ...MOCK_SIMULATION,
+      status: "reverted",
+      revertReason: "Execution reverted with reason: insufficient balance.",
+    };
+
+    const result = toSimulatedActionResult(actionSuccess("sent"), [MOCK_SIMULATION, reverted]);
+
+    expect(result.status).toBe("error");
+    expect(result.error?.code).toBe("TRANSACTION_FAILED");
+    expect(result.message).toBe(
+      `[Simulated] Transaction ${reverted.transactionHash} would revert: ${reverted.revertReason}`,
+    );
+    expect(result.data).toEqual({ simulated: true, simulations: [MOCK_SIMULATION, reverted] });
+  });
+});
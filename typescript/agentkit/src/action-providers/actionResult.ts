@@ -0,0 +1,339 @@
+import { z } from "zod";
+import { TransactionSimulation } from "../wallet-providers/transactionSimulation";
+import { ActionAbortedError } from "./actionAbort";
+import { RetryAttempt } from "./actionRetry";
+
+/**
+ * The outcome of an action invocation.
+ */
+export type ActionResultStatus = "success" | "error";
+
+/**
+ * Machine-readable codes describing why an action failed.
+ */
+export type ActionErrorCode =
+  | "INVALID_INPUT"
+  | "UNSUPPORTED_NETWORK"
+  | "UNSUPPORTED_ASSET"
+  | "APPROVAL_FAILED"
+  | "TRANSACTION_FAILED"
+  | "REQUEST_FAILED"
+  | "NOT_FOUND"
+  | "REJECTED"
+  | "TIMEOUT"
+  | "CANCELLED"
+  | "UNKNOWN";
+
+/**
+ * Structured data attached to an action result.
+ *
+ * Well-known fields are typed, providers may attach any additional fields.
+ */
+export interface ActionResultData {
+  [key: string]: unknown;
+
+  /**
+   * The hash of the transaction submitted by the action, if any.
+   */
+  transactionHash?: `0x${string}`;
+
+  /**
+   * The hashes of all transactions submitted by the action, e.g. an ERC20 approval followed by
+   * a deposit, in submission order.
+   */
+  transactionHashes?: string[];
+
+  /**
+   * A block explorer link for the transaction, if known.
+   */
+  transactionLink?: string;
+
+  /**
+   * The transaction receipt, if the action waited for one.
+   */
+  receipt?: unknown;
+
+  /**
+   * The amount moved by the action, as provided to the action.
+   */
+  amount?: string;
+
+  /**
+   * Whether the transactions of the action were simulated instead of broadcast.
+   */
+  simulated?: boolean;
+
+  /**
+   * The outcomes of the transactions simulated by the action in dry-run mode.
+   */
+  simulations?: TransactionSimulation[];
+
+  /**
+   * The problems found in the arguments of an action invoked with invalid input.
+   */
+  validationErrors?: ActionValidationError[];
+
+  /**
+   * The failed attempts of the requests the action retried, if any.
+   */
+  retries?: RetryAttempt[];
+}
+
+/**
+ * A problem found in the arguments of an action.
+ */
+export interface ActionValidationError {
+  /**
+   * The dot-separated path of the invalid field, e.g. "to" or "options.amount". Empty for the
+   * arguments object itself.
+   */
+  path: string;
+
+  /**
+   * The description of the problem.
+   */
+  message: string;
+}
+
+/**
+ * Details about a failed action.
+ */
+export interface ActionError {
+  /**
+   * The machine-readable error code.
+   */
+  code: ActionErrorCode;
+
+  /**
+   * The underlying error, rendered as a string.
+   */
+  cause?: string;
+}
+
+/**
+ * ActionResult is the structured result returned by every action.
+ */
+export interface ActionResult<TData extends ActionResultData = ActionResultData> {
+  /**
+   * Whether the action succeeded or failed.
+   */
+  status: ActionResultStatus;
+
+  /**
+   * A human (and LLM) readable description of the outcome.
+   */
+  message: string;
+
+  /**
+   * Machine-readable data produced by the action.
+   */
+  data: TData;
+
+  /**
+   * Error details, set when the status is "error".
+   */
+  error?: ActionError;
+}
+
+/**
+ * Creates a successful action result.
+ *
+ * @param message - The human readable description of the outcome.
+ * @param data - The machine-readable data produced by the action.
+ * @returns A successful action result.
+ */
+export function actionSuccess<TData extends ActionResultData>(
+  message: string,
+  data: TData = {} as TData,
+): ActionResult<TData> {
+  return { status: "success", message, data };
+}
+
+/**
+ * Creates a failed action result.
+ *
+ * @param message - The human readable description of the failure.
+ * @param code - The machine-readable error code.
+ * @param cause - The underlying error, if any.
+ * @param data - Any machine-readable data gathered before the failure.
+ * @returns A failed action result.
+ */
+export function actionError<TData extends ActionResultData>(
+  message: string,
+  code: ActionErrorCode = "UNKNOWN",
+  cause?: unknown,
+  data: TData = {} as TData,
+): ActionResult<TData> {
+  return {
+    status: "error",
+    message,
+    data,
+    error: {
+      code,
+      ...(cause !== undefined && { cause: cause instanceof Error ? cause.message : `${cause}` }),
+    },
+  };
+}
+
+/**
+ * Checks whether a value is an action result.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is an action result, false otherwise.
+ */
+export function isActionResult(value: unknown): value is ActionResult {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const candidate = value as Partial<ActionResult>;
+
+  return (
+    (candidate.status === "success" || candidate.status === "error") &&
+    typeof candidate.message === "string" &&
+    typeof candidate.data === "object"
+  );
+}
+
+/**
+ * Normalizes the return value of an action method into an action result.
+ *
+ * Action methods that predate structured results return plain strings, which are treated as
+ * successful results.
+ *
+ * @param value - The value returned by the action method.
+ * @returns The value as an action result.
+ */
+export function toActionResult(value: unknown): ActionResult {
+  if (isActionResult(value)) {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    return actionSuccess(value);
+  }
+
+  return actionSuccess(JSON.stringify(value, bigIntReplacer) ?? "", { value });
+}
+
+/**
+ * Creates the result of an action invoked with arguments not matching its schema.
+ *
+ * @param actionName - The name of the action.
+ * @param error - The error returned by the schema.
+ * @returns A failed action result listing the problems found in the arguments.
+ */
+export function actionValidationError(actionName: string, error: z.ZodError): ActionResult {
+  const validationErrors = error.issues.map(issue => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+  const problems = validationErrors
+    .map(({ path, message }) => `- ${path || "(arguments)"}: ${message}`)
+    .join("\n");
+
+  return actionError(
+    `Invalid arguments for ${actionName}:\n${problems}`,
+    "INVALID_INPUT",
+    undefined,
+    { validationErrors },
+  );
+}
+
+/**
+ * Marks the result of an action whose transactions were simulated in dry-run mode. If a
+ * simulated transaction would revert, the result is turned into an error with the revert reason.
+ *
+ * @param result - The result of the action.
+ * @param simulations - The transactions simulated by the action.
+ * @returns The simulated action result.
+ */
+export function toSimulatedActionResult(
+  result: ActionResult,
+  simulations: TransactionSimulation[],
+): ActionResult {
+  const data = { ...result.data, simulated: true, simulations };
+  const reverted = simulations.find(simulation => simulation.status === "reverted");
+
+  if (reverted) {
+    return actionError(
+      `[Simulated] Transaction ${reverted.transactionHash} would revert: ${reverted.revertReason}`,
+      "TRANSACTION_FAILED",
+      undefined,
+      data,
+    );
+  }
+
+  return { ...result, message: `[Simulated] ${result.message}`, data };
+}
+
+/**
+ * Creates the result of an action invocation that timed out or was cancelled. Transactions the
+ * action submitted may still land, so their hashes are included for the caller to check them.
+ *
+ * @param error - The error the invocation was aborted with.
+ * @param transactionHashes - The hashes of the transactions submitted by the action.
+ * @returns A failed action result.
+ */
+export function actionAborted(
+  error: ActionAbortedError,
+  transactionHashes: string[] = [],
+): ActionResult {
+  const transactionHash = error.transactionHash ?? transactionHashes[transactionHashes.length - 1];
+  const message = transactionHash
+    ? `${error.message}. Transaction ${transactionHash} was submitted and may still land, check its status before retrying.`
+    : `${error.message}.`;
+
+  return actionError(message, error.timedOut ? "TIMEOUT" : "CANCELLED", undefined, {
+    ...(transactionHash && { transactionHash: transactionHash as `0x${string}` }),
+    ...(transactionHashes.length > 0 && { transactionHashes }),
+  });
+}
+
+/**
+ * Attaches the hashes of the transactions an action submitted to its result.
+ *
+ * @param result - The result of the action.
+ * @param transactionHashes - The hashes of the transactions submitted by the action.
+ * @returns The result, with the hashes in its data if there were any.
+ */
+export function withTransactionHashes(
+  result: ActionResult,
+  transactionHashes: string[],
+): ActionResult {
+  return transactionHashes.length > 0
+    ? { ...result, data: { ...result.data, transactionHashes } }
+    : result;
+}
+
+/**
+ * Attaches the failed attempts of the requests an action retried to its result.
+ *
+ * @param result - The result of the action.
+ * @param retries - The failed attempts of the retried requests.
+ * @returns The result, with the retries in its data if there were any.
+ */
+export function withRetries(result: ActionResult, retries: RetryAttempt[]): ActionResult {
+  return retries.length > 0 ? { ...result, data: { ...result.data, retries } } : result;
+}
+
+/**
+ * Renders an action result as a string for LLM frameworks.
+ *
+ * @param result - The action result to render.
+ * @returns The string rendering of the action result.
+ */
+export function formatActionResult(result: ActionResult): string {
+  return result.message;
+}
+
+/**
+ * JSON replacer that renders bigints as strings.
+ *
+ * @param _ - The key being serialized.
+ * @param value - The value being serialized.
+ * @returns The value, with bigints converted to strings.
+ */
+export function bigIntReplacer(_: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
@@ -0,0 +1,145 @@
+import { runInActionContext } from "./actionContext";
+import {
+  HttpStatusError,
+  RetryAttempt,
+  fetchWithRetry,
+  isTransientError,
+  isUndeliveredError,
+  withRetry,
+} from "./actionRetry";
+
+const NO_DELAY = { initialDelayMs: 0, jitter: false };
+
+const connectionError = (code: string) =>
+  Object.assign(new TypeError("fetch failed"), {
+    cause: Object.assign(new Error(code), { code }),
+  });
+
+describe("isTransientError", () => {
+  it("should classify rate limits, server and connection errors as transient", () => {
+    expect(isTransientError(new HttpStatusError(429))).toBe(true);
+    expect(isTransientError(new HttpStatusError(503))).toBe(true);
+    expect(isTransientError(connectionError("ECONNRESET"))).toBe(true);
+    expect(isTransientError(new HttpStatusError(404))).toBe(false);
+    expect(isTransientError(new Error("execution reverted"))).toBe(false);
+  });
+
+  it("should only classify errors proving the request was not processed as undelivered", () => {
+    expect(isUndeliveredError(new HttpStatusError(429))).toBe(true);
+    expect(isUndeliveredError(connectionError("ECONNREFUSED"))).toBe(true);
+    expect(isUndeliveredError(connectionError("ECONNRESET"))).toBe(false);
+    expect(isUndeliveredError(new HttpStatusError(502))).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  it("should retry transient errors until the operation succeeds", async () => {
+    const run = jest
+      .fn()
+      .mockRejectedValueOnce(new HttpStatusError(503))
+      .mockRejectedValueOnce(connectionError("ECONNRESET"))
+      .mockResolvedValue("done");
+
+    await expect(withRetry("Request", run, NO_DELAY)).resolves.toBe("done");
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry other errors", async () => {
+    const run = jest.fn().mockRejectedValue(new Error("execution reverted"));
+
+    await expect(withRetry("Request", run, NO_DELAY)).rejects.toThrow("execution reverted");
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up after the maximum number of attempts", async () => {
+    const run = jest.fn().mockRejectedValue(new HttpStatusError(503));
+
+    await expect(withRetry("Request", run, { ...NO_DELAY, maxAttempts: 2 })).rejects.toThrow(
+      "HTTP error! status: 503",
+    );
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only retry non-idempotent operations that were not processed", async () => {
+    const rateLimited = jest
+      .fn()
+      .mockRejectedValueOnce(new HttpStatusError(429))
+      .mockResolvedValue("0x123");
+    const reset = jest.fn().mockRejectedValue(connectionError("ECONNRESET"));
+
+    await expect(withRetry("Broadcast", rateLimited, NO_DELAY, false)).resolves.toBe("0x123");
+    await expect(withRetry("Broadcast", reset, NO_DELAY, false)).rejects.toThrow("fetch failed");
+    expect(reset).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry when disabled", async () => {
+    const run = jest.fn().mockRejectedValue(new HttpStatusError(503));
+
+    await expect(withRetry("Request", run, false)).rejects.toThrow();
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("should record retries in the context of the action being invoked", async () => {
+    const retries: RetryAttempt[] = [];
+    const run = jest.fn().mockRejectedValueOnce(new HttpStatusError(429)).mockResolvedValue("done");
+
+    await runInActionContext({ actionName: "test", retries }, () =>
+      withRetry("GET example.com", run, { initialDelayMs: 5, jitter: false }),
+    );
+
+    expect(retries).toEqual([
+      { operation: "GET example.com", attempt: 1, error: "HTTP error! status: 429", delayMs: 5 },
+    ]);
+  });
+
+  it("should stop retrying when the action is cancelled", async () => {
+    const controller = new AbortController();
+    const run = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      throw new HttpStatusError(503);
+    });
+
+    await expect(
+      runInActionContext({ actionName: "test", signal: controller.signal }, () =>
+        withRetry("Request", run, { initialDelayMs: 10000 }),
+      ),
+    ).rejects.toThrow("HTTP error! status: 503");
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("fetchWithRetry", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should retry responses with a transient status", async () => {
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+      .mockResolvedValue({ ok: true, status: 200 } as Response);
+
+    const response = await fetchWithRetry("https://example.com/prices", {}, NO_DELAY);
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return the last response once the attempts are exhausted", async () => {
+    jest.spyOn(global, "fetch").mockResolvedValue({ ok: false, status: 429 } as Response);
+
+    const response = await fetchWithRetry("https://example.com/prices", {}, NO_DELAY);
+
+    expect(response.status).toBe(429);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry POST requests failing with a server error", async () => {
+    jest.spyOn(global, "fetch").mockResolvedValue({ ok: false, status: 502 } as Response);
+
+    const response = await fetchWithRetry("https://example.com/cast", { method: "POST" }, NO_DELAY);
+
+    expect(response.status).toBe(502);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,301 @@
+import { getActionContext } from "./actionContext";
+import { ActionAbortedError } from "./actionAbort";
+import { addSpanEvent, traceHttpRequest } from "../telemetry/telemetry";
+
+/**
+ * Options for retrying operations failing with transient errors, such as rate limits and
+ * connection resets. Delays grow exponentially between attempts.
+ */
+export interface RetryOptions {
+  /**
+   * The maximum number of attempts, including the first one. Defaults to 3.
+   */
+  maxAttempts?: number;
+
+  /**
+   * The delay before the first retry in milliseconds. Defaults to 250.
+   */
+  initialDelayMs?: number;
+
+  /**
+   * The maximum delay between attempts in milliseconds. Defaults to 5000.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Whether to randomize delays between zero and their exponential value, spreading the retries
+   * of concurrent callers. Defaults to true.
+   */
+  jitter?: boolean;
+}
+
+/**
+ * The retry options used when none are configured.
+ */
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  initialDelayMs: 250,
+  maxDelayMs: 5000,
+  jitter: true,
+};
+
+/**
+ * A failed attempt of an operation that was retried.
+ */
+export interface RetryAttempt {
+  /**
+   * The description of the operation, e.g. "RPC eth_getBalance".
+   */
+  operation: string;
+
+  /**
+   * The number of the failed attempt, starting at 1.
+   */
+  attempt: number;
+
+  /**
+   * The error the attempt failed with.
+   */
+  error: string;
+
+  /**
+   * The delay before the next attempt in milliseconds.
+   */
+  delayMs: number;
+}
+
+/**
+ * Error thrown when an HTTP request fails with a status worth retrying.
+ */
+export class HttpStatusError extends Error {
+  /**
+   * Constructs a new HttpStatusError.
+   *
+   * @param status - The HTTP status of the response.
+   * @param response - The response, if any.
+   */
+  constructor(
+    public readonly status: number,
+    public readonly response?: Response,
+  ) {
+    super(`HTTP error! status: ${status}`);
+    this.name = "HttpStatusError";
+  }
+}
+
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const UNDELIVERED_STATUSES = new Set([429]);
+
+const TRANSIENT_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+const UNDELIVERED_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+// JSON-RPC "limit exceeded", returned by rate-limited RPC providers.
+const RPC_LIMIT_EXCEEDED = -32005;
+
+/**
+ * Checks if an error is transient, i.e. the operation may succeed if tried again.
+ *
+ * @param error - The error.
+ * @returns True if the error is a rate limit, server or connection error, false otherwise.
+ */
+export function isTransientError(error: unknown): boolean {
+  return findInCauses(
+    error,
+    candidate =>
+      TRANSIENT_STATUSES.has(candidate.status as number) ||
+      TRANSIENT_CODES.has(candidate.code as string) ||
+      candidate.code === RPC_LIMIT_EXCEEDED ||
+      candidate.name === "TimeoutError",
+  );
+}
+
+/**
+ * Checks if an error proves that a request was not processed, e.g. because it was rate limited
+ * or the connection could not be established. Such requests are safe to retry even if they
+ * are not idempotent, like transaction broadcasts.
+ *
+ * @param error - The error.
+ * @returns True if the request was not processed, false otherwise.
+ */
+export function isUndeliveredError(error: unknown): boolean {
+  return findInCauses(
+    error,
+    candidate =>
+      UNDELIVERED_STATUSES.has(candidate.status as number) ||
+      UNDELIVERED_CODES.has(candidate.code as string) ||
+      candidate.code === RPC_LIMIT_EXCEEDED,
+  );
+}
+
+/**
+ * Runs an operation, retrying it with exponential backoff when it fails with a transient error.
+ *
+ * Idempotent operations, such as reads, are retried on any transient error. Other operations,
+ * such as transaction broadcasts, are only retried when the error proves they were not
+ * processed. Retries are recorded in the context of the action being invoked, and stop when
+ * its signal is aborted.
+ *
+ * @param operation - The description of the operation, used to record retries.
+ * @param run - The operation.
+ * @param options - The retry options, or false to run the operation once.
+ * @param idempotent - Whether the operation can safely run several times.
+ * @returns The result of the operation.
+ */
+export async function withRetry<T>(
+  operation: string,
+  run: () => Promise<T>,
+  options: RetryOptions | false = {},
+  idempotent = true,
+): Promise<T> {
+  if (options === false) {
+    return run();
+  }
+
+  const { maxAttempts, initialDelayMs, maxDelayMs, jitter } = {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...options,
+  };
+  const context = getActionContext();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const retryable =
+        !(error instanceof ActionAbortedError) &&
+        (idempotent ? isTransientError(error) : isUndeliveredError(error));
+
+      if (!retryable || attempt >= maxAttempts) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, initialDelayMs * 2 ** (attempt - 1));
+      const delayMs = jitter ? Math.round(Math.random() * backoff) : backoff;
+
+      const retry = {
+        operation,
+        attempt,
+        error: error instanceof Error ? error.message : `${error}`,
+        delayMs,
+      };
+      context?.retries?.push(retry);
+      addSpanEvent("retry", retry);
+
+      await sleep(delayMs, context?.signal);
+      if (context?.signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Fetches a resource, retrying requests failing with transient errors.
+ *
+ * Responses with a transient status, such as 429 or 503, are retried. The last response is
+ * returned once the attempts are exhausted, for the caller to handle it like any other. The
+ * request is traced as an OpenTelemetry client span.
+ *
+ * @param url - The URL of the resource.
+ * @param init - The options of the request.
+ * @param options - The retry options, or false to send the request once.
+ * @param idempotent - Whether the request can safely be sent several times. Defaults to true
+ * for GET requests only.
+ * @returns The response.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions | false = {},
+  idempotent = (init.method ?? "GET").toUpperCase() === "GET",
+): Promise<Response> {
+  const method = init.method ?? "GET";
+  const host = new URL(url).host;
+
+  return traceHttpRequest(method, host, async () => {
+    try {
+      return await withRetry(
+        `${method} ${host}`,
+        async () => {
+          const response = await fetch(url, init);
+          if (TRANSIENT_STATUSES.has(response.status)) {
+            throw new HttpStatusError(response.status, response);
+          }
+          return response;
+        },
+        options,
+        idempotent,
+      );
+    } catch (error) {
+      if (error instanceof HttpStatusError && error.response) {
+        return error.response;
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Checks if an error, or any of its causes, matches a predicate.
+ *
+ * @param error - The error.
+ * @param predicate - The predicate.
+ * @returns True if the error or one of its causes matches, false otherwise.
+ */
+function findInCauses(
+  error: unknown,
+  predicate: (candidate: Record<string, unknown>) => boolean,
+): boolean {
+  for (let candidate = error, depth = 0; candidate && depth < 10; depth++) {
+    if (typeof candidate !== "object") {
+      return false;
+    }
+    if (predicate(candidate as Record<string, unknown>)) {
+      return true;
+    }
+    candidate = (candidate as { cause?: unknown }).cause;
+  }
+
+  return false;
+}
+
+/**
+ * Waits for a delay, returning early when the signal is aborted.
+ *
+ * @param ms - The delay in milliseconds.
+ * @param signal - The signal, if any.
+ * @returns A promise resolving after the delay.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      return resolve();
+    }
+
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+
+    /**
+     * Stops waiting.
+     */
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
@@ -67,8 +67,10 @@ describe("AlchemyTokenPricesActionProvider", () => {
       expect(calledUrl).toContain("symbols=ETH");
       expect(calledUrl).toContain("symbols=BTC");
 
-      expect(response).toContain("Successfully fetched token prices by symbol");
-      expect(response).toContain(JSON.stringify(MOCK_TOKEN_PRICES_BY_SYMBOL_RESPONSE, null, 2));
+      expect(response.message).toContain("Successfully fetched token prices by symbol");
+      expect(response.message).toContain(
+        JSON.stringify(MOCK_TOKEN_PRICES_BY_SYMBOL_RESPONSE, null, 2),
+      );
     });
 
     it("should handle non-ok response for token prices by symbol", async () => {
@@ -78,8 +80,8 @@ describe("AlchemyTokenPricesActionProvider", () => {
       } as Response);
 
       const response = await provider.tokenPricesBySymbol({ symbols: ["ETH"] });
-      expect(response).toContain("Error fetching token prices by symbol");
-      expect(response).toContain("400");
+      expect(response.message).toContain("Error fetching token prices by symbol");
+      expect(response.message).toContain("400");
     });
 
     it("should handle fetch error for token prices by symbol", async () => {
@@ -87,8 +89,8 @@ describe("AlchemyTokenPricesActionProvider", () => {
       jest.spyOn(global, "fetch").mockRejectedValue(error);
 
       const response = await provider.tokenPricesBySymbol({ symbols: ["ETH"] });
-      expect(response).toContain("Error fetching token prices by symbol");
-      expect(response).toContain(error.message);
+      expect(response.message).toContain("Error fetching token prices by symbol");
+      expect(response.message).toContain(error.message);
     });
   });
 
@@ -120,8 +122,10 @@ describe("AlchemyTokenPricesActionProvider", () => {
         }),
       );
 
-      expect(response).toContain("Successfully fetched token prices by address");
-      expect(response).toContain(JSON.stringify(MOCK_TOKEN_PRICES_BY_ADDRESS_RESPONSE, null, 2));
+      expect(response.message).toContain("Successfully fetched token prices by address");
+      expect(response.message).toContain(
+        JSON.stringify(MOCK_TOKEN_PRICES_BY_ADDRESS_RESPONSE, null, 2),
+      );
     });
 
     it("should handle non-ok response for token prices by address", async () => {
@@ -135,8 +139,8 @@ describe("AlchemyTokenPricesActionProvider", () => {
       };
 
       const response = await provider.tokenPricesByAddress(payload);
-      expect(response).toContain("Error fetching token prices by address");
-      expect(response).toContain("429");
+      expect(response.message).toContain("Error fetching token prices by address");
+      expect(response.message).toContain("429");
     });
 
     it("should handle fetch error for token prices by address", async () => {
@@ -148,8 +152,8 @@ describe("AlchemyTokenPricesActionProvider", () => {
       };
 
       const response = await provider.tokenPricesByAddress(payload);
-      expect(response).toContain("Error fetching token prices by address");
-      expect(response).toContain(error.message);
+      expect(response.message).toContain("Error fetching token prices by address");
+      expect(response.message).toContain(error.message);
     });
   });
 
@@ -1,6 +1,9 @@
 import { z } from "zod";
 import { ActionProvider } from "../actionProvider";
 import { CreateAction } from "../actionDecorator";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
+import { getActionContext } from "../actionContext";
+import { RetryOptions, fetchWithRetry } from "../actionRetry";
 import { AlchemyTokenPricesBySymbolSchema, AlchemyTokenPricesByAddressSchema } from "./schemas";
 
 /**
@@ -11,6 +14,11 @@ export interface AlchemyTokenPricesActionProviderConfig {
    * Alchemy API Key
    */
   apiKey?: string;
+
+  /**
+   * How requests failing with transient errors are retried, or false to never retry them.
+   */
+  retry?: RetryOptions | false;
 }
 
 /**
@@ -21,6 +29,7 @@ export interface AlchemyTokenPricesActionProviderConfig {
 export class AlchemyTokenPricesActionProvider extends ActionProvider {
   private readonly apiKey: string;
   private readonly baseUrl: string;
+  private readonly retry?: RetryOptions | false;
 
   /**
    * Creates a new instance of AlchemyTokenPricesActionProvider
@@ -36,16 +45,19 @@ export class AlchemyTokenPricesActionProvider extends ActionProvider {
     }
     this.apiKey = config.apiKey;
     this.baseUrl = "https://api.g.alchemy.com/prices/v1";
+    this.retry = config.retry;
   }
 
   /**
    * Fetch current token prices for one or more token symbols.
    *
    * @param args - The arguments containing an array of token symbols.
-   * @returns A JSON string with the token prices or an error message.
+   * @returns An action result with the token prices or an error message.
    */
   @CreateAction({
     name: "token_prices_by_symbol",
+    kind: "read",
+    category: "market-data",
     description: `
 This tool will fetch current prices for one or more tokens using their symbols via the Alchemy Prices API.
 
@@ -71,7 +83,7 @@ A failure response will return an error message with details.
   })
   async tokenPricesBySymbol(
     args: z.infer<typeof AlchemyTokenPricesBySymbolSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       // Build query parameters: for each symbol add a separate query parameter
       const params = new URLSearchParams();
@@ -80,21 +92,33 @@ A failure response will return an error message with details.
       }
 
       const url = `${this.baseUrl}/${this.apiKey}/tokens/by-symbol?${params.toString()}`;
-      const response = await fetch(url, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
+      const response = await fetchWithRetry(
+        url,
+        {
+          method: "GET",
+          signal: getActionContext()?.signal,
+          headers: {
+            Accept: "application/json",
+          },
         },
-      });
+        this.retry,
+      );
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
       const data = await response.json();
-      return `Successfully fetched token prices by symbol:\n${JSON.stringify(data, null, 2)}`;
+      return actionSuccess(
+        `Successfully fetched token prices by symbol:\n${JSON.stringify(data, null, 2)}`,
+        { response: data },
+      );
     } catch (error) {
-      return `Error fetching token prices by symbol: ${error}`;
+      return actionError(
+        `Error fetching token prices by symbol: ${error}`,
+        "REQUEST_FAILED",
+        error,
+      );
     }
   }
 
@@ -102,10 +126,12 @@ A failure response will return an error message with details.
    * Fetch current token prices for one or more tokens identified by network and address pairs.
    *
    * @param args - The arguments containing an array of token network/address pairs.
-   * @returns A JSON string with the token prices or an error message.
+   * @returns An action result with the token prices or an error message.
    */
   @CreateAction({
     name: "token_prices_by_address",
+    kind: "read",
+    category: "market-data",
     description: `
 This tool will fetch current prices for tokens using network and address pairs via the Alchemy Prices API.
 
@@ -132,26 +158,40 @@ A failure response will return an error message with details.
   })
   async tokenPricesByAddress(
     args: z.infer<typeof AlchemyTokenPricesByAddressSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const url = `${this.baseUrl}/${this.apiKey}/tokens/by-address`;
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/json",
+      // Looking up prices is a read, safe to retry even though it is a POST request
+      const response = await fetchWithRetry(
+        url,
+        {
+          method: "POST",
+          signal: getActionContext()?.signal,
+          headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(args),
         },
-        body: JSON.stringify(args),
-      });
+        this.retry,
+        true,
+      );
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
       const data = await response.json();
-      return `Successfully fetched token prices by address:\n${JSON.stringify(data, null, 2)}`;
+      return actionSuccess(
+        `Successfully fetched token prices by address:\n${JSON.stringify(data, null, 2)}`,
+        { response: data },
+      );
     } catch (error) {
-      return `Error fetching token prices by address: ${error}`;
+      return actionError(
+        `Error fetching token prices by address: ${error}`,
+        "REQUEST_FAILED",
+        error,
+      );
     }
   }
 
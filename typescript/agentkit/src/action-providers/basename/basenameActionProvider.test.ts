@@ -110,8 +110,10 @@ describe("Register Basename Action", () => {
       value: parseEther(MOCK_AMOUNT),
     });
     expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith("some-hash");
-    expect(response).toContain(`Successfully registered basename ${MOCK_BASENAME}.base.eth`);
-    expect(response).toContain(`for address ${ADDRESS_ID}`);
+    expect(response.message).toContain(
+      `Successfully registered basename ${MOCK_BASENAME}.base.eth`,
+    );
+    expect(response.message).toContain(`for address ${ADDRESS_ID}`);
   });
 
   it(`should Successfully respond with ${MOCK_BASENAME}.basetest.eth for any other network`, async () => {
@@ -159,8 +161,10 @@ describe("Register Basename Action", () => {
       value: parseEther(MOCK_AMOUNT),
     });
     expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith("some-hash");
-    expect(response).toContain(`Successfully registered basename ${MOCK_BASENAME}.basetest.eth`);
-    expect(response).toContain(`for address ${ADDRESS_ID}`);
+    expect(response.message).toContain(
+      `Successfully registered basename ${MOCK_BASENAME}.basetest.eth`,
+    );
+    expect(response.message).toContain(`for address ${ADDRESS_ID}`);
   });
 
   it("should fail with an error", async () => {
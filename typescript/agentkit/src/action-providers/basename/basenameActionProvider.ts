@@ -3,6 +3,7 @@ import { z } from "zod";
 import { ActionProvider } from "../actionProvider";
 import { Network } from "../../network";
 import { CreateAction } from "../actionDecorator";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
 import {
   L2_RESOLVER_ADDRESS_MAINNET,
   L2_RESOLVER_ADDRESS_TESTNET,
@@ -31,10 +32,12 @@ export class BasenameActionProvider extends ActionProvider<EvmWalletProvider> {
    *
    * @param wallet - The wallet to use for the registration.
    * @param args - The arguments for the registration.
-   * @returns A string indicating the success or failure of the registration.
+   * @returns An action result indicating the success or failure of the registration.
    */
   @CreateAction({
     name: "register_basename",
+    kind: "write",
+    category: "identity",
     description: `
 This tool will register a Basename for the agent. The agent should have a wallet associated to register a Basename.
 When your network ID is 'base-mainnet' (also sometimes known simply as 'base'), the name must end with .base.eth, and when your network ID is 'base-sepolia', it must ends with .basetest.eth.
@@ -46,7 +49,7 @@ Basename fails, you should prompt to try again with a more unique name.
   async register(
     wallet: EvmWalletProvider,
     args: z.infer<typeof RegisterBasenameSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     const address = wallet.getAddress();
     const isMainnet = wallet.getNetwork().networkId === "base-mainnet";
 
@@ -92,11 +95,18 @@ Basename fails, you should prompt to try again with a more unique name.
         value: parseEther(args.amount),
       });
 
-      await wallet.waitForTransactionReceipt(hash);
+      const receipt = await wallet.waitForTransactionReceipt(hash);
 
-      return `Successfully registered basename ${args.basename} for address ${address}`;
+      return actionSuccess(
+        `Successfully registered basename ${args.basename} for address ${address}`,
+        { transactionHash: hash, receipt, amount: args.amount, basename: args.basename, address },
+      );
     } catch (error) {
-      return `Error registering basename: Error: ${error}`;
+      return actionError(
+        `Error registering basename: Error: ${error}`,
+        "TRANSACTION_FAILED",
+        error,
+      );
     }
   }
 
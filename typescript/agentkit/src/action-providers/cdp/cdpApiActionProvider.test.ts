@@ -1,4 +1,5 @@
 import { EvmWalletProvider } from "../../wallet-providers";
+import { runInActionContext } from "../actionContext";
 import { CdpApiActionProvider } from "./cdpApiActionProvider";
 import { AddressReputationSchema, RequestFaucetFundsSchema } from "./schemas";
 
@@ -77,6 +78,7 @@ describe("CDP API Action Provider", () => {
     mockWallet = {
       deployToken: jest.fn(),
       deployContract: jest.fn(),
+      getName: jest.fn().mockReturnValue("cdp_wallet_provider"),
       getAddress: jest.fn().mockReturnValue("0xe6b2af36b3bb8d47206a129ff11d5a2de2a63c83"),
       getNetwork: jest.fn().mockReturnValue({ networkId: "base-sepolia" }),
     } as unknown as jest.Mocked<EvmWalletProvider>;
@@ -97,7 +99,7 @@ describe("CDP API Action Provider", () => {
       expect(ExternalAddress).toHaveBeenCalledTimes(1);
       expect(mockExternalAddressInstance.reputation).toHaveBeenCalled();
       expect(mockExternalAddressInstance.reputation).toHaveBeenCalledTimes(1);
-      expect(result).toBe("Good reputation");
+      expect(result.message).toBe("Good reputation");
     });
 
     it("should handle errors when checking reputation", async () => {
@@ -115,14 +117,16 @@ describe("CDP API Action Provider", () => {
       expect(ExternalAddress).toHaveBeenCalledTimes(1);
       expect(mockExternalAddressInstance.reputation).toHaveBeenCalled();
       expect(mockExternalAddressInstance.reputation).toHaveBeenCalledTimes(1);
-      expect(result).toBe(`Error checking address reputation: ${error}`);
+      expect(result.message).toBe(`Error checking address reputation: ${error}`);
     });
   });
 
   describe("faucet", () => {
     beforeEach(() => {
       mockExternalAddressInstance.faucet.mockResolvedValue({
+        getTransactionHash: jest.fn().mockReturnValue("0xhash"),
         wait: jest.fn().mockResolvedValue({
+          getTransactionHash: jest.fn().mockReturnValue("0xhash"),
           getTransactionLink: jest.fn().mockReturnValue("tx-link"),
         }),
       });
@@ -139,8 +143,9 @@ describe("CDP API Action Provider", () => {
       expect(ExternalAddress).toHaveBeenCalledTimes(1);
       expect(mockExternalAddressInstance.faucet).toHaveBeenCalledWith("eth");
       expect(mockExternalAddressInstance.faucet).toHaveBeenCalledTimes(1);
-      expect(result).toContain("Received eth from the faucet");
-      expect(result).toContain("tx-link");
+      expect(result.message).toContain("Received eth from the faucet");
+      expect(result.message).toContain("tx-link");
+      expect(result.data.transactionHash).toBe("0xhash");
     });
 
     it("should successfully request faucet funds without assetId", async () => {
@@ -152,7 +157,17 @@ describe("CDP API Action Provider", () => {
       expect(ExternalAddress).toHaveBeenCalledTimes(1);
       expect(mockExternalAddressInstance.faucet).toHaveBeenCalledWith(undefined);
       expect(mockExternalAddressInstance.faucet).toHaveBeenCalledTimes(1);
-      expect(result).toContain("Received ETH from the faucet");
+      expect(result.message).toContain("Received ETH from the faucet");
+    });
+
+    it("should record the faucet transaction before waiting for it", async () => {
+      const transactionHashes: string[] = [];
+
+      await runInActionContext({ actionName: "faucet", transactionHashes }, () =>
+        actionProvider.faucet(mockWallet, {}),
+      );
+
+      expect(transactionHashes).toEqual(["0xhash"]);
     });
 
     it("should handle faucet errors", async () => {
@@ -162,7 +177,7 @@ describe("CDP API Action Provider", () => {
 
       const result = await actionProvider.faucet(mockWallet, args);
 
-      expect(result).toBe(`Error requesting faucet funds: ${error}`);
+      expect(result.message).toBe(`Error requesting faucet funds: ${error}`);
     });
   });
 });
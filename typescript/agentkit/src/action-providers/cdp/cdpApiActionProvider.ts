@@ -3,6 +3,10 @@ import { Coinbase, ExternalAddress } from "@coinbase/coinbase-sdk";
 import { z } from "zod";
 import { CreateAction } from "../actionDecorator";
 import { ActionProvider } from "../actionProvider";
+import { ActionAbortedError, runAbortable } from "../actionAbort";
+import { getActionContext } from "../actionContext";
+import { ActionResult, actionAborted, actionError, actionSuccess } from "../actionResult";
+import { traceWalletCall } from "../../telemetry/telemetry";
 import { Network } from "../../network";
 import { CdpProviderConfig, EvmWalletProvider } from "../../wallet-providers";
 import { AddressReputationSchema, RequestFaucetFundsSchema } from "./schemas";
@@ -37,10 +41,12 @@ export class CdpApiActionProvider extends ActionProvider<EvmWalletProvider> {
    * Check the reputation of an address.
    *
    * @param args - The input arguments for the action
-   * @returns A string containing reputation data or error message
+   * @returns An action result containing reputation data or error message
    */
   @CreateAction({
     name: "address_reputation",
+    kind: "read",
+    category: "security",
     description: `
 This tool checks the reputation of an address on a given network. It takes:
 
@@ -49,13 +55,21 @@ This tool checks the reputation of an address on a given network. It takes:
 `,
     schema: AddressReputationSchema,
   })
-  async addressReputation(args: z.infer<typeof AddressReputationSchema>): Promise<string> {
+  async addressReputation(args: z.infer<typeof AddressReputationSchema>): Promise<ActionResult> {
     try {
       const address = new ExternalAddress(args.network, args.address);
-      const reputation = await address.reputation();
-      return reputation.toString();
+      const reputation = await traceWalletCall(
+        "addressReputation",
+        { "agentkit.network.id": args.network },
+        () => address.reputation(),
+      );
+      return actionSuccess(reputation.toString(), {
+        address: args.address,
+        network: args.network,
+        score: reputation.score,
+      });
     } catch (error) {
-      return `Error checking address reputation: ${error}`;
+      return actionError(`Error checking address reputation: ${error}`, "REQUEST_FAILED", error);
     }
   }
 
@@ -68,6 +82,11 @@ This tool checks the reputation of an address on a given network. It takes:
    */
   @CreateAction({
     name: "request_faucet_funds",
+    kind: "write",
+    category: "faucet",
+    tags: ["testnet"],
+    risk: "low",
+    networks: ["base-sepolia"],
     description: `This tool will request test tokens from the faucet for the default address in the wallet. It takes the wallet and asset ID as input.
 If no asset ID is provided the faucet defaults to ETH. Faucet is only allowed on 'base-sepolia' and can only provide asset ID 'eth' or 'usdc'.
 You are not allowed to faucet with any other network or asset ID. If you are on another network, suggest that the user sends you some ETH
@@ -77,22 +96,45 @@ from another wallet and provide the user with your wallet details.`,
   async faucet(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof RequestFaucetFundsSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const address = new ExternalAddress(
         walletProvider.getNetwork().networkId!,
         walletProvider.getAddress(),
       );
 
-      const faucetTx = await address.faucet(args.assetId || undefined);
+      const faucetTx = await traceWalletCall(
+        "faucet",
+        {
+          "agentkit.wallet.provider": walletProvider.getName(),
+          "agentkit.network.id": walletProvider.getNetwork().networkId ?? "",
+        },
+        () => address.faucet(args.assetId || undefined),
+      );
+      const transactionHash = faucetTx.getTransactionHash();
+      getActionContext()?.transactionHashes?.push(transactionHash);
 
-      const result = await faucetTx.wait();
+      const result = await runAbortable(
+        {},
+        `Faucet transaction ${transactionHash}`,
+        () => faucetTx.wait(),
+        transactionHash,
+      );
 
-      return `Received ${
-        args.assetId || "ETH"
-      } from the faucet. Transaction: ${result.getTransactionLink()}`;
+      return actionSuccess(
+        `Received ${args.assetId || "ETH"} from the faucet. Transaction: ${result.getTransactionLink()}`,
+        {
+          transactionHash: result.getTransactionHash() as `0x${string}`,
+          transactionLink: result.getTransactionLink(),
+          assetId: args.assetId || "eth",
+        },
+      );
     } catch (error) {
-      return `Error requesting faucet funds: ${error}`;
+      if (error instanceof ActionAbortedError) {
+        return actionAborted(error, getActionContext()?.transactionHashes);
+      }
+
+      return actionError(`Error requesting faucet funds: ${error}`, "REQUEST_FAILED", error);
     }
   }
 
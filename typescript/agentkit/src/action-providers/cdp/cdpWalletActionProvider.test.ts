@@ -1,4 +1,6 @@
 import { CdpWalletProvider } from "../../wallet-providers";
+import { ActionAbortedError } from "../actionAbort";
+import { runInActionContext } from "../actionContext";
 import { CdpWalletActionProvider } from "./cdpWalletActionProvider";
 import { DeployNftSchema, DeployTokenSchema, DeployContractSchema } from "./schemas";
 import { SmartContract, Trade } from "@coinbase/coinbase-sdk";
@@ -96,6 +98,9 @@ describe("CDP Wallet Action Provider", () => {
       deployContract: jest.fn(),
       getAddress: jest.fn().mockReturnValue("0xe6b2af36b3bb8d47206a129ff11d5a2de2a63c83"),
       getNetwork: jest.fn().mockReturnValue({ networkId: "base-sepolia" }),
+      isDryRun: jest.fn().mockReturnValue(false),
+      simulateTrade: jest.fn(),
+      waitForTrade: jest.fn((trade: Trade) => trade.wait()),
     } as unknown as jest.Mocked<CdpWalletProvider>;
   });
 
@@ -112,6 +117,7 @@ describe("CDP Wallet Action Provider", () => {
     beforeEach(() => {
       mockWallet = {
         deployNFT: jest.fn().mockResolvedValue({
+          getTransaction: jest.fn().mockReturnValue(undefined),
           wait: jest.fn().mockResolvedValue({
             getContractAddress: jest.fn().mockReturnValue(CONTRACT_ADDRESS),
             getTransaction: jest.fn().mockReturnValue({
@@ -121,6 +127,7 @@ describe("CDP Wallet Action Provider", () => {
           }),
         }),
         getNetwork: jest.fn().mockReturnValue({ networkId: NETWORK_ID }),
+        isDryRun: jest.fn().mockReturnValue(false),
       } as unknown as jest.Mocked<CdpWalletProvider>;
     });
 
@@ -134,11 +141,11 @@ describe("CDP Wallet Action Provider", () => {
       const result = await actionProvider.deployNFT(mockWallet, args);
 
       expect(mockWallet.deployNFT).toHaveBeenCalledWith(args);
-      expect(result).toContain(`Deployed NFT Collection ${MOCK_NFT_NAME}:`);
-      expect(result).toContain(`- to address ${CONTRACT_ADDRESS}`);
-      expect(result).toContain(`- on network ${NETWORK_ID}`);
-      expect(result).toContain(`Transaction hash: ${TRANSACTION_HASH}`);
-      expect(result).toContain(`Transaction link: ${TRANSACTION_LINK}`);
+      expect(result.message).toContain(`Deployed NFT Collection ${MOCK_NFT_NAME}:`);
+      expect(result.message).toContain(`- to address ${CONTRACT_ADDRESS}`);
+      expect(result.message).toContain(`- on network ${NETWORK_ID}`);
+      expect(result.message).toContain(`Transaction hash: ${TRANSACTION_HASH}`);
+      expect(result.message).toContain(`Transaction link: ${TRANSACTION_LINK}`);
     });
 
     it("should handle deployment errors", async () => {
@@ -154,7 +161,7 @@ describe("CDP Wallet Action Provider", () => {
       const result = await actionProvider.deployNFT(mockWallet, args);
 
       expect(mockWallet.deployNFT).toHaveBeenCalledWith(args);
-      expect(result).toBe(`Error deploying NFT: ${error}`);
+      expect(result.message).toBe(`Error deploying NFT: ${error}`);
     });
   });
 
@@ -162,13 +169,16 @@ describe("CDP Wallet Action Provider", () => {
     beforeEach(() => {
       mockWallet = {
         deployToken: jest.fn().mockResolvedValue({
+          getTransaction: jest.fn().mockReturnValue(undefined),
           wait: jest.fn().mockResolvedValue({
             getContractAddress: jest.fn().mockReturnValue("0x123"),
             getTransaction: jest.fn().mockReturnValue({
+              getTransactionHash: jest.fn().mockReturnValue("0xhash"),
               getTransactionLink: jest.fn().mockReturnValue("tx-link"),
             }),
           }),
         }),
+        isDryRun: jest.fn().mockReturnValue(false),
       } as unknown as jest.Mocked<CdpWalletProvider>;
     });
 
@@ -183,7 +193,7 @@ describe("CDP Wallet Action Provider", () => {
 
       expect(mockWallet.deployToken).toHaveBeenCalledWith(args);
       expect(mockWallet.deployToken).toHaveBeenCalledTimes(1);
-      expect(result).toContain(
+      expect(result.message).toContain(
         "Deployed ERC20 token contract Test Token (TEST) with total supply of 1000000000000000000 tokens at address 0x123. Transaction link: tx-link",
       );
     });
@@ -200,7 +210,7 @@ describe("CDP Wallet Action Provider", () => {
 
       const result = await actionProvider.deployToken(mockWallet, args);
 
-      expect(result).toBe(`Error deploying token: ${error}`);
+      expect(result.message).toBe(`Error deploying token: ${error}`);
     });
   });
 
@@ -214,9 +224,11 @@ describe("CDP Wallet Action Provider", () => {
 
     beforeEach(() => {
       mockWallet.deployContract.mockResolvedValue({
+        getTransaction: jest.fn().mockReturnValue(undefined),
         wait: jest.fn().mockResolvedValue({
           getContractAddress: jest.fn().mockReturnValue(CONTRACT_ADDRESS),
           getTransaction: jest.fn().mockReturnValue({
+            getTransactionHash: jest.fn().mockReturnValue("0xghijkl987654321"),
             getTransactionLink: jest.fn().mockReturnValue(TRANSACTION_LINK),
           }),
         }),
@@ -239,10 +251,10 @@ describe("CDP Wallet Action Provider", () => {
         contractName: MOCK_CONTRACT_NAME,
         constructorArgs: MOCK_CONSTRUCTOR_ARGS,
       });
-      expect(response).toContain(
+      expect(response.message).toContain(
         `Deployed contract ${MOCK_CONTRACT_NAME} at address ${CONTRACT_ADDRESS}`,
       );
-      expect(response).toContain(`Transaction link: ${TRANSACTION_LINK}`);
+      expect(response.message).toContain(`Transaction link: ${TRANSACTION_LINK}`);
     });
 
     it("should handle deployment errors", async () => {
@@ -264,7 +276,7 @@ describe("CDP Wallet Action Provider", () => {
         contractName: MOCK_CONTRACT_NAME,
         constructorArgs: MOCK_CONSTRUCTOR_ARGS,
       });
-      expect(response).toBe(`Error deploying contract: ${error}`);
+      expect(response.message).toBe(`Error deploying contract: ${error}`);
     });
   });
 
@@ -275,6 +287,9 @@ describe("CDP Wallet Action Provider", () => {
 
     beforeEach(() => {
       mockWallet.createTrade.mockResolvedValue({
+        getTransaction: jest.fn().mockReturnValue({
+          getTransactionHash: jest.fn().mockReturnValue(TRANSACTION_HASH),
+        }),
         wait: jest.fn().mockResolvedValue({
           getTransaction: jest.fn().mockReturnValue({
             getTransactionHash: jest.fn().mockReturnValue(TRANSACTION_HASH),
@@ -295,11 +310,12 @@ describe("CDP Wallet Action Provider", () => {
       const result = await actionProvider.trade(mockWallet, args);
 
       expect(mockWallet.createTrade).toHaveBeenCalledWith(args);
-      expect(result).toContain(
+      expect(mockWallet.waitForTrade).toHaveBeenCalledTimes(1);
+      expect(result.message).toContain(
         `Traded ${args.amount} of ${args.fromAssetId} for ${TO_AMOUNT} of ${args.toAssetId}`,
       );
-      expect(result).toContain(`Transaction hash for the trade: ${TRANSACTION_HASH}`);
-      expect(result).toContain(`Transaction link for the trade: ${TRANSACTION_LINK}`);
+      expect(result.message).toContain(`Transaction hash for the trade: ${TRANSACTION_HASH}`);
+      expect(result.message).toContain(`Transaction link for the trade: ${TRANSACTION_LINK}`);
     });
 
     it("should handle trade errors", async () => {
@@ -314,7 +330,86 @@ describe("CDP Wallet Action Provider", () => {
 
       const result = await actionProvider.trade(mockWallet, args);
 
-      expect(result).toBe(`Error trading assets: ${error}`);
+      expect(result.message).toBe(`Error trading assets: ${error}`);
+    });
+
+    it("should return a timeout result with the transaction of a trade that timed out", async () => {
+      const args = { amount: 1n, fromAssetId: "eth", toAssetId: "usdc" };
+      mockWallet.createTrade.mockResolvedValue({
+        getTransaction: jest.fn().mockReturnValue({
+          getTransactionHash: jest.fn().mockReturnValue(TRANSACTION_HASH),
+        }),
+        wait: jest.fn().mockReturnValue(new Promise(() => {})),
+      } as unknown as Trade);
+      const controller = new AbortController();
+
+      const trade = runInActionContext(
+        { actionName: "trade", transactionHashes: [TRANSACTION_HASH], signal: controller.signal },
+        () => actionProvider.trade(mockWallet, args),
+      );
+      controller.abort(new ActionAbortedError("Invocation of trade timed out after 10ms", true));
+      const result = await trade;
+
+      expect(result.status).toBe("error");
+      expect(result.error?.code).toBe("TIMEOUT");
+      expect(result.data.transactionHash).toBe(TRANSACTION_HASH);
+      expect(result.message).toBe(
+        `Trade of 1 eth for usdc timed out. Transaction ${TRANSACTION_HASH} was submitted and may still land, check its status before retrying.`,
+      );
+    });
+
+    it("should simulate trades in dry-run mode", async () => {
+      mockWallet.isDryRun.mockReturnValue(true);
+      const args = { amount: 1n, fromAssetId: "eth", toAssetId: "usdc" };
+
+      const result = await actionProvider.trade(mockWallet, args);
+
+      expect(mockWallet.simulateTrade).toHaveBeenCalledWith(args);
+      expect(mockWallet.createTrade).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        status: "success",
+        message: "[Simulated] Traded 1 of eth for usdc",
+        data: {
+          amount: "1",
+          fromAssetId: "eth",
+          toAssetId: "usdc",
+          simulated: true,
+          simulations: [],
+        },
+      });
+    });
+
+    it("should reject simulated trades violating the spending policy", async () => {
+      mockWallet.isDryRun.mockReturnValue(true);
+      mockWallet.simulateTrade.mockRejectedValue(new Error("Spending policy violation"));
+
+      const result = await actionProvider.trade(mockWallet, {
+        amount: 1n,
+        fromAssetId: "eth",
+        toAssetId: "usdc",
+      });
+
+      expect(result.status).toBe("error");
+      expect(mockWallet.createTrade).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("dry-run deployments", () => {
+    it("should simulate deployments without deploying", async () => {
+      mockWallet.isDryRun.mockReturnValue(true);
+
+      const result = await actionProvider.deployToken(mockWallet, {
+        name: "Test Token",
+        symbol: "TEST",
+        totalSupply: 1000n,
+      });
+
+      expect(mockWallet.deployToken).not.toHaveBeenCalled();
+      expect(result.status).toBe("success");
+      expect(result.message).toBe(
+        "[Simulated] Deployed ERC20 token contract Test Token (TEST) with total supply of 1000 tokens",
+      );
+      expect(result.data).toMatchObject({ simulated: true, simulations: [] });
     });
   });
 });
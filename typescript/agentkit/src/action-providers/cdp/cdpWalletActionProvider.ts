@@ -3,6 +3,15 @@ import { z } from "zod";
 
 import { CreateAction } from "../actionDecorator";
 import { ActionProvider } from "../actionProvider";
+import { ActionAbortedError, runAbortable } from "../actionAbort";
+import { getActionContext } from "../actionContext";
+import {
+  ActionResult,
+  actionAborted,
+  actionError,
+  actionSuccess,
+  toSimulatedActionResult,
+} from "../actionResult";
 import { Network } from "../../network";
 import { CdpWalletProvider, CdpProviderConfig } from "../../wallet-providers";
 
@@ -39,6 +48,8 @@ export class CdpWalletActionProvider extends ActionProvider<CdpWalletProvider> {
    */
   @CreateAction({
     name: "deploy_contract",
+    kind: "deploy",
+    category: "deployment",
     description: `
 Deploys smart contract with required args: solidity version (string), solidity input json (string), contract name (string), and optional constructor args (Dict[str, Any])
 
@@ -59,7 +70,13 @@ map where the key is the arg name and the value is the arg value. Encode uint/in
   async deployContract(
     walletProvider: CdpWalletProvider,
     args: z.infer<typeof DeployContractSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
+    if (walletProvider.isDryRun()) {
+      return simulated(`Deployed contract ${args.contractName}`, {
+        contractName: args.contractName,
+      });
+    }
+
     try {
       const solidityVersion = SolidityVersions[args.solidityVersion];
 
@@ -70,13 +87,25 @@ map where the key is the arg name and the value is the arg value. Encode uint/in
         constructorArgs: args.constructorArgs ?? {},
       });
 
-      const result = await contract.wait();
+      const result = await runAbortable(
+        {},
+        `Deployment of contract ${args.contractName}`,
+        () => contract.wait(),
+        contract.getTransaction()?.getTransactionHash(),
+      );
+      const transaction = result.getTransaction()!;
 
-      return `Deployed contract ${args.contractName} at address ${result.getContractAddress()}. Transaction link: ${result
-        .getTransaction()!
-        .getTransactionLink()}`;
+      return actionSuccess(
+        `Deployed contract ${args.contractName} at address ${result.getContractAddress()}. Transaction link: ${transaction.getTransactionLink()}`,
+        {
+          transactionHash: transaction.getTransactionHash() as `0x${string}`,
+          transactionLink: transaction.getTransactionLink(),
+          contractAddress: result.getContractAddress(),
+          contractName: args.contractName,
+        },
+      );
     } catch (error) {
-      return `Error deploying contract: ${error}`;
+      return transactionFailed("Error deploying contract", error);
     }
   }
 
@@ -89,6 +118,8 @@ map where the key is the arg name and the value is the arg value. Encode uint/in
    */
   @CreateAction({
     name: "deploy_nft",
+    kind: "deploy",
+    category: "deployment",
     description: `This tool will deploy an NFT (ERC-721) contract onchain from the wallet. 
   It takes the name of the NFT collection, the symbol of the NFT collection, and the base URI for the token metadata as inputs.`,
     schema: DeployNftSchema,
@@ -96,7 +127,13 @@ map where the key is the arg name and the value is the arg value. Encode uint/in
   async deployNFT(
     walletProvider: CdpWalletProvider,
     args: z.infer<typeof DeployNftSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
+    if (walletProvider.isDryRun()) {
+      return simulated(`Deployed NFT Collection ${args.name}`, {
+        networkId: walletProvider.getNetwork().networkId,
+      });
+    }
+
     try {
       const nftContract = await walletProvider.deployNFT({
         name: args.name,
@@ -104,21 +141,34 @@ map where the key is the arg name and the value is the arg value. Encode uint/in
         baseURI: args.baseURI,
       });
 
-      const result = await nftContract.wait();
+      const result = await runAbortable(
+        {},
+        `Deployment of NFT collection ${args.name}`,
+        () => nftContract.wait(),
+        nftContract.getTransaction()?.getTransactionHash(),
+      );
 
       const transaction = result.getTransaction()!;
       const networkId = walletProvider.getNetwork().networkId;
       const contractAddress = result.getContractAddress();
 
-      return [
-        `Deployed NFT Collection ${args.name}:`,
-        `- to address ${contractAddress}`,
-        `- on network ${networkId}.`,
-        `Transaction hash: ${transaction.getTransactionHash()}`,
-        `Transaction link: ${transaction.getTransactionLink()}`,
-      ].join("\n");
+      return actionSuccess(
+        [
+          `Deployed NFT Collection ${args.name}:`,
+          `- to address ${contractAddress}`,
+          `- on network ${networkId}.`,
+          `Transaction hash: ${transaction.getTransactionHash()}`,
+          `Transaction link: ${transaction.getTransactionLink()}`,
+        ].join("\n"),
+        {
+          transactionHash: transaction.getTransactionHash() as `0x${string}`,
+          transactionLink: transaction.getTransactionLink(),
+          contractAddress,
+          networkId,
+        },
+      );
     } catch (error) {
-      return `Error deploying NFT: ${error}`;
+      return transactionFailed("Error deploying NFT", error);
     }
   }
 
@@ -131,11 +181,23 @@ map where the key is the arg name and the value is the arg value. Encode uint/in
    */
   @CreateAction({
     name: "deploy_token",
+    kind: "deploy",
+    category: "deployment",
     description: `This tool will deploy an ERC20 token smart contract. It takes the token name, symbol, and total supply as input. 
 The token will be deployed using the wallet's default address as the owner and initial token holder.`,
     schema: DeployTokenSchema,
   })
-  async deployToken(walletProvider: CdpWalletProvider, args: z.infer<typeof DeployTokenSchema>) {
+  async deployToken(
+    walletProvider: CdpWalletProvider,
+    args: z.infer<typeof DeployTokenSchema>,
+  ): Promise<ActionResult> {
+    if (walletProvider.isDryRun()) {
+      return simulated(
+        `Deployed ERC20 token contract ${args.name} (${args.symbol}) with total supply of ${args.totalSupply} tokens`,
+        { totalSupply: `${args.totalSupply}` },
+      );
+    }
+
     try {
       const tokenContract = await walletProvider.deployToken({
         name: args.name,
@@ -143,15 +205,27 @@ The token will be deployed using the wallet's default address as the owner and i
         totalSupply: args.totalSupply,
       });
 
-      const result = await tokenContract.wait();
+      const result = await runAbortable(
+        {},
+        `Deployment of token ${args.name}`,
+        () => tokenContract.wait(),
+        tokenContract.getTransaction()?.getTransactionHash(),
+      );
+      const transaction = result.getTransaction()!;
 
-      return `Deployed ERC20 token contract ${args.name} (${args.symbol}) with total supply of ${
-        args.totalSupply
-      } tokens at address ${result.getContractAddress()}. Transaction link: ${result
-        .getTransaction()!
-        .getTransactionLink()}`;
+      return actionSuccess(
+        `Deployed ERC20 token contract ${args.name} (${args.symbol}) with total supply of ${
+          args.totalSupply
+        } tokens at address ${result.getContractAddress()}. Transaction link: ${transaction.getTransactionLink()}`,
+        {
+          transactionHash: transaction.getTransactionHash() as `0x${string}`,
+          transactionLink: transaction.getTransactionLink(),
+          contractAddress: result.getContractAddress(),
+          totalSupply: `${args.totalSupply}`,
+        },
+      );
     } catch (error) {
-      return `Error deploying token: ${error}`;
+      return transactionFailed("Error deploying token", error);
     }
   }
 
@@ -164,6 +238,14 @@ The token will be deployed using the wallet's default address as the owner and i
    */
   @CreateAction({
     name: "trade",
+    kind: "write",
+    category: "trading",
+    examples: [
+      {
+        description: "Trade 0.1 ETH for USDC",
+        args: { amount: "0.1", fromAssetId: "eth", toAssetId: "usdc" },
+      },
+    ],
     description: `This tool will trade a specified amount of a 'from asset' to a 'to asset' for the wallet.
 It takes the following inputs:
 - The amount of the 'from asset' to trade
@@ -179,25 +261,46 @@ Important notes:
   async trade(
     walletProvider: CdpWalletProvider,
     args: z.infer<typeof TradeSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
+      if (walletProvider.isDryRun()) {
+        await walletProvider.simulateTrade(args);
+        return simulated(`Traded ${args.amount} of ${args.fromAssetId} for ${args.toAssetId}`, {
+          amount: `${args.amount}`,
+          fromAssetId: args.fromAssetId,
+          toAssetId: args.toAssetId,
+        });
+      }
+
       const tradeResult = await walletProvider.createTrade({
         amount: args.amount,
         fromAssetId: args.fromAssetId,
         toAssetId: args.toAssetId,
       });
 
-      const result = await tradeResult.wait();
+      const result = await runAbortable(
+        {},
+        `Trade of ${args.amount} ${args.fromAssetId} for ${args.toAssetId}`,
+        () => walletProvider.waitForTrade(tradeResult),
+        tradeResult.getTransaction().getTransactionHash(),
+      );
+      const transaction = result.getTransaction();
 
-      return `Traded ${args.amount} of ${args.fromAssetId} for ${result.getToAmount()} of ${
-        args.toAssetId
-      }.\nTransaction hash for the trade: ${result
-        .getTransaction()
-        .getTransactionHash()}\nTransaction link for the trade: ${result
-        .getTransaction()
-        .getTransactionLink()}`;
+      return actionSuccess(
+        `Traded ${args.amount} of ${args.fromAssetId} for ${result.getToAmount()} of ${
+          args.toAssetId
+        }.\nTransaction hash for the trade: ${transaction.getTransactionHash()}\nTransaction link for the trade: ${transaction.getTransactionLink()}`,
+        {
+          transactionHash: transaction.getTransactionHash() as `0x${string}`,
+          transactionLink: transaction.getTransactionLink(),
+          amount: `${args.amount}`,
+          fromAssetId: args.fromAssetId,
+          toAssetId: args.toAssetId,
+          toAmount: `${result.getToAmount()}`,
+        },
+      );
     } catch (error) {
-      return `Error trading assets: ${error}`;
+      return transactionFailed("Error trading assets", error);
     }
   }
 
@@ -210,5 +313,33 @@ Important notes:
   supportsNetwork = (_: Network) => true;
 }
 
+/**
+ * Creates the result of a CDP action in dry-run mode. CDP trades and deployments cannot be
+ * simulated onchain, so the action is not made and no transaction is simulated.
+ *
+ * @param message - The message the action would have returned.
+ * @param data - The data known without making the action.
+ * @returns The simulated action result.
+ */
+function simulated(message: string, data: Record<string, unknown>): ActionResult {
+  return toSimulatedActionResult(actionSuccess(message, data), []);
+}
+
+/**
+ * Creates the result of a failed CDP trade or deployment. Waits abandoned because the invocation
+ * was cancelled or timed out report the transactions that were submitted and may still land.
+ *
+ * @param message - The description of the failure.
+ * @param error - The error the action failed with.
+ * @returns The failed action result.
+ */
+function transactionFailed(message: string, error: unknown): ActionResult {
+  if (error instanceof ActionAbortedError) {
+    return actionAborted(error, getActionContext()?.transactionHashes);
+  }
+
+  return actionError(`${message}: ${error}`, "TRANSACTION_FAILED", error);
+}
+
 export const cdpWalletActionProvider = (config: CdpProviderConfig = {}) =>
   new CdpWalletActionProvider(config);
@@ -0,0 +1,146 @@
+import { z } from "zod";
+import { customActionProvider } from "./customActionProvider";
+import { EvmWalletProvider } from "../wallet-providers";
+import { mockWalletProvider } from "../tests/mockWalletProvider";
+
+jest.mock("../analytics", () => ({
+  sendAnalyticsEvent: jest.fn(),
+}));
+
+const GreetSchema = z.object({ name: z.string() });
+const CountSchema = z.object({ count: z.number().default(1) });
+
+describe("CustomActionProvider", () => {
+  it("should only expose the actions of each instance", () => {
+    const greetProvider = customActionProvider({
+      name: "greet",
+      description: "Greets someone",
+      schema: GreetSchema,
+      invoke: async (args: z.infer<typeof GreetSchema>) => `Hello, ${args.name}!`,
+    });
+    const countProvider = customActionProvider({
+      name: "count",
+      description: "Counts",
+      schema: CountSchema,
+      invoke: async (_, { count }) => `${count}`,
+    });
+
+    const walletProvider = mockWalletProvider();
+
+    expect(greetProvider.getActions(walletProvider).map(action => action.name)).toEqual([
+      "CustomActionProvider_greet",
+    ]);
+    expect(countProvider.getActions(walletProvider).map(action => action.name)).toEqual([
+      "CustomActionProvider_count",
+    ]);
+  });
+
+  it("should invoke actions with and without the wallet provider", async () => {
+    const walletProvider = mockWalletProvider();
+    const provider = customActionProvider([
+      {
+        name: "greet",
+        description: "Greets someone",
+        schema: GreetSchema,
+        invoke: async (args: z.infer<typeof GreetSchema>) => `Hello, ${args.name}!`,
+      },
+      {
+        name: "address",
+        description: "Gets the wallet address",
+        schema: CountSchema,
+        invoke: async (wallet, { count }) => wallet.getAddress().slice(0, count + 2),
+      },
+    ]);
+
+    const [greet, address] = provider.getActions(walletProvider);
+
+    expect((await greet.invoke({ name: "Alice" })).message).toBe("Hello, Alice!");
+    expect((await address.invoke({ count: 4 })).message).toBe("0x1234");
+  });
+
+  it("should leave out actions on unsupported networks", () => {
+    const provider = customActionProvider({
+      name: "greet",
+      description: "Greets someone",
+      schema: GreetSchema,
+      supportsNetwork: network => network.networkId === "base-mainnet",
+      invoke: async (args: z.infer<typeof GreetSchema>) => `Hello, ${args.name}!`,
+    });
+
+    expect(provider.getActions(mockWalletProvider())).toEqual([]);
+    expect(
+      provider.getActions(mockWalletProvider({ protocolFamily: "evm", networkId: "base-mainnet" })),
+    ).toHaveLength(1);
+  });
+
+  it("should leave out actions requiring another type of wallet provider", () => {
+    const provider = customActionProvider({
+      name: "sign",
+      description: "Signs a message",
+      schema: GreetSchema,
+      walletProviderType: EvmWalletProvider,
+      invoke: async (wallet, { name }) => wallet.signMessage(name),
+    });
+
+    const evmWalletProvider = Object.assign(
+      Object.create(EvmWalletProvider.prototype),
+      mockWalletProvider(),
+    ) as EvmWalletProvider;
+
+    expect(provider.getActions(mockWalletProvider())).toEqual([]);
+    expect(provider.getActions(evmWalletProvider)).toHaveLength(1);
+  });
+
+  it("should expose the metadata of actions", () => {
+    const OutputSchema = z.object({ greeting: z.string() });
+    const provider = customActionProvider({
+      name: "greet",
+      description: "Greets someone",
+      schema: GreetSchema,
+      kind: "social-post",
+      category: "social",
+      tags: ["greeting"],
+      examples: [{ description: "Greet Alice", args: { name: "Alice" } }],
+      outputSchema: OutputSchema,
+      invoke: async (args: z.infer<typeof GreetSchema>) => `Hello, ${args.name}!`,
+    });
+
+    const [action] = provider.getActions(mockWalletProvider());
+
+    expect(action).toMatchObject({
+      kind: "social-post",
+      category: "social",
+      tags: ["greeting"],
+      risk: "medium",
+      examples: [{ description: "Greet Alice", args: { name: "Alice" } }],
+      outputSchema: OutputSchema,
+    });
+  });
+
+  it("should only expose actions restricted to networks on those networks", () => {
+    const provider = customActionProvider({
+      name: "faucet",
+      description: "Requests testnet funds",
+      schema: GreetSchema,
+      networks: ["base-sepolia"],
+      invoke: async (args: z.infer<typeof GreetSchema>) => `Funded ${args.name}`,
+    });
+
+    expect(provider.getActions(mockWalletProvider())).toHaveLength(1);
+    expect(
+      provider.getActions(mockWalletProvider({ protocolFamily: "evm", networkId: "base-mainnet" })),
+    ).toEqual([]);
+  });
+
+  it("should reject examples not matching the schema of the action", () => {
+    expect(() =>
+      customActionProvider({
+        name: "greet",
+        description: "Greets someone",
+        schema: GreetSchema,
+        examples: [{ description: "Greet nobody", args: { name: 42 } }],
+        invoke: async (args: z.infer<typeof GreetSchema>) => `Hello, ${args.name}!`,
+      }),
+    ).toThrow('Example "Greet nobody" of action CustomActionProvider_greet does not match');
+  });
+});
@@ -1,18 +1,37 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import { z } from "zod";
-import { CreateAction } from "./actionDecorator";
+import {
+  ACTION_DECORATOR_KEY,
+  CreateActionDecoratorParams,
+  StoredActionMetadata,
+  createActionMetadata,
+} from "./actionDecorator";
 import { ActionProvider } from "./actionProvider";
 import { Network } from "../network";
 import { WalletProvider } from "../wallet-providers";
 
-interface CustomActionProviderOptions<TWalletProvider extends WalletProvider> {
-  name: string;
-  description: string;
-  schema: z.ZodSchema;
+/**
+ * Options for a custom action.
+ *
+ * The arguments of `invoke` are typed from the schema. Annotate them when `invoke` does not take
+ * the wallet provider, e.g. `async (args: z.infer<typeof schema>) => ...`.
+ */
+interface CustomActionProviderOptions<
+  TWalletProvider extends WalletProvider,
+  TActionSchema extends z.ZodSchema = z.ZodSchema,
+> extends Omit<CreateActionDecoratorParams, "schema"> {
+  schema: TActionSchema;
+
+  /**
+   * The class the wallet provider must be an instance of, e.g. `EvmWalletProvider`. The action
+   * is not exposed with other wallet providers.
+   */
+  walletProviderType?: abstract new (...args: any[]) => TWalletProvider;
+
   invoke:
-    | ((args: any) => Promise<any>)
-    | ((walletProvider: TWalletProvider, args: any) => Promise<any>);
+    | ((args: z.infer<TActionSchema>) => Promise<any>)
+    | ((walletProvider: TWalletProvider, args: z.infer<TActionSchema>) => Promise<any>);
 }
 
 /**
@@ -20,55 +39,32 @@ interface CustomActionProviderOptions<TWalletProvider extends WalletProvider> {
  */
 export class CustomActionProvider<TWalletProvider extends WalletProvider> extends ActionProvider {
   /**
-   * Creates a new CustomActionProvider that dynamically adds decorated action methods
+   * Creates a new CustomActionProvider holding the given actions. Each instance only exposes its
+   * own actions.
    *
    * @param actions - Array of custom actions to be added to the provider
    */
-  constructor(actions: CustomActionProviderOptions<TWalletProvider>[]) {
+  constructor(actions: CustomActionProviderOptions<TWalletProvider, any>[]) {
     super("custom", []);
 
-    actions.forEach(({ name, description, schema, invoke }) => {
+    const actionsMetadata: StoredActionMetadata = new Map();
+
+    actions.forEach(({ walletProviderType, invoke, ...params }) => {
       // Check if the invoke function expects a wallet provider
       const takesWalletProvider = invoke.length === 2;
 
-      // Define the method on the prototype with the correct signature
-      Object.defineProperty(CustomActionProvider.prototype, name, {
-        value: takesWalletProvider
-          ? async function (walletProvider: WalletProvider, args: unknown) {
-              const parsedArgs = schema.parse(args);
-              return await (invoke as any)(walletProvider, parsedArgs);
-            }
-          : async function (args: unknown) {
-              const parsedArgs = schema.parse(args);
-              return await (invoke as any)(parsedArgs);
-            },
-        configurable: true,
-        writable: true,
-        enumerable: true,
-      });
-
-      // Manually set the parameter metadata
-      const paramTypes = takesWalletProvider ? [WalletProvider, Object] : [Object];
-      Reflect.defineMetadata("design:paramtypes", paramTypes, CustomActionProvider.prototype, name);
-
-      // Apply the decorator using original name
-      const decoratedMethod = CreateAction({
-        name,
-        description,
-        schema,
-      })(
-        CustomActionProvider.prototype,
-        name,
-        Object.getOwnPropertyDescriptor(CustomActionProvider.prototype, name)!,
+      const metadata = createActionMetadata(
+        CustomActionProvider.name,
+        params.name,
+        params,
+        invoke,
+        takesWalletProvider,
       );
 
-      // Add the decorated method to the instance
-      Object.defineProperty(this, name, {
-        value: decoratedMethod,
-        configurable: true,
-        writable: true,
-      });
+      actionsMetadata.set(params.name, { ...metadata, walletProviderType });
     });
+
+    Reflect.defineMetadata(ACTION_DECORATOR_KEY, actionsMetadata, this);
   }
 
   /**
@@ -82,8 +78,40 @@ export class CustomActionProvider<TWalletProvider extends WalletProvider> extend
   }
 }
 
-export const customActionProvider = <TWalletProvider extends WalletProvider>(
+/**
+ * Creates a CustomActionProvider holding one or more custom actions.
+ *
+ * @param actions - The custom action, or array of custom actions
+ * @returns The custom action provider
+ */
+export function customActionProvider<
+  TWalletProvider extends WalletProvider = WalletProvider,
+  TActionSchema extends z.ZodSchema = z.ZodSchema,
+>(
+  actions: CustomActionProviderOptions<TWalletProvider, TActionSchema>,
+): CustomActionProvider<TWalletProvider>;
+/**
+ * Creates a CustomActionProvider holding one or more custom actions.
+ *
+ * @param actions - The custom action, or array of custom actions
+ * @returns The custom action provider
+ */
+export function customActionProvider<
+  TWalletProvider extends WalletProvider = WalletProvider,
+  TActionSchemas extends z.ZodSchema[] = z.ZodSchema[],
+>(actions: {
+  [K in keyof TActionSchemas]: CustomActionProviderOptions<TWalletProvider, TActionSchemas[K]>;
+}): CustomActionProvider<TWalletProvider>;
+/**
+ * Creates a CustomActionProvider holding one or more custom actions.
+ *
+ * @param actions - The custom action, or array of custom actions
+ * @returns The custom action provider
+ */
+export function customActionProvider<TWalletProvider extends WalletProvider>(
   actions:
-    | CustomActionProviderOptions<TWalletProvider>
-    | CustomActionProviderOptions<TWalletProvider>[],
-) => new CustomActionProvider<TWalletProvider>(Array.isArray(actions) ? actions : [actions]);
+    | CustomActionProviderOptions<TWalletProvider, any>
+    | CustomActionProviderOptions<TWalletProvider, any>[],
+): CustomActionProvider<TWalletProvider> {
+  return new CustomActionProvider<TWalletProvider>(Array.isArray(actions) ? actions : [actions]);
+}
@@ -57,7 +57,9 @@ describe("Get Balance Action", () => {
       functionName: "balanceOf",
       args: [mockWallet.getAddress()],
     });
-    expect(response).toContain(`Balance of ${MOCK_CONTRACT_ADDRESS} is ${MOCK_AMOUNT}`);
+    expect(response.status).toBe("success");
+    expect(response.message).toContain(`Balance of ${MOCK_CONTRACT_ADDRESS} is ${MOCK_AMOUNT}`);
+    expect(response.data.balance).toBe(`${MOCK_AMOUNT}`);
   });
 
   it("should fail with an error", async () => {
@@ -77,7 +79,7 @@ describe("Get Balance Action", () => {
       args: [mockWallet.getAddress()],
     });
 
-    expect(response).toContain(`Error getting balance: ${error}`);
+    expect(response.message).toContain(`Error getting balance: ${error}`);
   });
 });
 
@@ -116,10 +118,13 @@ describe("Transfer Action", () => {
       }),
     });
     expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith(TRANSACTION_HASH);
-    expect(response).toContain(
+    expect(response.message).toContain(
       `Transferred ${MOCK_AMOUNT} of ${MOCK_CONTRACT_ADDRESS} to ${MOCK_DESTINATION}`,
     );
-    expect(response).toContain(`Transaction hash for the transfer: ${TRANSACTION_HASH}`);
+    expect(response.message).toContain(`Transaction hash for the transfer: ${TRANSACTION_HASH}`);
+    expect(response.status).toBe("success");
+    expect(response.data.transactionHash).toBe(TRANSACTION_HASH);
+    expect(response.data.amount).toBe(`${MOCK_AMOUNT}`);
   });
 
   it("should fail with an error", async () => {
@@ -142,6 +147,8 @@ describe("Transfer Action", () => {
         args: [args.destination as Hex, BigInt(args.amount)],
       }),
     });
-    expect(response).toContain(`Error transferring the asset: ${error}`);
+    expect(response.status).toBe("error");
+    expect(response.error?.code).toBe("TRANSACTION_FAILED");
+    expect(response.message).toContain(`Error transferring the asset: ${error}`);
   });
 });
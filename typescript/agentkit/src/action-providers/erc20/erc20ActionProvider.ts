@@ -2,7 +2,8 @@ import { z } from "zod";
 import { ActionProvider } from "../actionProvider";
 import { Network } from "../../network";
 import { CreateAction } from "../actionDecorator";
-import { GetBalanceSchema, TransferSchema } from "./schemas";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
+import { GetBalanceOutputSchema, GetBalanceSchema, TransferSchema } from "./schemas";
 import { abi } from "./constants";
 import { encodeFunctionData, Hex } from "viem";
 import { EvmWalletProvider } from "../../wallet-providers";
@@ -27,6 +28,15 @@ export class ERC20ActionProvider extends ActionProvider<EvmWalletProvider> {
    */
   @CreateAction({
     name: "get_balance",
+    kind: "read",
+    category: "token",
+    outputSchema: GetBalanceOutputSchema,
+    examples: [
+      {
+        description: "Get the USDC balance of the wallet on Base",
+        args: { contractAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" },
+      },
+    ],
     description: `
     This tool will get the balance of an ERC20 asset in the wallet. It takes the contract address as input.
     `,
@@ -35,7 +45,7 @@ export class ERC20ActionProvider extends ActionProvider<EvmWalletProvider> {
   async getBalance(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof GetBalanceSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const balance = await walletProvider.readContract({
         address: args.contractAddress as Hex,
@@ -44,9 +54,12 @@ export class ERC20ActionProvider extends ActionProvider<EvmWalletProvider> {
         args: [walletProvider.getAddress()],
       });
 
-      return `Balance of ${args.contractAddress} is ${balance}`;
+      return actionSuccess(`Balance of ${args.contractAddress} is ${balance}`, {
+        contractAddress: args.contractAddress,
+        balance: `${balance}`,
+      });
     } catch (error) {
-      return `Error getting balance: ${error}`;
+      return actionError(`Error getting balance: ${error}`, "REQUEST_FAILED", error);
     }
   }
 
@@ -59,6 +72,18 @@ export class ERC20ActionProvider extends ActionProvider<EvmWalletProvider> {
    */
   @CreateAction({
     name: "transfer",
+    kind: "write",
+    category: "token",
+    examples: [
+      {
+        description: "Send 1 USDC (6 decimals) on Base to example.base.eth",
+        args: {
+          amount: "1000000",
+          contractAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+          destination: "example.base.eth",
+        },
+      },
+    ],
     description: `
     This tool will transfer an ERC20 token from the wallet to another onchain address.
 
@@ -76,7 +101,7 @@ Important notes:
   async transfer(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof TransferSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const hash = await walletProvider.sendTransaction({
         to: args.contractAddress as Hex,
@@ -87,13 +112,22 @@ Important notes:
         }),
       });
 
-      await walletProvider.waitForTransactionReceipt(hash);
+      const receipt = await walletProvider.waitForTransactionReceipt(hash);
 
-      return `Transferred ${args.amount} of ${args.contractAddress} to ${
-        args.destination
-      }.\nTransaction hash for the transfer: ${hash}`;
+      return actionSuccess(
+        `Transferred ${args.amount} of ${args.contractAddress} to ${
+          args.destination
+        }.\nTransaction hash for the transfer: ${hash}`,
+        {
+          transactionHash: hash,
+          receipt,
+          amount: `${args.amount}`,
+          contractAddress: args.contractAddress,
+          destination: args.destination,
+        },
+      );
     } catch (error) {
-      return `Error transferring the asset: ${error}`;
+      return actionError(`Error transferring the asset: ${error}`, "TRANSACTION_FAILED", error);
     }
   }
 
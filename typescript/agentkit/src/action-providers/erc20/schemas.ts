@@ -23,3 +23,11 @@ export const GetBalanceSchema = z
   })
   .strip()
   .describe("Instructions for getting wallet balance");
+
+/**
+ * Output schema for get balance action.
+ */
+export const GetBalanceOutputSchema = z.object({
+  contractAddress: z.string().describe("The contract address of the token"),
+  balance: z.string().describe("The balance in the smallest unit of the token"),
+});
@@ -45,7 +45,9 @@ describe("ERC721 Action Provider", () => {
       });
 
       expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith("0xmockhash");
-      expect(response).toBe(`Successfully minted NFT ${MOCK_CONTRACT} to ${MOCK_DESTINATION}`);
+      expect(response.message).toBe(
+        `Successfully minted NFT ${MOCK_CONTRACT} to ${MOCK_DESTINATION}`,
+      );
     });
 
     it("should handle mint errors", async () => {
@@ -58,7 +60,9 @@ describe("ERC721 Action Provider", () => {
       };
 
       const response = await actionProvider.mint(mockWallet, args);
-      expect(response).toBe(`Error minting NFT ${MOCK_CONTRACT} to ${MOCK_DESTINATION}: ${error}`);
+      expect(response.message).toBe(
+        `Error minting NFT ${MOCK_CONTRACT} to ${MOCK_DESTINATION}: ${error}`,
+      );
     });
   });
 
@@ -83,7 +87,7 @@ describe("ERC721 Action Provider", () => {
       });
 
       expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith("0xmockhash");
-      expect(response).toBe(
+      expect(response.message).toBe(
         `Successfully transferred NFT ${MOCK_CONTRACT} with tokenId ${MOCK_TOKEN_ID} to ${MOCK_DESTINATION}`,
       );
     });
@@ -100,7 +104,7 @@ describe("ERC721 Action Provider", () => {
       };
 
       const response = await actionProvider.transfer(mockWallet, args);
-      expect(response).toBe(
+      expect(response.message).toBe(
         `Error transferring NFT ${MOCK_CONTRACT} with tokenId ${MOCK_TOKEN_ID} to ${MOCK_DESTINATION}: ${error}`,
       );
     });
@@ -127,7 +131,7 @@ describe("ERC721 Action Provider", () => {
         functionName: "balanceOf",
         args: [MOCK_ADDRESS],
       });
-      expect(response).toBe(
+      expect(response.message).toBe(
         `Balance of NFTs for contract ${MOCK_CONTRACT} at address ${MOCK_ADDRESS} is 1`,
       );
     });
@@ -148,7 +152,9 @@ describe("ERC721 Action Provider", () => {
         functionName: "balanceOf",
         args: [MOCK_ADDRESS],
       });
-      expect(response).toBe(`Error getting NFT balance for contract ${MOCK_CONTRACT}: ${error}`);
+      expect(response.message).toBe(
+        `Error getting NFT balance for contract ${MOCK_CONTRACT}: ${error}`,
+      );
     });
   });
 
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { ActionProvider } from "../actionProvider";
 import { EvmWalletProvider } from "../../wallet-providers";
 import { CreateAction } from "../actionDecorator";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
 import { GetBalanceSchema, MintSchema, TransferSchema } from "./schemas";
 import { ERC721_ABI } from "./constants";
 import { encodeFunctionData, Hex } from "viem";
@@ -27,6 +28,8 @@ export class Erc721ActionProvider extends ActionProvider<EvmWalletProvider> {
    */
   @CreateAction({
     name: "mint",
+    kind: "write",
+    category: "nft",
     description: `
 This tool will mint an NFT (ERC-721) to a specified destination address onchain via a contract invocation. 
 It takes the contract address of the NFT onchain and the destination address onchain that will receive the NFT as inputs. 
@@ -34,7 +37,10 @@ Do not use the contract address as the destination address. If you are unsure of
 `,
     schema: MintSchema,
   })
-  async mint(walletProvider: EvmWalletProvider, args: z.infer<typeof MintSchema>): Promise<string> {
+  async mint(
+    walletProvider: EvmWalletProvider,
+    args: z.infer<typeof MintSchema>,
+  ): Promise<ActionResult> {
     try {
       const data = encodeFunctionData({
         abi: ERC721_ABI,
@@ -47,11 +53,23 @@ Do not use the contract address as the destination address. If you are unsure of
         data,
       });
 
-      await walletProvider.waitForTransactionReceipt(hash);
-
-      return `Successfully minted NFT ${args.contractAddress} to ${args.destination}`;
+      const receipt = await walletProvider.waitForTransactionReceipt(hash);
+
+      return actionSuccess(
+        `Successfully minted NFT ${args.contractAddress} to ${args.destination}`,
+        {
+          transactionHash: hash,
+          receipt,
+          contractAddress: args.contractAddress,
+          destination: args.destination,
+        },
+      );
     } catch (error) {
-      return `Error minting NFT ${args.contractAddress} to ${args.destination}: ${error}`;
+      return actionError(
+        `Error minting NFT ${args.contractAddress} to ${args.destination}: ${error}`,
+        "TRANSACTION_FAILED",
+        error,
+      );
     }
   }
 
@@ -64,6 +82,8 @@ Do not use the contract address as the destination address. If you are unsure of
    */
   @CreateAction({
     name: "transfer",
+    kind: "write",
+    category: "nft",
     description: `
 This tool will transfer an NFT (ERC721 token) from the wallet to another onchain address.
 
@@ -82,7 +102,7 @@ Important notes:
   async transfer(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof TransferSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const data = encodeFunctionData({
         abi: ERC721_ABI,
@@ -95,11 +115,24 @@ Important notes:
         data,
       });
 
-      await walletProvider.waitForTransactionReceipt(hash);
-
-      return `Successfully transferred NFT ${args.contractAddress} with tokenId ${args.tokenId} to ${args.destination}`;
+      const receipt = await walletProvider.waitForTransactionReceipt(hash);
+
+      return actionSuccess(
+        `Successfully transferred NFT ${args.contractAddress} with tokenId ${args.tokenId} to ${args.destination}`,
+        {
+          transactionHash: hash,
+          receipt,
+          contractAddress: args.contractAddress,
+          tokenId: args.tokenId,
+          destination: args.destination,
+        },
+      );
     } catch (error) {
-      return `Error transferring NFT ${args.contractAddress} with tokenId ${args.tokenId} to ${args.destination}: ${error}`;
+      return actionError(
+        `Error transferring NFT ${args.contractAddress} with tokenId ${args.tokenId} to ${args.destination}: ${error}`,
+        "TRANSACTION_FAILED",
+        error,
+      );
     }
   }
 
@@ -112,6 +145,8 @@ Important notes:
    */
   @CreateAction({
     name: "get_balance",
+    kind: "read",
+    category: "nft",
     description: `
 This tool will check the NFT (ERC721 token) balance for a given address.
 
@@ -124,7 +159,7 @@ It takes the following inputs:
   async getBalance(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof GetBalanceSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const address = args.address || walletProvider.getAddress();
 
@@ -135,9 +170,16 @@ It takes the following inputs:
         args: [address],
       });
 
-      return `Balance of NFTs for contract ${args.contractAddress} at address ${address} is ${balance}`;
+      return actionSuccess(
+        `Balance of NFTs for contract ${args.contractAddress} at address ${address} is ${balance}`,
+        { contractAddress: args.contractAddress, address, balance: `${balance}` },
+      );
     } catch (error) {
-      return `Error getting NFT balance for contract ${args.contractAddress}: ${error}`;
+      return actionError(
+        `Error getting NFT balance for contract ${args.contractAddress}: ${error}`,
+        "REQUEST_FAILED",
+        error,
+      );
     }
   }
 
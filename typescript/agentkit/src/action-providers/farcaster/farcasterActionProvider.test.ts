@@ -83,8 +83,8 @@ describe("Farcaster Action Provider", () => {
         },
       );
       expect(mockFetch).toHaveBeenCalledTimes(1);
-      expect(result).toContain("Successfully retrieved Farcaster account details");
-      expect(result).toContain(JSON.stringify(mockUserResponse.users[0]));
+      expect(result.message).toContain("Successfully retrieved Farcaster account details");
+      expect(result.message).toContain(JSON.stringify(mockUserResponse.users[0]));
     });
 
     it("should handle errors when retrieving account details", async () => {
@@ -94,7 +94,7 @@ describe("Farcaster Action Provider", () => {
       const result = await actionProvider.accountDetails({});
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
-      expect(result).toBe(`Error retrieving Farcaster account details:\n${error}`);
+      expect(result.message).toBe(`Error retrieving Farcaster account details:\n${error}`);
     });
   });
 
@@ -126,8 +126,8 @@ describe("Farcaster Action Provider", () => {
         }),
       });
       expect(mockFetch).toHaveBeenCalledTimes(1);
-      expect(result).toContain("Successfully posted cast to Farcaster");
-      expect(result).toContain(JSON.stringify(mockCastResponse));
+      expect(result.message).toContain("Successfully posted cast to Farcaster");
+      expect(result.message).toContain(JSON.stringify(mockCastResponse));
     });
 
     it("should handle errors when posting cast", async () => {
@@ -141,7 +141,7 @@ describe("Farcaster Action Provider", () => {
       const result = await actionProvider.postCast(args);
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
-      expect(result).toBe(`Error posting to Farcaster:\n${error}`);
+      expect(result.message).toBe(`Error posting to Farcaster:\n${error}`);
     });
   });
 
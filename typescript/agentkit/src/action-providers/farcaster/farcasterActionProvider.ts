@@ -2,6 +2,9 @@ import { z } from "zod";
 import { ActionProvider } from "../actionProvider";
 import { Network } from "../../network";
 import { CreateAction } from "../actionDecorator";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
+import { getActionContext } from "../actionContext";
+import { RetryOptions, fetchWithRetry } from "../actionRetry";
 import { FarcasterAccountDetailsSchema, FarcasterPostCastSchema } from "./schemas";
 
 /**
@@ -22,6 +25,11 @@ export interface FarcasterActionProviderConfig {
    * Agent FID.
    */
   agentFid?: string;
+
+  /**
+   * How requests failing with transient errors are retried, or false to never retry them.
+   */
+  retry?: RetryOptions | false;
 }
 
 /**
@@ -31,6 +39,7 @@ export class FarcasterActionProvider extends ActionProvider {
   private readonly neynarApiKey: string;
   private readonly signerUuid: string;
   private readonly agentFid: string;
+  private readonly retry?: RetryOptions | false;
 
   /**
    * Constructor for the FarcasterActionProvider class.
@@ -57,6 +66,7 @@ export class FarcasterActionProvider extends ActionProvider {
     this.neynarApiKey = neynarApiKey;
     this.signerUuid = signerUuid;
     this.agentFid = agentFid;
+    this.retry = config.retry;
   }
 
   /**
@@ -67,6 +77,8 @@ export class FarcasterActionProvider extends ActionProvider {
    */
   @CreateAction({
     name: "account_details",
+    kind: "read",
+    category: "social",
     description: `
 This tool will retrieve the account details for the agent's Farcaster account.
 The tool takes the FID of the agent's account.
@@ -79,7 +91,7 @@ A failure response will return a message with the Farcaster API request error:
 `,
     schema: FarcasterAccountDetailsSchema,
   })
-  async accountDetails(_: z.infer<typeof FarcasterAccountDetailsSchema>): Promise<string> {
+  async accountDetails(_: z.infer<typeof FarcasterAccountDetailsSchema>): Promise<ActionResult> {
     try {
       const headers: HeadersInit = {
         accept: "application/json",
@@ -87,17 +99,26 @@ A failure response will return a message with the Farcaster API request error:
         "x-neynar-experimental": "true",
       };
 
-      const response = await fetch(
+      const response = await fetchWithRetry(
         `https://api.neynar.com/v2/farcaster/user/bulk?fids=${this.agentFid}`,
         {
           method: "GET",
           headers,
+          signal: getActionContext()?.signal,
         },
+        this.retry,
       );
       const { users } = await response.json();
-      return `Successfully retrieved Farcaster account details:\n${JSON.stringify(users[0])}`;
+      return actionSuccess(
+        `Successfully retrieved Farcaster account details:\n${JSON.stringify(users[0])}`,
+        { user: users[0] },
+      );
     } catch (error) {
-      return `Error retrieving Farcaster account details:\n${error}`;
+      return actionError(
+        `Error retrieving Farcaster account details:\n${error}`,
+        "REQUEST_FAILED",
+        error,
+      );
     }
   }
 
@@ -109,6 +130,8 @@ A failure response will return a message with the Farcaster API request error:
    */
   @CreateAction({
     name: "post_cast",
+    kind: "social-post",
+    category: "social",
     description: `
 This tool will post a cast to Farcaster. The tool takes the text of the cast as input. Casts can be maximum 280 characters.
 
@@ -120,25 +143,33 @@ A failure response will return a message with the Farcaster API request error:
 `,
     schema: FarcasterPostCastSchema,
   })
-  async postCast(args: z.infer<typeof FarcasterPostCastSchema>): Promise<string> {
+  async postCast(args: z.infer<typeof FarcasterPostCastSchema>): Promise<ActionResult> {
     try {
       const headers: HeadersInit = {
         api_key: this.neynarApiKey,
         "Content-Type": "application/json",
       };
 
-      const response = await fetch("https://api.neynar.com/v2/farcaster/cast", {
-        method: "POST",
-        headers,
-        body: JSON.stringify({
-          signer_uuid: this.signerUuid,
-          text: args.castText,
-        }),
-      });
+      // Only retried when Neynar rejected the request unprocessed, so a cast is never posted twice
+      const response = await fetchWithRetry(
+        "https://api.neynar.com/v2/farcaster/cast",
+        {
+          method: "POST",
+          headers,
+          signal: getActionContext()?.signal,
+          body: JSON.stringify({
+            signer_uuid: this.signerUuid,
+            text: args.castText,
+          }),
+        },
+        this.retry,
+      );
       const data = await response.json();
-      return `Successfully posted cast to Farcaster:\n${JSON.stringify(data)}`;
+      return actionSuccess(`Successfully posted cast to Farcaster:\n${JSON.stringify(data)}`, {
+        response: data,
+      });
     } catch (error) {
-      return `Error posting to Farcaster:\n${error}`;
+      return actionError(`Error posting to Farcaster:\n${error}`, "REQUEST_FAILED", error);
     }
   }
 
@@ -1,5 +1,9 @@
 export * from "./actionDecorator";
 export * from "./actionProvider";
+export * from "./actionResult";
+export * from "./actionContext";
+export * from "./actionAbort";
+export * from "./actionRetry";
 
 export * from "./pyth";
 export * from "./cdp";
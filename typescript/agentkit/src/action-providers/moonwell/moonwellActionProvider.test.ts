@@ -1,6 +1,7 @@
 import { encodeFunctionData, parseEther, parseUnits } from "viem";
 import { EvmWalletProvider } from "../../wallet-providers";
 import { approve } from "../../utils";
+import { actionError, actionSuccess } from "../actionResult";
 import { MoonwellActionProvider } from "./moonwellActionProvider";
 import {
   MTOKEN_ABI,
@@ -41,7 +42,7 @@ describe("Moonwell Action Provider", () => {
       waitForTransactionReceipt: jest.fn().mockResolvedValue(MOCK_RECEIPT),
     } as unknown as jest.Mocked<EvmWalletProvider>;
 
-    mockApprove.mockResolvedValue("Approval successful");
+    mockApprove.mockResolvedValue(actionSuccess("Approval successful"));
   });
 
   afterEach(() => {
@@ -228,9 +229,9 @@ describe("Moonwell Action Provider", () => {
       });
 
       expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith(MOCK_TX_HASH);
-      expect(response).toContain(`Deposited ${MOCK_WHOLE_ASSETS}`);
-      expect(response).toContain(MOCK_TX_HASH);
-      expect(response).toContain(JSON.stringify(MOCK_RECEIPT));
+      expect(response.message).toContain(`Deposited ${MOCK_WHOLE_ASSETS}`);
+      expect(response.message).toContain(MOCK_TX_HASH);
+      expect(response.message).toContain(JSON.stringify(MOCK_RECEIPT));
     });
 
     it("should successfully deposit to Moonwell MToken on sepolia", async () => {
@@ -267,9 +268,9 @@ describe("Moonwell Action Provider", () => {
       });
 
       expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith(MOCK_TX_HASH);
-      expect(response).toContain(`Deposited ${MOCK_WHOLE_ASSETS}`);
-      expect(response).toContain(MOCK_TX_HASH);
-      expect(response).toContain(JSON.stringify(MOCK_RECEIPT));
+      expect(response.message).toContain(`Deposited ${MOCK_WHOLE_ASSETS}`);
+      expect(response.message).toContain(MOCK_TX_HASH);
+      expect(response.message).toContain(JSON.stringify(MOCK_RECEIPT));
     });
 
     it("should reject deposit with zero assets amount", async () => {
@@ -281,7 +282,7 @@ describe("Moonwell Action Provider", () => {
 
       const response = await actionProvider.mint(mockWallet, args);
 
-      expect(response).toBe("Error: Assets amount must be greater than 0");
+      expect(response.message).toBe("Error: Assets amount must be greater than 0");
       expect(mockWallet.sendTransaction).not.toHaveBeenCalled();
     });
 
@@ -300,7 +301,7 @@ describe("Moonwell Action Provider", () => {
 
       const response = await actionProvider.mint(mockWallet, args);
 
-      expect(response).toBe("Error: Invalid MToken address");
+      expect(response.message).toBe("Error: Invalid MToken address");
       expect(mockWallet.sendTransaction).not.toHaveBeenCalled();
     });
 
@@ -319,7 +320,7 @@ describe("Moonwell Action Provider", () => {
 
       const response = await actionProvider.mint(mockWallet, args);
 
-      expect(response).toBe("Error: Invalid MToken address");
+      expect(response.message).toBe("Error: Invalid MToken address");
       expect(mockWallet.sendTransaction).not.toHaveBeenCalled();
     });
 
@@ -330,12 +331,14 @@ describe("Moonwell Action Provider", () => {
         tokenAddress: MOCK_TOKEN_ADDRESS,
       };
 
-      mockApprove.mockResolvedValue("Error: Approval failed");
+      mockApprove.mockResolvedValue(actionError("Error: Approval failed", "APPROVAL_FAILED"));
 
       const response = await actionProvider.mint(mockWallet, args);
 
       expect(mockApprove).toHaveBeenCalled();
-      expect(response).toContain(
+      expect(response.status).toBe("error");
+      expect(response.error?.code).toBe("APPROVAL_FAILED");
+      expect(response.message).toContain(
         "Error approving Moonwell MToken as spender: Error: Approval failed",
       );
       expect(mockWallet.sendTransaction).not.toHaveBeenCalled();
@@ -355,7 +358,7 @@ describe("Moonwell Action Provider", () => {
 
       expect(mockApprove).toHaveBeenCalled();
       expect(mockWallet.sendTransaction).toHaveBeenCalled();
-      expect(response).toBe("Error minting Moonwell MToken: Failed to deposit");
+      expect(response.message).toBe("Error minting Moonwell MToken: Failed to deposit");
       expect(consoleErrorSpy).toHaveBeenCalledWith("DEBUG - Mint error:", error);
     });
 
@@ -403,17 +406,17 @@ describe("Moonwell Action Provider", () => {
         });
 
         expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith(MOCK_TX_HASH);
-        expect(response).toContain(
+        expect(response.message).toContain(
           `Deposited ${MOCK_WHOLE_ASSETS} ETH to Moonwell WETH via router`,
         );
-        expect(response).toContain(MOCK_TX_HASH);
-        expect(response).toContain(JSON.stringify(MOCK_RECEIPT));
+        expect(response.message).toContain(MOCK_TX_HASH);
+        expect(response.message).toContain(JSON.stringify(MOCK_RECEIPT));
       });
 
       it("should not use router for ETH deposits on sepolia", async () => {
         // Clear mocks before test
         jest.clearAllMocks();
-        mockApprove.mockResolvedValue("Approval successful");
+        mockApprove.mockResolvedValue(actionSuccess("Approval successful"));
 
         const args = {
           mTokenAddress: "0x2F39a349A79492a70E152760ce7123A1933eCf28", // Sepolia WETH mToken
@@ -449,9 +452,9 @@ describe("Moonwell Action Provider", () => {
         });
 
         expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith(MOCK_TX_HASH);
-        expect(response).toContain(`Deposited ${MOCK_WHOLE_ASSETS}`);
-        expect(response).toContain(MOCK_TX_HASH);
-        expect(response).toContain(JSON.stringify(MOCK_RECEIPT));
+        expect(response.message).toContain(`Deposited ${MOCK_WHOLE_ASSETS}`);
+        expect(response.message).toContain(MOCK_TX_HASH);
+        expect(response.message).toContain(JSON.stringify(MOCK_RECEIPT));
       });
 
       it("should handle errors in ETH deposit via router", async () => {
@@ -473,7 +476,7 @@ describe("Moonwell Action Provider", () => {
 
         // Should not call approve for ETH deposits on mainnet
         expect(mockApprove).not.toHaveBeenCalled();
-        expect(response).toBe("Error minting Moonwell MToken: Failed to deposit ETH");
+        expect(response.message).toBe("Error minting Moonwell MToken: Failed to deposit ETH");
         expect(consoleErrorSpy).toHaveBeenCalledWith("DEBUG - Mint error:", error);
       });
     });
@@ -504,9 +507,9 @@ describe("Moonwell Action Provider", () => {
       });
 
       expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith(MOCK_TX_HASH);
-      expect(response).toContain(`Redeemed ${args.assets}`);
-      expect(response).toContain(MOCK_TX_HASH);
-      expect(response).toContain(JSON.stringify(MOCK_RECEIPT));
+      expect(response.message).toContain(`Redeemed ${args.assets}`);
+      expect(response.message).toContain(MOCK_TX_HASH);
+      expect(response.message).toContain(JSON.stringify(MOCK_RECEIPT));
     });
 
     it("should reject redeem with zero assets amount", async () => {
@@ -517,7 +520,7 @@ describe("Moonwell Action Provider", () => {
 
       const response = await actionProvider.redeem(mockWallet, args);
 
-      expect(response).toBe("Error: Assets amount must be greater than 0");
+      expect(response.message).toBe("Error: Assets amount must be greater than 0");
       expect(mockWallet.sendTransaction).not.toHaveBeenCalled();
     });
 
@@ -530,7 +533,7 @@ describe("Moonwell Action Provider", () => {
 
       const response = await actionProvider.redeem(mockWallet, args);
 
-      expect(response).toBe("Error: Invalid MToken address");
+      expect(response.message).toBe("Error: Invalid MToken address");
       expect(mockWallet.sendTransaction).not.toHaveBeenCalled();
     });
 
@@ -546,7 +549,7 @@ describe("Moonwell Action Provider", () => {
       const response = await actionProvider.redeem(mockWallet, args);
 
       expect(mockWallet.sendTransaction).toHaveBeenCalled();
-      expect(response).toBe("Error redeeming from Moonwell MToken: Failed to redeem");
+      expect(response.message).toBe("Error redeeming from Moonwell MToken: Failed to redeem");
       expect(consoleErrorSpy).toHaveBeenCalledWith("DEBUG - Redeem error:", error);
     });
   });
@@ -5,6 +5,7 @@ import { encodeFunctionData, parseEther, parseUnits } from "viem";
 import { ActionProvider } from "../actionProvider";
 import { EvmWalletProvider } from "../../wallet-providers";
 import { CreateAction } from "../actionDecorator";
+import { ActionResult, actionError, actionSuccess, bigIntReplacer } from "../actionResult";
 import { approve } from "../../utils";
 import {
   MTOKEN_ABI,
@@ -36,10 +37,12 @@ export class MoonwellActionProvider extends ActionProvider<EvmWalletProvider> {
    *
    * @param wallet - The wallet instance to execute the transaction
    * @param args - The input arguments for the action
-   * @returns A success message with transaction details or an error message
+   * @returns An action result with transaction details or an error message
    */
   @CreateAction({
     name: "mint",
+    kind: "write",
+    category: "defi",
     description: `
 This tool allows minting assets into a Moonwell MToken. 
 
@@ -67,11 +70,11 @@ Important notes:
 `,
     schema: MintSchema,
   })
-  async mint(wallet: EvmWalletProvider, args: z.infer<typeof MintSchema>): Promise<string> {
+  async mint(wallet: EvmWalletProvider, args: z.infer<typeof MintSchema>): Promise<ActionResult> {
     const assets = new Decimal(args.assets);
 
     if (assets.comparedTo(new Decimal(0.0)) != 1) {
-      return "Error: Assets amount must be greater than 0";
+      return actionError("Error: Assets amount must be greater than 0", "INVALID_INPUT");
     }
 
     const network = wallet.getNetwork();
@@ -81,7 +84,7 @@ Important notes:
         : MOONWELL_BASE_SEPOLIA_ADDRESSES;
 
     if (!networkObject[args.mTokenAddress]) {
-      return "Error: Invalid MToken address";
+      return actionError("Error: Invalid MToken address", "INVALID_INPUT");
     }
 
     try {
@@ -99,7 +102,10 @@ Important notes:
         // For other tokens, use the correct decimals
         const decimals = TOKEN_DECIMALS[args.tokenAddress];
         if (!decimals) {
-          return `Error: Unsupported token address ${args.tokenAddress}. Please verify the token address is correct.`;
+          return actionError(
+            `Error: Unsupported token address ${args.tokenAddress}. Please verify the token address is correct.`,
+            "UNSUPPORTED_ASSET",
+          );
         }
         atomicAssets = parseUnits(args.assets, decimals);
       }
@@ -124,10 +130,10 @@ Important notes:
 
         const receipt = await wallet.waitForTransactionReceipt(txHash);
 
-        return `Deposited ${args.assets} ETH to Moonwell WETH via router with transaction hash: ${txHash}\nTransaction receipt: ${JSON.stringify(
-          receipt,
-          (_, value) => (typeof value === "bigint" ? value.toString() : value),
-        )}`;
+        return actionSuccess(
+          `Deposited ${args.assets} ETH to Moonwell WETH via router with transaction hash: ${txHash}\nTransaction receipt: ${JSON.stringify(receipt, bigIntReplacer)}`,
+          { transactionHash: txHash, receipt, amount: args.assets },
+        );
       } else {
         // For all other tokens, we need approval first
         const approvalResult = await approve(
@@ -137,8 +143,12 @@ Important notes:
           atomicAssets,
         );
 
-        if (approvalResult.startsWith("Error")) {
-          return `Error approving Moonwell MToken as spender: ${approvalResult}`;
+        if (approvalResult.status === "error") {
+          return actionError(
+            `Error approving Moonwell MToken as spender: ${approvalResult.message}`,
+            "APPROVAL_FAILED",
+            approvalResult.error?.cause,
+          );
         }
 
         const data = encodeFunctionData({
@@ -163,17 +173,21 @@ Important notes:
           throw new Error(`Mint transaction failed with status ${receipt.status}`);
         }
 
-        return `Deposited ${args.assets} to Moonwell MToken ${args.mTokenAddress} with transaction hash: ${txHash}\nTransaction receipt: ${JSON.stringify(
-          receipt,
-          (_, value) => (typeof value === "bigint" ? value.toString() : value),
-        )}`;
+        return actionSuccess(
+          `Deposited ${args.assets} to Moonwell MToken ${args.mTokenAddress} with transaction hash: ${txHash}\nTransaction receipt: ${JSON.stringify(receipt, bigIntReplacer)}`,
+          { transactionHash: txHash, receipt, amount: args.assets },
+        );
       }
     } catch (error) {
       console.error("DEBUG - Mint error:", error);
       if (error instanceof Error) {
-        return `Error minting Moonwell MToken: ${error.message}`;
+        return actionError(
+          `Error minting Moonwell MToken: ${error.message}`,
+          "TRANSACTION_FAILED",
+          error,
+        );
       }
-      return `Error minting Moonwell MToken: ${error}`;
+      return actionError(`Error minting Moonwell MToken: ${error}`, "TRANSACTION_FAILED", error);
     }
   }
 
@@ -182,10 +196,12 @@ Important notes:
    *
    * @param wallet - The wallet instance to execute the transaction
    * @param args - The input arguments for the action
-   * @returns A success message with transaction details or an error message
+   * @returns An action result with transaction details or an error message
    */
   @CreateAction({
     name: "redeem",
+    kind: "write",
+    category: "defi",
     description: `
 This tool allows redeeming assets from a Moonwell MToken. 
 
@@ -211,11 +227,14 @@ Important notes:
 `,
     schema: RedeemSchema,
   })
-  async redeem(wallet: EvmWalletProvider, args: z.infer<typeof RedeemSchema>): Promise<string> {
+  async redeem(
+    wallet: EvmWalletProvider,
+    args: z.infer<typeof RedeemSchema>,
+  ): Promise<ActionResult> {
     const assets = new Decimal(args.assets);
 
     if (assets.comparedTo(new Decimal(0.0)) != 1) {
-      return "Error: Assets amount must be greater than 0";
+      return actionError("Error: Assets amount must be greater than 0", "INVALID_INPUT");
     }
 
     const network = wallet.getNetwork();
@@ -225,7 +244,7 @@ Important notes:
         : MOONWELL_BASE_SEPOLIA_ADDRESSES;
 
     if (!networkObject[args.mTokenAddress]) {
-      return "Error: Invalid MToken address";
+      return actionError("Error: Invalid MToken address", "INVALID_INPUT");
     }
 
     try {
@@ -233,7 +252,10 @@ Important notes:
       const decimals = MTOKENS_UNDERLYING_DECIMALS[MOONWELL_BASE_ADDRESSES[args.mTokenAddress]];
 
       if (!decimals) {
-        return `Error: Unsupported token address ${args.mTokenAddress}. Please verify the token address is correct.`;
+        return actionError(
+          `Error: Unsupported token address ${args.mTokenAddress}. Please verify the token address is correct.`,
+          "UNSUPPORTED_ASSET",
+        );
       }
 
       const atomicAssets = parseUnits(args.assets, decimals);
@@ -260,16 +282,24 @@ Important notes:
         throw new Error(`Redeem transaction failed with status ${receipt.status}`);
       }
 
-      return `Redeemed ${args.assets} from Moonwell MToken ${args.mTokenAddress} with transaction hash: ${txHash}\nTransaction receipt: ${JSON.stringify(
-        receipt,
-        (_, value) => (typeof value === "bigint" ? value.toString() : value),
-      )}`;
+      return actionSuccess(
+        `Redeemed ${args.assets} from Moonwell MToken ${args.mTokenAddress} with transaction hash: ${txHash}\nTransaction receipt: ${JSON.stringify(receipt, bigIntReplacer)}`,
+        { transactionHash: txHash, receipt, amount: args.assets },
+      );
     } catch (error) {
       console.error("DEBUG - Redeem error:", error);
       if (error instanceof Error) {
-        return `Error redeeming from Moonwell MToken: ${error.message}`;
+        return actionError(
+          `Error redeeming from Moonwell MToken: ${error.message}`,
+          "TRANSACTION_FAILED",
+          error,
+        );
       }
-      return `Error redeeming from Moonwell MToken: ${error}`;
+      return actionError(
+        `Error redeeming from Moonwell MToken: ${error}`,
+        "TRANSACTION_FAILED",
+        error,
+      );
     }
   }
 
@@ -1,6 +1,7 @@
 import { encodeFunctionData, parseEther } from "viem";
 import { EvmWalletProvider } from "../../wallet-providers";
 import { approve } from "../../utils";
+import { actionSuccess } from "../actionResult";
 import { MorphoActionProvider } from "./morphoActionProvider";
 import { METAMORPHO_ABI } from "./constants";
 
@@ -27,7 +28,7 @@ describe("Morpho Action Provider", () => {
       waitForTransactionReceipt: jest.fn().mockResolvedValue(MOCK_RECEIPT),
     } as unknown as jest.Mocked<EvmWalletProvider>;
 
-    mockApprove.mockResolvedValue("Approval successful");
+    mockApprove.mockResolvedValue(actionSuccess("Approval successful"));
   });
 
   describe("deposit", () => {
@@ -60,9 +61,9 @@ describe("Morpho Action Provider", () => {
       });
 
       expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith(MOCK_TX_HASH);
-      expect(response).toContain(`Deposited ${MOCK_WHOLE_ASSETS}`);
-      expect(response).toContain(MOCK_TX_HASH);
-      expect(response).toContain(JSON.stringify(MOCK_RECEIPT));
+      expect(response.message).toContain(`Deposited ${MOCK_WHOLE_ASSETS}`);
+      expect(response.message).toContain(MOCK_TX_HASH);
+      expect(response.message).toContain(JSON.stringify(MOCK_RECEIPT));
     });
 
     it("should handle errors when depositing", async () => {
@@ -77,7 +78,9 @@ describe("Morpho Action Provider", () => {
 
       const response = await actionProvider.deposit(mockWallet, args);
 
-      expect(response).toContain("Error depositing to Morpho Vault: Error: Failed to deposit");
+      expect(response.message).toContain(
+        "Error depositing to Morpho Vault: Error: Failed to deposit",
+      );
     });
   });
 
@@ -101,9 +104,9 @@ describe("Morpho Action Provider", () => {
       });
 
       expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith(MOCK_TX_HASH);
-      expect(response).toContain(`Withdrawn ${MOCK_ATOMIC_ASSETS}`);
-      expect(response).toContain(MOCK_TX_HASH);
-      expect(response).toContain(JSON.stringify(MOCK_RECEIPT));
+      expect(response.message).toContain(`Withdrawn ${MOCK_ATOMIC_ASSETS}`);
+      expect(response.message).toContain(MOCK_TX_HASH);
+      expect(response.message).toContain(JSON.stringify(MOCK_RECEIPT));
     });
 
     it("should handle errors when withdrawing", async () => {
@@ -117,7 +120,9 @@ describe("Morpho Action Provider", () => {
 
       const response = await actionProvider.withdraw(mockWallet, args);
 
-      expect(response).toContain("Error withdrawing from Morpho Vault: Error: Failed to withdraw");
+      expect(response.message).toContain(
+        "Error withdrawing from Morpho Vault: Error: Failed to withdraw",
+      );
     });
   });
 
@@ -5,6 +5,7 @@ import { encodeFunctionData, parseEther } from "viem";
 import { ActionProvider } from "../actionProvider";
 import { EvmWalletProvider } from "../../wallet-providers";
 import { CreateAction } from "../actionDecorator";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
 import { approve } from "../../utils";
 import { METAMORPHO_ABI } from "./constants";
 import { DepositSchema, WithdrawSchema } from "./schemas";
@@ -28,10 +29,12 @@ export class MorphoActionProvider extends ActionProvider<EvmWalletProvider> {
    *
    * @param wallet - The wallet instance to execute the transaction
    * @param args - The input arguments for the action
-   * @returns A success message with transaction details or an error message
+   * @returns An action result with transaction details or an error message
    */
   @CreateAction({
     name: "deposit",
+    kind: "write",
+    category: "defi",
     description: `
 This tool allows depositing assets into a Morpho Vault. 
 
@@ -51,11 +54,14 @@ Important notes:
 `,
     schema: DepositSchema,
   })
-  async deposit(wallet: EvmWalletProvider, args: z.infer<typeof DepositSchema>): Promise<string> {
+  async deposit(
+    wallet: EvmWalletProvider,
+    args: z.infer<typeof DepositSchema>,
+  ): Promise<ActionResult> {
     const assets = new Decimal(args.assets);
 
     if (assets.comparedTo(new Decimal(0.0)) != 1) {
-      return "Error: Assets amount must be greater than 0";
+      return actionError("Error: Assets amount must be greater than 0", "INVALID_INPUT");
     }
 
     try {
@@ -67,8 +73,12 @@ Important notes:
         args.vaultAddress,
         atomicAssets,
       );
-      if (approvalResult.startsWith("Error")) {
-        return `Error approving Morpho Vault as spender: ${approvalResult}`;
+      if (approvalResult.status === "error") {
+        return actionError(
+          `Error approving Morpho Vault as spender: ${approvalResult.message}`,
+          "APPROVAL_FAILED",
+          approvalResult.error?.cause,
+        );
       }
 
       const data = encodeFunctionData({
@@ -84,9 +94,12 @@ Important notes:
 
       const receipt = await wallet.waitForTransactionReceipt(txHash);
 
-      return `Deposited ${args.assets} to Morpho Vault ${args.vaultAddress} with transaction hash: ${txHash}\nTransaction receipt: ${JSON.stringify(receipt)}`;
+      return actionSuccess(
+        `Deposited ${args.assets} to Morpho Vault ${args.vaultAddress} with transaction hash: ${txHash}\nTransaction receipt: ${JSON.stringify(receipt)}`,
+        { transactionHash: txHash, receipt, amount: args.assets, vaultAddress: args.vaultAddress },
+      );
     } catch (error) {
-      return `Error depositing to Morpho Vault: ${error}`;
+      return actionError(`Error depositing to Morpho Vault: ${error}`, "TRANSACTION_FAILED", error);
     }
   }
 
@@ -95,10 +108,12 @@ Important notes:
    *
    * @param wallet - The wallet instance to execute the transaction
    * @param args - The input arguments for the action
-   * @returns A success message with transaction details or an error message
+   * @returns An action result with transaction details or an error message
    */
   @CreateAction({
     name: "withdraw",
+    kind: "write",
+    category: "defi",
     description: `
 This tool allows withdrawing assets from a Morpho Vault. It takes:
 
@@ -108,9 +123,12 @@ This tool allows withdrawing assets from a Morpho Vault. It takes:
 `,
     schema: WithdrawSchema,
   })
-  async withdraw(wallet: EvmWalletProvider, args: z.infer<typeof WithdrawSchema>): Promise<string> {
+  async withdraw(
+    wallet: EvmWalletProvider,
+    args: z.infer<typeof WithdrawSchema>,
+  ): Promise<ActionResult> {
     if (BigInt(args.assets) <= 0) {
-      return "Error: Assets amount must be greater than 0";
+      return actionError("Error: Assets amount must be greater than 0", "INVALID_INPUT");
     }
 
     try {
@@ -127,9 +145,16 @@ This tool allows withdrawing assets from a Morpho Vault. It takes:
 
       const receipt = await wallet.waitForTransactionReceipt(txHash);
 
-      return `Withdrawn ${args.assets} from Morpho Vault ${args.vaultAddress} with transaction hash: ${txHash}\nTransaction receipt: ${JSON.stringify(receipt)}`;
+      return actionSuccess(
+        `Withdrawn ${args.assets} from Morpho Vault ${args.vaultAddress} with transaction hash: ${txHash}\nTransaction receipt: ${JSON.stringify(receipt)}`,
+        { transactionHash: txHash, receipt, amount: args.assets, vaultAddress: args.vaultAddress },
+      );
     } catch (error) {
-      return `Error withdrawing from Morpho Vault: ${error}`;
+      return actionError(
+        `Error withdrawing from Morpho Vault: ${error}`,
+        "TRANSACTION_FAILED",
+        error,
+      );
     }
   }
 
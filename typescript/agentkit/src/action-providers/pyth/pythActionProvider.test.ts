@@ -17,33 +17,37 @@ describe("PythActionProvider", () => {
         json: async () => [{ id: "some-price-feed-id", attributes: { base: "BTC" } }],
       });
 
-      const priceFeedId = await provider.fetchPriceFeed({ tokenSymbol: "BTC" });
-      expect(priceFeedId).toEqual("some-price-feed-id");
+      const result = await provider.fetchPriceFeed({ tokenSymbol: "BTC" });
+      expect(result.status).toBe("success");
+      expect(result.message).toEqual("some-price-feed-id");
+      expect(result.data.priceFeedID).toEqual("some-price-feed-id");
     });
 
-    it("should throw an error if no price feed is found", async () => {
+    it("should return an error if no price feed is found", async () => {
       fetchMock.mockResolvedValueOnce({
         ok: true,
         json: async () => [{ id: "some-price-feed-id", attributes: { base: "BTC" } }],
       });
 
-      await expect(provider.fetchPriceFeed({ tokenSymbol: "ETH" })).rejects.toThrow(
-        "No price feed found for ETH",
-      );
+      const result = await provider.fetchPriceFeed({ tokenSymbol: "ETH" });
+
+      expect(result.status).toBe("error");
+      expect(result.message).toBe("No price feed found for ETH");
     });
 
-    it("should throw an error if the response is not ok", async () => {
+    it("should return an error if the response is not ok", async () => {
       fetchMock.mockResolvedValueOnce({
         ok: false,
         status: 404,
       });
 
-      await expect(provider.fetchPriceFeed({ tokenSymbol: "BTC" })).rejects.toThrow(
-        "HTTP error! status: 404",
-      );
+      const result = await provider.fetchPriceFeed({ tokenSymbol: "BTC" });
+
+      expect(result.status).toBe("error");
+      expect(result.message).toBe("HTTP error! status: 404");
     });
 
-    it("should throw an error if response is ok but no data is returned", async () => {
+    it("should return an error if response is ok but no data is returned", async () => {
       fetchMock.mockResolvedValueOnce({
         ok: true,
         json: async () => [],
@@ -51,9 +55,10 @@ describe("PythActionProvider", () => {
 
       const provider = pythActionProvider();
 
-      await expect(provider.fetchPriceFeed({ tokenSymbol: "BTC" })).rejects.toThrow(
-        "No price feed found for BTC",
-      );
+      const result = await provider.fetchPriceFeed({ tokenSymbol: "BTC" });
+
+      expect(result.status).toBe("error");
+      expect(result.message).toBe("No price feed found for BTC");
     });
   });
 
@@ -75,7 +80,8 @@ describe("PythActionProvider", () => {
 
       const price = await provider.fetchPrice({ priceFeedID: "some-price-feed-id" });
 
-      expect(price).toEqual("1");
+      expect(price.message).toEqual("1");
+      expect(price.data.price).toEqual("1");
     });
 
     it("should return the price for a given price feed ID with a negative exponent", async () => {
@@ -97,7 +103,8 @@ describe("PythActionProvider", () => {
 
       const price = await provider.fetchPrice({ priceFeedID: "some-price-feed-id" });
 
-      expect(price).toEqual("1.00");
+      expect(price.message).toEqual("1.00");
+      expect(price.data.price).toEqual("1.00");
     });
 
     it("should handle scaled price starting with a decimal", async () => {
@@ -117,10 +124,11 @@ describe("PythActionProvider", () => {
 
       const price = await provider.fetchPrice({ priceFeedID: "some-price-feed-id" });
 
-      expect(price).toEqual("0.25");
+      expect(price.message).toEqual("0.25");
+      expect(price.data.price).toEqual("0.25");
     });
 
-    it("should throw an error if there is no price data", async () => {
+    it("should return an error if there is no price data", async () => {
       fetchMock.mockResolvedValueOnce({
         ok: true,
         json: async () => ({
@@ -128,20 +136,22 @@ describe("PythActionProvider", () => {
         }),
       });
 
-      await expect(provider.fetchPrice({ priceFeedID: "some-price-feed-id" })).rejects.toThrow(
-        "No price data found for some-price-feed-id",
-      );
+      const result = await provider.fetchPrice({ priceFeedID: "some-price-feed-id" });
+
+      expect(result.status).toBe("error");
+      expect(result.message).toBe("No price data found for some-price-feed-id");
     });
 
-    it("should throw an error if response is not ok", async () => {
+    it("should return an error if response is not ok", async () => {
       fetchMock.mockResolvedValueOnce({
         ok: false,
         status: 404,
       });
 
-      await expect(provider.fetchPrice({ priceFeedID: "some-price-feed-id" })).rejects.toThrow(
-        "HTTP error! status: 404",
-      );
+      const result = await provider.fetchPrice({ priceFeedID: "some-price-feed-id" });
+
+      expect(result.status).toBe("error");
+      expect(result.message).toBe("HTTP error! status: 404");
     });
   });
 });
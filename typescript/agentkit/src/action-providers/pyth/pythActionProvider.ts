@@ -1,42 +1,70 @@
 import { z } from "zod";
 import { ActionProvider } from "../actionProvider";
 import { CreateAction } from "../actionDecorator";
-import { PythFetchPriceFeedIDSchema, PythFetchPriceSchema } from "./schemas";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
+import { getActionContext } from "../actionContext";
+import { RetryOptions, fetchWithRetry } from "../actionRetry";
+import {
+  PythFetchPriceFeedIDOutputSchema,
+  PythFetchPriceFeedIDSchema,
+  PythFetchPriceOutputSchema,
+  PythFetchPriceSchema,
+} from "./schemas";
+
+/**
+ * Configuration options for the PythActionProvider.
+ */
+export interface PythActionProviderConfig {
+  /**
+   * How requests failing with transient errors are retried, or false to never retry them.
+   */
+  retry?: RetryOptions | false;
+}
 
 /**
  * PythActionProvider is an action provider for Pyth.
  */
 export class PythActionProvider extends ActionProvider {
+  private readonly retry?: RetryOptions | false;
+
   /**
    * Constructs a new PythActionProvider.
+   *
+   * @param config - The configuration options for the PythActionProvider.
    */
-  constructor() {
+  constructor(config: PythActionProviderConfig = {}) {
     super("pyth", []);
+
+    this.retry = config.retry;
   }
 
   /**
    * Fetch the price feed ID for a given token symbol from Pyth.
    *
    * @param args - The arguments for the action.
-   * @returns The price feed ID as a string.
+   * @returns An action result containing the price feed ID.
    */
   @CreateAction({
     name: "fetch_price_feed",
+    kind: "read",
+    category: "market-data",
+    outputSchema: PythFetchPriceFeedIDOutputSchema,
+    examples: [{ description: "Get the price feed ID of BTC", args: { tokenSymbol: "BTC" } }],
     description: "Fetch the price feed ID for a given token symbol from Pyth.",
     schema: PythFetchPriceFeedIDSchema,
   })
-  async fetchPriceFeed(args: z.infer<typeof PythFetchPriceFeedIDSchema>): Promise<string> {
+  async fetchPriceFeed(args: z.infer<typeof PythFetchPriceFeedIDSchema>): Promise<ActionResult> {
     const url = `https://hermes.pyth.network/v2/price_feeds?query=${args.tokenSymbol}&asset_type=crypto`;
-    const response = await fetch(url);
+    const response = await fetchWithRetry(url, { signal: getActionContext()?.signal }, this.retry);
 
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      return actionError(`HTTP error! status: ${response.status}`, "REQUEST_FAILED");
     }
 
     const data = await response.json();
 
     if (data.length === 0) {
-      throw new Error(`No price feed found for ${args.tokenSymbol}`);
+      return actionError(`No price feed found for ${args.tokenSymbol}`, "NOT_FOUND");
     }
 
     const filteredData = data.filter(
@@ -45,20 +73,26 @@ export class PythActionProvider extends ActionProvider {
     );
 
     if (filteredData.length === 0) {
-      throw new Error(`No price feed found for ${args.tokenSymbol}`);
+      return actionError(`No price feed found for ${args.tokenSymbol}`, "NOT_FOUND");
     }
 
-    return filteredData[0].id;
+    return actionSuccess(filteredData[0].id, {
+      priceFeedID: filteredData[0].id,
+      tokenSymbol: args.tokenSymbol,
+    });
   }
 
   /**
    * Fetches the price from Pyth given a Pyth price feed ID.
    *
    * @param args - The arguments for the action.
-   * @returns The price as a string.
+   * @returns An action result containing the price.
    */
   @CreateAction({
     name: "fetch_price",
+    kind: "read",
+    category: "market-data",
+    outputSchema: PythFetchPriceOutputSchema,
     description: `Fetch the price of a given price feed from Pyth.
 
 Inputs:
@@ -72,19 +106,19 @@ action to retrieve the price feed ID before invoking the pyth_Fetch_price action
 `,
     schema: PythFetchPriceSchema,
   })
-  async fetchPrice(args: z.infer<typeof PythFetchPriceSchema>): Promise<string> {
+  async fetchPrice(args: z.infer<typeof PythFetchPriceSchema>): Promise<ActionResult> {
     const url = `https://hermes.pyth.network/v2/updates/price/latest?ids[]=${args.priceFeedID}`;
-    const response = await fetch(url);
+    const response = await fetchWithRetry(url, { signal: getActionContext()?.signal }, this.retry);
 
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      return actionError(`HTTP error! status: ${response.status}`, "REQUEST_FAILED");
     }
 
     const data = await response.json();
     const parsedData = data.parsed;
 
     if (parsedData.length === 0) {
-      throw new Error(`No price data found for ${args.priceFeedID}`);
+      return actionError(`No price data found for ${args.priceFeedID}`, "NOT_FOUND");
     }
 
     const priceInfo = parsedData[0].price;
@@ -97,11 +131,17 @@ action to retrieve the price feed ID before invoking the pyth_Fetch_price action
       const scaledPrice = adjustedPrice / BigInt(divisor);
       const priceStr = scaledPrice.toString();
       const formattedPrice = `${priceStr.slice(0, -2)}.${priceStr.slice(-2)}`;
-      return formattedPrice.startsWith(".") ? `0${formattedPrice}` : formattedPrice;
+      const normalizedPrice = formattedPrice.startsWith(".")
+        ? `0${formattedPrice}`
+        : formattedPrice;
+      return actionSuccess(normalizedPrice, {
+        price: normalizedPrice,
+        priceFeedID: args.priceFeedID,
+      });
     }
 
-    const scaledPrice = price / BigInt(10) ** BigInt(exponent);
-    return scaledPrice.toString();
+    const scaledPrice = (price / BigInt(10) ** BigInt(exponent)).toString();
+    return actionSuccess(scaledPrice, { price: scaledPrice, priceFeedID: args.priceFeedID });
   }
 
   /**
@@ -112,4 +152,5 @@ action to retrieve the price feed ID before invoking the pyth_Fetch_price action
   supportsNetwork = () => true;
 }
 
-export const pythActionProvider = () => new PythActionProvider();
+export const pythActionProvider = (config?: PythActionProviderConfig) =>
+  new PythActionProvider(config);
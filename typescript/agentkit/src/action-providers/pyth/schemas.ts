@@ -17,3 +17,19 @@ export const PythFetchPriceSchema = z
     priceFeedID: z.string().describe("The price feed ID to fetch the price for"),
   })
   .strict();
+
+/**
+ * Output schema for Pyth fetch price feed ID action.
+ */
+export const PythFetchPriceFeedIDOutputSchema = z.object({
+  priceFeedID: z.string().describe("The price feed ID of the token"),
+  tokenSymbol: z.string().describe("The token symbol"),
+});
+
+/**
+ * Output schema for Pyth fetch price action.
+ */
+export const PythFetchPriceOutputSchema = z.object({
+  price: z.string().describe("The price in USD"),
+  priceFeedID: z.string().describe("The price feed ID the price was fetched for"),
+});
@@ -73,8 +73,10 @@ describe("TwitterActionProvider", () => {
       const response = await provider.accountDetails({});
 
       expect(mockClient.me).toHaveBeenCalled();
-      expect(response).toContain("Successfully retrieved authenticated user account details");
-      expect(response).toContain(
+      expect(response.message).toContain(
+        "Successfully retrieved authenticated user account details",
+      );
+      expect(response.message).toContain(
         JSON.stringify({
           ...mockResponse,
           data: { ...mockResponse.data, url: `https://x.com/${MOCK_USERNAME}` },
@@ -89,8 +91,8 @@ describe("TwitterActionProvider", () => {
       const response = await provider.accountDetails({});
 
       expect(mockClient.me).toHaveBeenCalled();
-      expect(response).toContain("Error retrieving authenticated user account details");
-      expect(response).toContain(error.message);
+      expect(response.message).toContain("Error retrieving authenticated user account details");
+      expect(response.message).toContain(error.message);
     });
   });
 
@@ -125,8 +127,8 @@ describe("TwitterActionProvider", () => {
       const response = await provider.accountMentions({ userId: MOCK_ID });
 
       expect(mockClient.userMentionTimeline).toHaveBeenCalledWith(MOCK_ID);
-      expect(response).toContain("Successfully retrieved account mentions");
-      expect(response).toContain(JSON.stringify(mockResponse));
+      expect(response.message).toContain("Successfully retrieved account mentions");
+      expect(response.message).toContain(JSON.stringify(mockResponse));
     });
 
     it("should handle errors when retrieving mentions", async () => {
@@ -136,8 +138,8 @@ describe("TwitterActionProvider", () => {
       const response = await provider.accountMentions({ userId: MOCK_ID });
 
       expect(mockClient.userMentionTimeline).toHaveBeenCalledWith(MOCK_ID);
-      expect(response).toContain("Error retrieving authenticated account mentions");
-      expect(response).toContain(error.message);
+      expect(response.message).toContain("Error retrieving authenticated account mentions");
+      expect(response.message).toContain(error.message);
     });
   });
 
@@ -158,8 +160,8 @@ describe("TwitterActionProvider", () => {
       const response = await provider.postTweet({ tweet: MOCK_TWEET });
 
       expect(mockClient.tweet).toHaveBeenCalledWith(MOCK_TWEET);
-      expect(response).toContain("Successfully posted to Twitter");
-      expect(response).toContain(JSON.stringify(mockResponse));
+      expect(response.message).toContain("Successfully posted to Twitter");
+      expect(response.message).toContain(JSON.stringify(mockResponse));
     });
 
     it("should handle errors when posting a tweet", async () => {
@@ -169,8 +171,8 @@ describe("TwitterActionProvider", () => {
       const response = await provider.postTweet({ tweet: MOCK_TWEET });
 
       expect(mockClient.tweet).toHaveBeenCalledWith(MOCK_TWEET);
-      expect(response).toContain("Error posting to Twitter");
-      expect(response).toContain(error.message);
+      expect(response.message).toContain("Error posting to Twitter");
+      expect(response.message).toContain(error.message);
     });
   });
 
@@ -196,8 +198,8 @@ describe("TwitterActionProvider", () => {
       expect(mockClient.tweet).toHaveBeenCalledWith(MOCK_TWEET_REPLY, {
         reply: { in_reply_to_tweet_id: MOCK_TWEET_ID },
       });
-      expect(response).toContain("Successfully posted reply to Twitter");
-      expect(response).toContain(JSON.stringify(mockResponse));
+      expect(response.message).toContain("Successfully posted reply to Twitter");
+      expect(response.message).toContain(JSON.stringify(mockResponse));
     });
 
     it("should handle errors when posting a tweet reply", async () => {
@@ -212,8 +214,8 @@ describe("TwitterActionProvider", () => {
       expect(mockClient.tweet).toHaveBeenCalledWith(MOCK_TWEET_REPLY, {
         reply: { in_reply_to_tweet_id: MOCK_TWEET_ID },
       });
-      expect(response).toContain("Error posting reply to Twitter");
-      expect(response).toContain(error.message);
+      expect(response.message).toContain("Error posting reply to Twitter");
+      expect(response.message).toContain(error.message);
     });
   });
 
@@ -1,8 +1,10 @@
 import { z } from "zod";
 import { ActionProvider } from "../actionProvider";
 import { CreateAction } from "../actionDecorator";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
 import { TwitterApi, TwitterApiTokens } from "twitter-api-v2";
 import { Network } from "../../network";
+import { traceHttpRequest } from "../../telemetry/telemetry";
 import {
   TwitterAccountDetailsSchema,
   TwitterAccountMentionsSchema,
@@ -10,6 +12,8 @@ import {
   TwitterPostTweetReplySchema,
 } from "./schemas";
 
+const TWITTER_API_HOST = "api.twitter.com";
+
 /**
  * Configuration options for the TwitterActionProvider.
  */
@@ -81,10 +85,12 @@ export class TwitterActionProvider extends ActionProvider {
    * Get account details for the currently authenticated Twitter (X) user.
    *
    * @param _ - Empty parameter object (not used)
-   * @returns A JSON string containing the account details or error message
+   * @returns An action result containing the account details or error message
    */
   @CreateAction({
     name: "account_details",
+    kind: "read",
+    category: "social",
     description: `
 This tool will return account details for the currently authenticated Twitter (X) user context.
 
@@ -95,15 +101,20 @@ A failure response will return a message with a Twitter API request error:
     Error retrieving authenticated user account: 429 Too Many Requests`,
     schema: TwitterAccountDetailsSchema,
   })
-  async accountDetails(_: z.infer<typeof TwitterAccountDetailsSchema>): Promise<string> {
+  async accountDetails(_: z.infer<typeof TwitterAccountDetailsSchema>): Promise<ActionResult> {
     try {
-      const response = await this.client.v2.me();
+      const response = await traceHttpRequest("GET", TWITTER_API_HOST, () => this.client.v2.me());
       response.data.url = `https://x.com/${response.data.username}`;
-      return `Successfully retrieved authenticated user account details:\n${JSON.stringify(
-        response,
-      )}`;
+      return actionSuccess(
+        `Successfully retrieved authenticated user account details:\n${JSON.stringify(response)}`,
+        { response },
+      );
     } catch (error) {
-      return `Error retrieving authenticated user account details: ${error}`;
+      return actionError(
+        `Error retrieving authenticated user account details: ${error}`,
+        "REQUEST_FAILED",
+        error,
+      );
     }
   }
 
@@ -111,10 +122,12 @@ A failure response will return a message with a Twitter API request error:
    * Get mentions for a specified Twitter (X) user.
    *
    * @param args - The arguments containing userId
-   * @returns A JSON string containing the mentions or error message
+   * @returns An action result containing the mentions or error message
    */
   @CreateAction({
     name: "account_mentions",
+    kind: "read",
+    category: "social",
     description: `
 This tool will return mentions for the specified Twitter (X) user id.
 
@@ -125,12 +138,23 @@ A failure response will return a message with the Twitter API request error:
     Error retrieving user mentions: 429 Too Many Requests`,
     schema: TwitterAccountMentionsSchema,
   })
-  async accountMentions(args: z.infer<typeof TwitterAccountMentionsSchema>): Promise<string> {
+  async accountMentions(args: z.infer<typeof TwitterAccountMentionsSchema>): Promise<ActionResult> {
     try {
-      const response = await this.client.v2.userMentionTimeline(args.userId);
-      return `Successfully retrieved account mentions:\n${JSON.stringify(response)}`;
+      const response = await traceHttpRequest("GET", TWITTER_API_HOST, () =>
+        this.client.v2.userMentionTimeline(args.userId),
+      );
+      return actionSuccess(
+        `Successfully retrieved account mentions:\n${JSON.stringify(response)}`,
+        {
+          response,
+        },
+      );
     } catch (error) {
-      return `Error retrieving authenticated account mentions: ${error}`;
+      return actionError(
+        `Error retrieving authenticated account mentions: ${error}`,
+        "REQUEST_FAILED",
+        error,
+      );
     }
   }
 
@@ -138,10 +162,12 @@ A failure response will return a message with the Twitter API request error:
    * Post a tweet on Twitter (X).
    *
    * @param args - The arguments containing the tweet text
-   * @returns A JSON string containing the posted tweet details or error message
+   * @returns An action result containing the posted tweet details or error message
    */
   @CreateAction({
     name: "post_tweet",
+    kind: "social-post",
+    category: "social",
     description: `
 This tool will post a tweet on Twitter. The tool takes the text of the tweet as input. Tweets can be maximum 280 characters.
 
@@ -152,12 +178,16 @@ A failure response will return a message with the Twitter API request error:
     You are not allowed to create a Tweet with duplicate content.`,
     schema: TwitterPostTweetSchema,
   })
-  async postTweet(args: z.infer<typeof TwitterPostTweetSchema>): Promise<string> {
+  async postTweet(args: z.infer<typeof TwitterPostTweetSchema>): Promise<ActionResult> {
     try {
-      const response = await this.client.v2.tweet(args.tweet);
-      return `Successfully posted to Twitter:\n${JSON.stringify(response)}`;
+      const response = await traceHttpRequest("POST", TWITTER_API_HOST, () =>
+        this.client.v2.tweet(args.tweet),
+      );
+      return actionSuccess(`Successfully posted to Twitter:\n${JSON.stringify(response)}`, {
+        response,
+      });
     } catch (error) {
-      return `Error posting to Twitter:\n${error}`;
+      return actionError(`Error posting to Twitter:\n${error}`, "REQUEST_FAILED", error);
     }
   }
 
@@ -165,10 +195,12 @@ A failure response will return a message with the Twitter API request error:
    * Post a reply to a tweet on Twitter (X).
    *
    * @param args - The arguments containing the reply text and tweet ID
-   * @returns A JSON string containing the posted reply details or error message
+   * @returns An action result containing the posted reply details or error message
    */
   @CreateAction({
     name: "post_tweet_reply",
+    kind: "social-post",
+    category: "social",
     description: `
 This tool will post a tweet on Twitter. The tool takes the text of the tweet as input. Tweets can be maximum 280 characters.
 
@@ -179,15 +211,19 @@ A failure response will return a message with the Twitter API request error:
     You are not allowed to create a Tweet with duplicate content.`,
     schema: TwitterPostTweetReplySchema,
   })
-  async postTweetReply(args: z.infer<typeof TwitterPostTweetReplySchema>): Promise<string> {
+  async postTweetReply(args: z.infer<typeof TwitterPostTweetReplySchema>): Promise<ActionResult> {
     try {
-      const response = await this.client.v2.tweet(args.tweetReply, {
-        reply: { in_reply_to_tweet_id: args.tweetId },
-      });
+      const response = await traceHttpRequest("POST", TWITTER_API_HOST, () =>
+        this.client.v2.tweet(args.tweetReply, {
+          reply: { in_reply_to_tweet_id: args.tweetId },
+        }),
+      );
 
-      return `Successfully posted reply to Twitter:\n${JSON.stringify(response)}`;
+      return actionSuccess(`Successfully posted reply to Twitter:\n${JSON.stringify(response)}`, {
+        response,
+      });
     } catch (error) {
-      return `Error posting reply to Twitter: ${error}`;
+      return actionError(`Error posting reply to Twitter: ${error}`, "REQUEST_FAILED", error);
     }
   }
 
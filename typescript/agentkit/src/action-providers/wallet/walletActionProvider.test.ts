@@ -45,7 +45,7 @@ describe("Wallet Action Provider", () => {
 - ETH Balance: 1.000000 ETH
 - Native Balance: ${MOCK_BALANCE.toString()} WEI`;
 
-      expect(response).toBe(expectedResponse);
+      expect(response.message).toBe(expectedResponse);
     });
 
     it("should handle missing network IDs gracefully", async () => {
@@ -55,8 +55,8 @@ describe("Wallet Action Provider", () => {
 
       const response = await actionProvider.getWalletDetails(mockWallet, {});
 
-      expect(response).toContain("Network ID: N/A");
-      expect(response).toContain("Chain ID: N/A");
+      expect(response.message).toContain("Network ID: N/A");
+      expect(response.message).toContain("Chain ID: N/A");
     });
 
     it("should handle errors when getting wallet details", async () => {
@@ -64,7 +64,7 @@ describe("Wallet Action Provider", () => {
       mockWallet.getBalance.mockRejectedValue(error);
 
       const response = await actionProvider.getWalletDetails(mockWallet, {});
-      expect(response).toBe(`Error getting wallet details: ${error}`);
+      expect(response.message).toBe(`Error getting wallet details: ${error}`);
     });
   });
 
@@ -102,7 +102,7 @@ describe("Wallet Action Provider", () => {
       const response = await actionProvider.nativeTransfer(mockWallet, args);
 
       expect(mockWallet.nativeTransfer).toHaveBeenCalledWith(MOCK_DESTINATION, MOCK_AMOUNT);
-      expect(response).toBe(
+      expect(response.message).toBe(
         `Transferred ${MOCK_AMOUNT} ETH to ${MOCK_DESTINATION}.\nTransaction hash: ${MOCK_TRANSACTION_HASH}`,
       );
     });
@@ -117,7 +117,7 @@ describe("Wallet Action Provider", () => {
       mockWallet.nativeTransfer.mockRejectedValue(error);
 
       const response = await actionProvider.nativeTransfer(mockWallet, args);
-      expect(response).toBe(`Error transferring the asset: ${error}`);
+      expect(response.message).toBe(`Error transferring the asset: ${error}`);
     });
   });
 
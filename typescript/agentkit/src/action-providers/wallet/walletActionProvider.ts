@@ -3,6 +3,7 @@ import { z } from "zod";
 
 import { CreateAction } from "../actionDecorator";
 import { ActionProvider } from "../actionProvider";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
 import { WalletProvider } from "../../wallet-providers";
 import { Network } from "../../network";
 
@@ -24,10 +25,12 @@ export class WalletActionProvider extends ActionProvider {
    *
    * @param walletProvider - The wallet provider to get the details from.
    * @param _ - Empty args object (not used).
-   * @returns A formatted string containing the wallet details.
+   * @returns An action result containing the formatted wallet details.
    */
   @CreateAction({
     name: "get_wallet_details",
+    kind: "read",
+    category: "wallet",
     description: `
     This tool will return the details of the connected wallet including:
     - Wallet address
@@ -41,7 +44,7 @@ export class WalletActionProvider extends ActionProvider {
   async getWalletDetails(
     walletProvider: WalletProvider,
     _: z.infer<typeof GetWalletDetailsSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const address = walletProvider.getAddress();
       const network = walletProvider.getNetwork();
@@ -51,7 +54,8 @@ export class WalletActionProvider extends ActionProvider {
       // Convert balance from Wei to ETH using Decimal for precision
       const ethBalance = new Decimal(balance.toString()).div(new Decimal(10).pow(18));
 
-      return `Wallet Details:
+      return actionSuccess(
+        `Wallet Details:
 - Provider: ${name}
 - Address: ${address}
 - Network: 
@@ -59,9 +63,16 @@ export class WalletActionProvider extends ActionProvider {
   * Network ID: ${network.networkId || "N/A"}
   * Chain ID: ${network.chainId || "N/A"}
 - ETH Balance: ${ethBalance.toFixed(6)} ETH
-- Native Balance: ${balance.toString()} WEI`;
+- Native Balance: ${balance.toString()} WEI`,
+        {
+          provider: name,
+          address,
+          network,
+          balance: balance.toString(),
+        },
+      );
     } catch (error) {
-      return `Error getting wallet details: ${error}`;
+      return actionError(`Error getting wallet details: ${error}`, "REQUEST_FAILED", error);
     }
   }
 
@@ -74,6 +85,14 @@ export class WalletActionProvider extends ActionProvider {
    */
   @CreateAction({
     name: "native_transfer",
+    kind: "write",
+    category: "wallet",
+    examples: [
+      {
+        description: "Send 0.01 ETH to an address",
+        args: { to: "0x1234567890123456789012345678901234567890", value: "0.01" },
+      },
+    ],
     description: `
 This tool will transfer native tokens from the wallet to another onchain address.
 
@@ -90,13 +109,20 @@ Important notes:
   async nativeTransfer(
     walletProvider: WalletProvider,
     args: z.infer<typeof NativeTransferSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const result = await walletProvider.nativeTransfer(args.to as `0x${string}`, args.value);
 
-      return `Transferred ${args.value} ETH to ${args.to}.\nTransaction hash: ${result}`;
+      return actionSuccess(
+        `Transferred ${args.value} ETH to ${args.to}.\nTransaction hash: ${result}`,
+        {
+          transactionHash: result,
+          amount: args.value,
+          destination: args.to,
+        },
+      );
     } catch (error) {
-      return `Error transferring the asset: ${error}`;
+      return actionError(`Error transferring the asset: ${error}`, "TRANSACTION_FAILED", error);
     }
   }
 
@@ -57,7 +57,7 @@ describe("Wrap Eth Action", () => {
       }),
       value: BigInt(MOCK_AMOUNT),
     });
-    expect(response).toContain(`Wrapped ETH with transaction hash: ${hash}`);
+    expect(response.message).toContain(`Wrapped ETH with transaction hash: ${hash}`);
   });
 
   it("should fail with an error", async () => {
@@ -79,7 +79,7 @@ describe("Wrap Eth Action", () => {
       value: BigInt(MOCK_AMOUNT),
     });
 
-    expect(response).toContain(`Error wrapping ETH: ${error}`);
+    expect(response.message).toContain(`Error wrapping ETH: ${error}`);
   });
 });
 
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { ActionProvider } from "../actionProvider";
 import { Network } from "../../network";
 import { CreateAction } from "../actionDecorator";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
 import { WrapEthSchema } from "./schemas";
 import { WETH_ABI, WETH_ADDRESS } from "./constants";
 import { encodeFunctionData, Hex } from "viem";
@@ -27,6 +28,8 @@ export class WethActionProvider extends ActionProvider<EvmWalletProvider> {
    */
   @CreateAction({
     name: "wrap_eth",
+    kind: "write",
+    category: "token",
     description: `
     This tool can only be used to wrap ETH to WETH.
 Do not use this tool for any other purpose, or trading other assets.
@@ -48,7 +51,7 @@ Important notes:
   async wrapEth(
     walletProvider: EvmWalletProvider,
     args: z.infer<typeof WrapEthSchema>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const hash = await walletProvider.sendTransaction({
         to: WETH_ADDRESS as Hex,
@@ -59,11 +62,15 @@ Important notes:
         value: BigInt(args.amountToWrap),
       });
 
-      await walletProvider.waitForTransactionReceipt(hash);
+      const receipt = await walletProvider.waitForTransactionReceipt(hash);
 
-      return `Wrapped ETH with transaction hash: ${hash}`;
+      return actionSuccess(`Wrapped ETH with transaction hash: ${hash}`, {
+        transactionHash: hash,
+        receipt,
+        amount: args.amountToWrap,
+      });
     } catch (error) {
-      return `Error wrapping ETH: ${error}`;
+      return actionError(`Error wrapping ETH: ${error}`, "TRANSACTION_FAILED", error);
     }
   }
 
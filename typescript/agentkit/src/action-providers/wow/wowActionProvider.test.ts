@@ -205,8 +205,8 @@ describe("WowActionProvider", () => {
         value: MOCK_AMOUNT_ETH_IN_WEI,
       });
 
-      expect(response).toContain("Purchased WoW ERC20 memecoin");
-      expect(response).toContain(MOCK_TX_HASH);
+      expect(response.message).toContain("Purchased WoW ERC20 memecoin");
+      expect(response.message).toContain(MOCK_TX_HASH);
     });
 
     it("should handle buy errors", async () => {
@@ -219,7 +219,7 @@ describe("WowActionProvider", () => {
       mockWallet.sendTransaction.mockRejectedValue(error);
 
       const response = await provider.buyToken(mockWallet, args);
-      expect(response).toContain(`Error buying Zora Wow ERC20 memecoin: ${error}`);
+      expect(response.message).toContain(`Error buying Zora Wow ERC20 memecoin: ${error}`);
     });
   });
 
@@ -248,9 +248,9 @@ describe("WowActionProvider", () => {
         }),
       });
 
-      expect(response).toContain(`Created WoW ERC20 memecoin ${MOCK_NAME}`);
-      expect(response).toContain(`with symbol ${MOCK_SYMBOL}`);
-      expect(response).toContain(MOCK_TX_HASH);
+      expect(response.message).toContain(`Created WoW ERC20 memecoin ${MOCK_NAME}`);
+      expect(response.message).toContain(`with symbol ${MOCK_SYMBOL}`);
+      expect(response.message).toContain(MOCK_TX_HASH);
     });
 
     it("should use default token URI if not provided", async () => {
@@ -287,7 +287,7 @@ describe("WowActionProvider", () => {
       mockWallet.sendTransaction.mockRejectedValue(error);
 
       const response = await provider.createToken(mockWallet, args);
-      expect(response).toContain(`Error creating Zora Wow ERC20 memecoin: ${error}`);
+      expect(response.message).toContain(`Error creating Zora Wow ERC20 memecoin: ${error}`);
     });
   });
 
@@ -317,8 +317,8 @@ describe("WowActionProvider", () => {
         }),
       });
 
-      expect(response).toContain("Sold WoW ERC20 memecoin");
-      expect(response).toContain(MOCK_TX_HASH);
+      expect(response.message).toContain("Sold WoW ERC20 memecoin");
+      expect(response.message).toContain(MOCK_TX_HASH);
     });
 
     it("should handle sell errors", async () => {
@@ -331,7 +331,7 @@ describe("WowActionProvider", () => {
       mockWallet.sendTransaction.mockRejectedValue(error);
 
       const response = await provider.sellToken(mockWallet, args);
-      expect(response).toContain(`Error selling Zora Wow ERC20 memecoin: ${error}`);
+      expect(response.message).toContain(`Error selling Zora Wow ERC20 memecoin: ${error}`);
     });
   });
 });
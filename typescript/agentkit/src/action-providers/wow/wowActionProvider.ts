@@ -2,6 +2,7 @@ import { z } from "zod";
 import { ActionProvider } from "../actionProvider";
 import { EvmWalletProvider } from "../../wallet-providers";
 import { CreateAction } from "../actionDecorator";
+import { ActionResult, actionError, actionSuccess } from "../actionResult";
 import { Network } from "../../network";
 import {
   SUPPORTED_NETWORKS,
@@ -35,6 +36,8 @@ export class WowActionProvider extends ActionProvider<EvmWalletProvider> {
    */
   @CreateAction({
     name: "buy_token",
+    kind: "write",
+    category: "trading",
     description: `
 This tool can only be used to buy a Zora Wow ERC20 memecoin (also can be referred to as a bonding curve token) with ETH.
 Do not use this tool for any other purpose, or trading other assets.
@@ -57,7 +60,7 @@ Important notes:
   async buyToken(
     wallet: EvmWalletProvider,
     args: z.infer<typeof WowBuyTokenInput>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const tokenQuote = await getBuyQuote(wallet, args.contractAddress, args.amountEthInWei);
 
@@ -88,9 +91,21 @@ Important notes:
 
       const receipt = await wallet.waitForTransactionReceipt(txHash);
 
-      return `Purchased WoW ERC20 memecoin with transaction hash: ${txHash}, and receipt:\n${JSON.stringify(receipt)}`;
+      return actionSuccess(
+        `Purchased WoW ERC20 memecoin with transaction hash: ${txHash}, and receipt:\n${JSON.stringify(receipt)}`,
+        {
+          transactionHash: txHash,
+          receipt,
+          amount: args.amountEthInWei,
+          contractAddress: args.contractAddress,
+        },
+      );
     } catch (error) {
-      return `Error buying Zora Wow ERC20 memecoin: ${error}`;
+      return actionError(
+        `Error buying Zora Wow ERC20 memecoin: ${error}`,
+        "TRANSACTION_FAILED",
+        error,
+      );
     }
   }
 
@@ -103,6 +118,8 @@ Important notes:
    */
   @CreateAction({
     name: "create_token",
+    kind: "deploy",
+    category: "deployment",
     description: `
 This tool can only be used to create a Zora Wow ERC20 memecoin (also can be referred to as a bonding curve token) using the WoW factory.
 Do not use this tool for any other purpose, or for creating other types of tokens.
@@ -122,7 +139,7 @@ Important notes:
   async createToken(
     wallet: EvmWalletProvider,
     args: z.infer<typeof WowCreateTokenInput>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     const factoryAddress = getFactoryAddress(wallet.getNetwork().networkId!);
 
     try {
@@ -145,11 +162,18 @@ Important notes:
 
       const receipt = await wallet.waitForTransactionReceipt(txHash);
 
-      return `Created WoW ERC20 memecoin ${args.name} with symbol ${
-        args.symbol
-      } on network ${wallet.getNetwork().networkId}.\nTransaction hash for the token creation: ${txHash}, and receipt:\n${JSON.stringify(receipt)}`;
+      return actionSuccess(
+        `Created WoW ERC20 memecoin ${args.name} with symbol ${
+          args.symbol
+        } on network ${wallet.getNetwork().networkId}.\nTransaction hash for the token creation: ${txHash}, and receipt:\n${JSON.stringify(receipt)}`,
+        { transactionHash: txHash, receipt, name: args.name, symbol: args.symbol },
+      );
     } catch (error) {
-      return `Error creating Zora Wow ERC20 memecoin: ${error}`;
+      return actionError(
+        `Error creating Zora Wow ERC20 memecoin: ${error}`,
+        "TRANSACTION_FAILED",
+        error,
+      );
     }
   }
 
@@ -162,6 +186,8 @@ Important notes:
    */
   @CreateAction({
     name: "sell_token",
+    kind: "write",
+    category: "trading",
     description: `
 This tool can only be used to sell a Zora Wow ERC20 memecoin (also can be referred to as a bonding curve token) for ETH.
 Do not use this tool for any other purpose, or trading other assets.
@@ -183,7 +209,7 @@ Important notes:
   async sellToken(
     wallet: EvmWalletProvider,
     args: z.infer<typeof WowSellTokenInput>,
-  ): Promise<string> {
+  ): Promise<ActionResult> {
     try {
       const ethQuote = await getSellQuote(wallet, args.contractAddress, args.amountTokensInWei);
       const hasGraduated = await getHasGraduated(wallet, args.contractAddress);
@@ -212,9 +238,21 @@ Important notes:
 
       const receipt = await wallet.waitForTransactionReceipt(txHash);
 
-      return `Sold WoW ERC20 memecoin with transaction hash: ${txHash}, and receipt:\n${JSON.stringify(receipt)}`;
+      return actionSuccess(
+        `Sold WoW ERC20 memecoin with transaction hash: ${txHash}, and receipt:\n${JSON.stringify(receipt)}`,
+        {
+          transactionHash: txHash,
+          receipt,
+          amount: args.amountTokensInWei,
+          contractAddress: args.contractAddress,
+        },
+      );
     } catch (error) {
-      return `Error selling Zora Wow ERC20 memecoin: ${error}`;
+      return actionError(
+        `Error selling Zora Wow ERC20 memecoin: ${error}`,
+        "TRANSACTION_FAILED",
+        error,
+      );
     }
   }
 
@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { Action, actionSuccess } from "./action-providers";
+import { configureActions } from "./actionConfiguration";
+
+const action = (name: string): Action => ({
+  name,
+  description: `${name} description`,
+  schema: z.object({}),
+  invoke: jest.fn(async () => actionSuccess(name)),
+});
+
+const ACTIONS = [
+  action("ERC20ActionProvider_get_balance"),
+  action("ERC20ActionProvider_transfer"),
+  action("CdpWalletActionProvider_deploy_contract"),
+  action("CdpWalletActionProvider_deploy_token"),
+  action("CdpWalletActionProvider_trade"),
+];
+
+const names = (actions: Action[]) => actions.map(({ name }) => name);
+
+describe("configureActions", () => {
+  it("should return the actions unchanged without configuration", () => {
+    expect(configureActions(ACTIONS, {})).toEqual(ACTIONS);
+  });
+
+  it("should only include actions matching the include filters", () => {
+    const actions = configureActions(ACTIONS, {
+      include: ["ERC20ActionProvider_get_balance", "CdpWalletActionProvider_*"],
+    });
+
+    expect(names(actions)).toEqual([
+      "ERC20ActionProvider_get_balance",
+      "CdpWalletActionProvider_deploy_contract",
+      "CdpWalletActionProvider_deploy_token",
+      "CdpWalletActionProvider_trade",
+    ]);
+  });
+
+  it("should exclude actions matching the exclude filters", () => {
+    const actions = configureActions(ACTIONS, {
+      include: ["*"],
+      exclude: ["*_transfer", "CdpWalletActionProvider_deploy_?ontract"],
+    });
+
+    expect(names(actions)).toEqual([
+      "ERC20ActionProvider_get_balance",
+      "CdpWalletActionProvider_deploy_token",
+      "CdpWalletActionProvider_trade",
+    ]);
+  });
+
+  it("should match whole names and escape regular expression characters", () => {
+    expect(configureActions(ACTIONS, { include: ["trade"] })).toEqual([]);
+    expect(configureActions(ACTIONS, { include: ["ERC20ActionProvider.transfer"] })).toEqual([]);
+  });
+
+  it("should rename and redescribe actions", async () => {
+    const [balance, transfer] = configureActions(ACTIONS.slice(0, 2), {
+      rename: { ERC20ActionProvider_get_balance: "token_balance" },
+      descriptions: { ERC20ActionProvider_transfer: "Pay a supplier in USDC." },
+    });
+
+    expect(balance.name).toBe("token_balance");
+    expect(balance.description).toBe("ERC20ActionProvider_get_balance description");
+    expect(transfer.name).toBe("ERC20ActionProvider_transfer");
+    expect(transfer.description).toBe("Pay a supplier in USDC.");
+    expect((await balance.invoke({})).message).toBe("ERC20ActionProvider_get_balance");
+  });
+});
@@ -0,0 +1,87 @@
+import { Action } from "./action-providers";
+
+/**
+ * Configuration tailoring the actions AgentKit exposes.
+ *
+ * Actions are referred to by their full names, e.g. "ERC20ActionProvider_transfer". Filters
+ * accept glob patterns, where `*` matches any sequence of characters and `?` any single one.
+ */
+export interface ActionConfiguration {
+  /**
+   * Only expose actions matching one of these names or patterns. All actions are exposed if
+   * not set.
+   */
+  include?: string[];
+
+  /**
+   * Never expose actions matching one of these names or patterns. Takes precedence over
+   * `include`.
+   */
+  exclude?: string[];
+
+  /**
+   * New names for actions, by original name.
+   */
+  rename?: Record<string, string>;
+
+  /**
+   * New descriptions for actions, by original name.
+   */
+  descriptions?: Record<string, string>;
+}
+
+/**
+ * Filters, renames and redescribes actions according to a configuration.
+ *
+ * @param actions - The actions to configure.
+ * @param configuration - The action configuration.
+ * @returns The configured actions.
+ */
+export function configureActions(actions: Action[], configuration: ActionConfiguration): Action[] {
+  const include = configuration.include?.map(globToRegExp);
+  const exclude = configuration.exclude?.map(globToRegExp) ?? [];
+
+  return actions
+    .filter(
+      action =>
+        (!include || include.some(pattern => pattern.test(action.name))) &&
+        !exclude.some(pattern => pattern.test(action.name)),
+    )
+    .map(action => {
+      const name = configuration.rename?.[action.name];
+      const description = configuration.descriptions?.[action.name];
+
+      if (name === undefined && description === undefined) {
+        return action;
+      }
+
+      return {
+        ...action,
+        name: name ?? action.name,
+        description: description ?? action.description,
+      };
+    });
+}
+
+/**
+ * Converts a glob pattern into a regular expression matching whole action names.
+ *
+ * @param pattern - The glob pattern.
+ * @returns The regular expression.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map(char => {
+      if (char === "*") {
+        return ".*";
+      }
+      if (char === "?") {
+        return ".";
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  return new RegExp(`^${source}$`);
+}
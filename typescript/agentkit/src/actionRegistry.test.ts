@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { Action, actionSuccess } from "./action-providers";
+import { ActionNameCollisionError, ActionRegistry } from "./actionRegistry";
+
+const action = (provider: string, className: string, baseName: string): Action => ({
+  name: `${className}_${baseName}`,
+  baseName,
+  provider,
+  description: `${baseName} description`,
+  schema: z.object({}),
+  invoke: jest.fn(async () => actionSuccess(baseName)),
+});
+
+const ACTIONS = [
+  action("erc20", "ERC20ActionProvider", "transfer"),
+  action("wallet", "WalletActionProvider", "native_transfer"),
+];
+
+const names = (actions: Action[]) => actions.map(({ name }) => name);
+
+describe("ActionRegistry", () => {
+  describe("namespace", () => {
+    it("should keep class name prefixes by default", () => {
+      expect(names(new ActionRegistry().namespace(ACTIONS))).toEqual([
+        "ERC20ActionProvider_transfer",
+        "WalletActionProvider_native_transfer",
+      ]);
+    });
+
+    it("should prefix names with provider names", () => {
+      const registry = new ActionRegistry({ namespace: "provider" });
+
+      expect(names(registry.namespace(ACTIONS))).toEqual([
+        "erc20_transfer",
+        "wallet_native_transfer",
+      ]);
+    });
+
+    it("should prefix names with custom namespaces", () => {
+      const registry = new ActionRegistry({ namespaces: { erc20: "token" } });
+
+      expect(names(registry.namespace(ACTIONS))).toEqual([
+        "token_transfer",
+        "WalletActionProvider_native_transfer",
+      ]);
+    });
+
+    it("should leave actions without a provider unchanged", () => {
+      const custom = { ...ACTIONS[0], provider: undefined, baseName: undefined };
+
+      expect(new ActionRegistry({ namespace: "provider" }).namespace([custom])).toEqual([custom]);
+    });
+  });
+
+  describe("register", () => {
+    it("should return the actions unchanged if their names are valid and unique", () => {
+      const actions = new ActionRegistry().register(ACTIONS);
+
+      expect(actions[0]).toBe(ACTIONS[0]);
+      expect(actions[1]).toBe(ACTIONS[1]);
+    });
+
+    it("should replace characters tool-calling APIs reject", () => {
+      const actions = new ActionRegistry().register([{ ...ACTIONS[0], name: "my.action name" }]);
+
+      expect(names(actions)).toEqual(["my_action_name"]);
+    });
+
+    it("should shorten long names with a hash suffix", () => {
+      const registry = new ActionRegistry({ maxLength: 20 });
+      const actions = registry.register([
+        { ...ACTIONS[0], name: "a_very_long_action_name_one" },
+        { ...ACTIONS[0], name: "a_very_long_action_name_two" },
+      ]);
+
+      expect(actions[0].name).toHaveLength(20);
+      expect(actions[0].name).toMatch(/^a_very_long_[0-9a-f]{8}$/);
+      expect(actions[1].name).toHaveLength(20);
+      expect(actions[1].name).not.toEqual(actions[0].name);
+    });
+
+    it("should throw on name collisions by default", () => {
+      expect(() => new ActionRegistry().register([ACTIONS[0], ACTIONS[0]])).toThrow(
+        ActionNameCollisionError,
+      );
+    });
+
+    it("should disambiguate name collisions if configured", () => {
+      const registry = new ActionRegistry({ onCollision: "disambiguate" });
+
+      expect(names(registry.register([ACTIONS[0], ACTIONS[0], ACTIONS[0]]))).toEqual([
+        "ERC20ActionProvider_transfer",
+        "ERC20ActionProvider_transfer_2",
+        "ERC20ActionProvider_transfer_3",
+      ]);
+    });
+  });
+});
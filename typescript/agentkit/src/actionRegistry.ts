@@ -0,0 +1,149 @@
+import md5 from "md5";
+import { Action } from "./action-providers";
+
+/**
+ * The maximum length of tool names accepted by the OpenAI and Anthropic APIs.
+ */
+export const DEFAULT_MAX_ACTION_NAME_LENGTH = 64;
+
+const INVALID_NAME_CHARACTERS = /[^a-zA-Z0-9_-]/g;
+
+/**
+ * Configuration options for the names of the actions exposed by AgentKit.
+ */
+export interface ActionNamingOptions {
+  /**
+   * How action names are prefixed:
+   * - `class`: with the class name of the action provider, e.g. "ERC20ActionProvider_transfer".
+   *   Class names change when the code is minified.
+   * - `provider`: with the name of the action provider, e.g. "erc20_transfer".
+   *
+   * Defaults to "class".
+   */
+  namespace?: "class" | "provider";
+
+  /**
+   * Custom prefixes, by action provider name, e.g. `{ erc20: "token" }` for "token_transfer".
+   */
+  namespaces?: Record<string, string>;
+
+  /**
+   * What to do when several actions have the same name:
+   * - `error`: throw an ActionNameCollisionError.
+   * - `disambiguate`: suffix the names of the later actions with "_2", "_3", etc.
+   *
+   * Defaults to "error".
+   */
+  onCollision?: "error" | "disambiguate";
+
+  /**
+   * The maximum length of action names. Longer names are shortened with a hash suffix keeping
+   * them unique. Defaults to 64.
+   */
+  maxLength?: number;
+}
+
+/**
+ * Error thrown when several actions have the same name.
+ */
+export class ActionNameCollisionError extends Error {
+  /**
+   * Constructs a new ActionNameCollisionError.
+   *
+   * @param actionName - The name of the colliding actions.
+   */
+  constructor(public readonly actionName: string) {
+    super(
+      `Several actions are named ${actionName}. Rename them with the actions.rename option of ` +
+        `AgentKit, or set naming.onCollision to "disambiguate".`,
+    );
+    this.name = "ActionNameCollisionError";
+  }
+}
+
+/**
+ * ActionRegistry guarantees that the actions exposed by AgentKit have stable, unique names
+ * that LLM tool-calling APIs accept.
+ */
+export class ActionRegistry {
+  private readonly options: ActionNamingOptions;
+
+  /**
+   * Constructs a new ActionRegistry.
+   *
+   * @param options - The naming options.
+   */
+  constructor(options: ActionNamingOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Prefixes the names of actions with the namespace of their action provider.
+   *
+   * @param actions - The actions to namespace.
+   * @returns The namespaced actions.
+   */
+  namespace(actions: Action[]): Action[] {
+    return actions.map(action => {
+      if (!action.provider || action.baseName === undefined) {
+        return action;
+      }
+
+      const namespace =
+        this.options.namespaces?.[action.provider] ??
+        (this.options.namespace === "provider" ? action.provider : undefined);
+
+      return namespace === undefined
+        ? action
+        : { ...action, name: `${namespace}_${action.baseName}` };
+    });
+  }
+
+  /**
+   * Makes the names of actions valid tool names and unique.
+   *
+   * @param actions - The actions to register.
+   * @returns The actions with their final names.
+   * @throws ActionNameCollisionError if several actions have the same name and collisions are
+   * not disambiguated.
+   */
+  register(actions: Action[]): Action[] {
+    const maxLength = this.options.maxLength ?? DEFAULT_MAX_ACTION_NAME_LENGTH;
+    const registered = new Set<string>();
+
+    return actions.map(action => {
+      let name = fitLength(action.name.replace(INVALID_NAME_CHARACTERS, "_"), maxLength);
+
+      if (registered.has(name)) {
+        if (this.options.onCollision !== "disambiguate") {
+          throw new ActionNameCollisionError(name);
+        }
+
+        const base = name;
+        for (let suffix = 2; registered.has(name); suffix++) {
+          name = `${base.slice(0, maxLength - `_${suffix}`.length)}_${suffix}`;
+        }
+      }
+
+      registered.add(name);
+
+      return name === action.name ? action : { ...action, name };
+    });
+  }
+}
+
+/**
+ * Shortens a name to a maximum length, replacing its end with a hash of the full name.
+ *
+ * @param name - The name to shorten.
+ * @param maxLength - The maximum length.
+ * @returns The name, shortened if needed.
+ */
+function fitLength(name: string, maxLength: number): string {
+  if (name.length <= maxLength) {
+    return name;
+  }
+
+  const hash = md5(name).slice(0, 8);
+  return `${name.slice(0, maxLength - hash.length - 1)}_${hash}`;
+}
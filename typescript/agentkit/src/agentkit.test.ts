@@ -0,0 +1,153 @@
+import { createWalletClient, http } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { base, baseSepolia } from "viem/chains";
+import { z } from "zod";
+import { AgentKit } from "./agentkit";
+import { customActionProvider } from "./action-providers";
+import { ViemWalletProvider } from "./wallet-providers";
+import { mockWalletProvider } from "./tests/mockWalletProvider";
+
+jest.mock("./analytics", () => ({
+  sendAnalyticsEvent: jest.fn(),
+  ensureAnalyticsConfigured: jest.fn(),
+}));
+
+const mainnetOnlyProvider = customActionProvider({
+  name: "mainnet_only",
+  description: "Only available on Base mainnet",
+  schema: z.object({}),
+  supportsNetwork: network => network.networkId === "base-mainnet",
+  invoke: async () => "ok",
+});
+
+const createWalletProvider = () =>
+  new ViemWalletProvider(
+    createWalletClient({
+      account: privateKeyToAccount(generatePrivateKey()),
+      chain: baseSepolia,
+      transport: http(),
+    }),
+  );
+
+describe("AgentKit", () => {
+  describe("default action timeout", () => {
+    it("should apply to invocations passing an undefined timeout", async () => {
+      const agentKit = await AgentKit.from({
+        walletProvider: createWalletProvider(),
+        actionProviders: [
+          customActionProvider({
+            name: "hang",
+            description: "Never completes",
+            schema: z.object({}),
+            invoke: () => new Promise<string>(() => {}),
+          }),
+        ],
+        actionTimeoutMs: 10,
+      });
+      const [action] = agentKit.getActions();
+
+      const result = await action.invoke({}, { timeoutMs: undefined });
+
+      expect(result.error?.code).toBe("TIMEOUT");
+    });
+  });
+
+  describe("network switching", () => {
+    it("should notify listeners and refresh actions when a wallet provider switches networks", async () => {
+      const walletProvider = createWalletProvider();
+      const agentKit = await AgentKit.from({
+        walletProvider,
+        actionProviders: [mainnetOnlyProvider],
+      });
+      const listener = jest.fn();
+      agentKit.onActionsChange(listener);
+
+      expect(agentKit.getActions()).toEqual([]);
+
+      const address = walletProvider.getAddress();
+      await walletProvider.switchNetwork("base-mainnet");
+
+      expect(walletProvider.getAddress()).toBe(address);
+      expect(walletProvider.getNetwork()).toEqual({
+        protocolFamily: "evm",
+        chainId: "8453",
+        networkId: "base-mainnet",
+      });
+      expect(listener).toHaveBeenCalledWith({
+        walletProvider,
+        network: walletProvider.getNetwork(),
+        previousNetwork: { protocolFamily: "evm", chainId: "84532", networkId: "base-sepolia" },
+      });
+      expect(agentKit.getActions().map(action => action.name)).toEqual([
+        "CustomActionProvider_mainnet_only",
+      ]);
+    });
+
+    it("should stop notifying unregistered listeners", async () => {
+      const walletProvider = createWalletProvider();
+      const agentKit = await AgentKit.from({ walletProvider, actionProviders: [] });
+      const listener = jest.fn();
+
+      agentKit.onActionsChange(listener)();
+      await walletProvider.switchNetwork("base-mainnet");
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should create the clients of the new network with the configured transport", async () => {
+      const transport = jest.fn(() => http("https://rpc.example.com"));
+      const walletProvider = new ViemWalletProvider(
+        createWalletClient({
+          account: privateKeyToAccount(generatePrivateKey()),
+          chain: baseSepolia,
+          transport: http(),
+        }),
+        { transport },
+      );
+
+      await walletProvider.switchNetwork("base-mainnet");
+
+      expect(transport).toHaveBeenCalledWith(baseSepolia);
+      expect(transport).toHaveBeenLastCalledWith(base);
+    });
+
+    it("should switch the wallet provider through AgentKit, surfacing its errors", async () => {
+      const walletProvider = createWalletProvider();
+      const agentKit = await AgentKit.from({ walletProvider, actionProviders: [] });
+
+      await agentKit.switchNetwork("base-mainnet");
+
+      expect(walletProvider.getNetwork().networkId).toBe("base-mainnet");
+      await expect(agentKit.switchNetwork("unknown-network")).rejects.toThrow(
+        "Unsupported network: unknown-network",
+      );
+    });
+
+    it("should reject switching wallet providers that do not support it", async () => {
+      const walletProvider = mockWalletProvider({ protocolFamily: "svm", networkId: "solana" });
+      const agentKit = await AgentKit.from({ walletProvider, actionProviders: [] });
+
+      await expect(agentKit.switchNetwork("base-mainnet")).rejects.toThrow(
+        "Switching networks is not supported by this wallet provider",
+      );
+    });
+
+    it("should reject unsupported networks", async () => {
+      await expect(createWalletProvider().switchNetwork("unknown-network")).rejects.toThrow(
+        "Unsupported network: unknown-network",
+      );
+    });
+
+    it("should reject wallet providers ending up on the same network", async () => {
+      const walletProviders = [createWalletProvider(), createWalletProvider()];
+      await walletProviders[1].switchNetwork("base-mainnet");
+
+      const agentKit = await AgentKit.from({ walletProviders, actionProviders: [] });
+      await walletProviders[0].switchNetwork("base-mainnet");
+
+      expect(() => agentKit.getActions()).toThrow(
+        "walletProviders must all be on different networks",
+      );
+    });
+  });
+});
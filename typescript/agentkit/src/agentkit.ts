@@ -1,5 +1,15 @@
-import { WalletProvider, CdpWalletProvider } from "./wallet-providers";
+import { WalletProvider, CdpWalletProvider, EvmWalletProvider } from "./wallet-providers";
+import { Network } from "./network";
 import { Action, ActionProvider, walletActionProvider } from "./action-providers";
+import { ActionMiddleware, applyActionMiddleware } from "./middleware";
+import { SpendingPolicy } from "./policy";
+import { ApprovalHandler, ApprovalOptions, applyApproval } from "./approval";
+import { AnalyticsConfig, configureAnalytics, ensureAnalyticsConfigured } from "./analytics";
+import { ActionConfiguration, configureActions } from "./actionConfiguration";
+import { ActionNamingOptions, ActionRegistry } from "./actionRegistry";
+import { NetworkRouting, createRoutedAction, routeActions } from "./networkRouting";
+import { ActionManifest, createManifest } from "./manifest";
+import { traceAction } from "./telemetry";
 
 /**
  * Configuration options for AgentKit
@@ -8,27 +18,111 @@ export type AgentKitOptions = {
   cdpApiKeyName?: string;
   cdpApiKeyPrivateKey?: string;
   walletProvider?: WalletProvider;
+  walletProviders?: WalletProvider[];
+  networkRouting?: NetworkRouting;
   actionProviders?: ActionProvider[];
+  middleware?: ActionMiddleware[];
+  spendingPolicy?: SpendingPolicy;
+  approval?: ApprovalOptions;
+  analytics?: AnalyticsConfig;
+  actions?: ActionConfiguration;
+  naming?: ActionNamingOptions;
+  actionTimeoutMs?: number;
 };
 
+/**
+ * Options for getting the actions of AgentKit
+ */
+export type GetActionsOptions = {
+  /**
+   * Overrides the approval handler, enabling the approval mode if it is not configured.
+   */
+  approvalHandler?: ApprovalHandler;
+};
+
+/**
+ * An event emitted when the actions of AgentKit may have changed, e.g. after a wallet provider
+ * switched networks. Actions should be fetched again with `getActions`.
+ */
+export type ActionsChangeEvent = {
+  /**
+   * The wallet provider that switched networks.
+   */
+  walletProvider: WalletProvider;
+
+  /**
+   * The network the wallet provider switched to.
+   */
+  network: Network;
+
+  /**
+   * The network the wallet provider was on.
+   */
+  previousNetwork: Network;
+};
+
+/**
+ * A listener called when the actions of AgentKit may have changed.
+ */
+export type ActionsChangeListener = (event: ActionsChangeEvent) => void;
+
 /**
  * AgentKit
  */
 export class AgentKit {
-  private walletProvider: WalletProvider;
+  private walletProviders: WalletProvider[];
+  private networkRouting: NetworkRouting;
   private actionProviders: ActionProvider[];
+  private middleware: ActionMiddleware[];
+  private approval?: ApprovalOptions;
+  private actionConfiguration: ActionConfiguration;
+  private actionRegistry: ActionRegistry;
+  private actionTimeoutMs?: number;
+  private actionsChangeListeners = new Set<ActionsChangeListener>();
 
   /**
    * Initializes a new AgentKit instance
    *
    * @param config - Configuration options for the AgentKit
-   * @param config.walletProvider - The wallet provider to use
+   * @param config.walletProviders - The wallet providers to use, one per network
+   * @param config.networkRouting - How actions are exposed with several wallet providers
    * @param config.actionProviders - The action providers to use
-   * @param config.actions - The actions to use
+   * @param config.middleware - The middleware to run around every action invocation
+   * @param config.spendingPolicy - The spending policy to enforce on EVM wallet providers
+   * @param config.approval - The approval mode for state-changing actions
+   * @param config.actions - The filters, names and descriptions of the exposed actions
+   * @param config.naming - The namespacing and collision handling of action names
+   * @param config.actionTimeoutMs - The default timeout of action invocations in milliseconds
    */
-  private constructor(config: AgentKitOptions & { walletProvider: WalletProvider }) {
-    this.walletProvider = config.walletProvider;
+  private constructor(config: AgentKitOptions & { walletProviders: WalletProvider[] }) {
+    this.walletProviders = config.walletProviders;
+    this.networkRouting = config.networkRouting || "argument";
     this.actionProviders = config.actionProviders || [walletActionProvider()];
+    this.middleware = config.middleware || [];
+    this.approval = config.approval;
+    this.actionConfiguration = config.actions || {};
+    this.actionRegistry = new ActionRegistry(config.naming);
+    this.actionTimeoutMs = config.actionTimeoutMs;
+
+    this.validateNetworks();
+
+    if (config.spendingPolicy) {
+      for (const walletProvider of this.walletProviders) {
+        if (!(walletProvider instanceof EvmWalletProvider)) {
+          throw new Error("spendingPolicy is only supported with EVM wallet providers");
+        }
+
+        walletProvider.setSpendingPolicy(config.spendingPolicy);
+      }
+    }
+
+    for (const walletProvider of this.walletProviders) {
+      if (walletProvider instanceof EvmWalletProvider) {
+        walletProvider.onNetworkChange((network, previousNetwork) =>
+          this.notifyActionsChange({ walletProvider, network, previousNetwork }),
+        );
+      }
+    }
   }
 
   /**
@@ -36,46 +130,222 @@ export class AgentKit {
    *
    * @param config - Configuration options for the AgentKit
    * @param config.walletProvider - The wallet provider to use
+   * @param config.walletProviders - The wallet providers to use, one per network, instead of a
+   * single wallet provider
+   * @param config.networkRouting - How actions are exposed with several wallet providers
    * @param config.actionProviders - The action providers to use
-   * @param config.actions - The actions to use
+   * @param config.middleware - The middleware to run around every action invocation
+   * @param config.spendingPolicy - The spending policy to enforce on EVM wallet providers
+   * @param config.approval - The approval mode for state-changing actions
+   * @param config.analytics - The process-wide analytics configuration
+   * @param config.actions - The filters, names and descriptions of the exposed actions
+   * @param config.naming - The namespacing and collision handling of action names
+   * @param config.actionTimeoutMs - The default timeout of action invocations in milliseconds
    *
    * @returns A new AgentKit instance
    */
   public static async from(
     config: AgentKitOptions = { actionProviders: [walletActionProvider()] },
   ): Promise<AgentKit> {
-    let walletProvider: WalletProvider | undefined = config.walletProvider;
+    if (config.analytics) {
+      configureAnalytics(config.analytics);
+    } else {
+      ensureAnalyticsConfigured();
+    }
+
+    if (config.walletProvider && config.walletProviders?.length) {
+      throw new Error("walletProvider and walletProviders cannot be used together");
+    }
+
+    let walletProviders = config.walletProviders?.length
+      ? config.walletProviders
+      : config.walletProvider && [config.walletProvider];
 
-    if (!config.walletProvider) {
+    if (!walletProviders) {
       if (!config.cdpApiKeyName || !config.cdpApiKeyPrivateKey) {
         throw new Error(
           "cdpApiKeyName and cdpApiKeyPrivateKey are required if not providing a walletProvider",
         );
       }
 
-      walletProvider = await CdpWalletProvider.configureWithWallet({
-        apiKeyName: config.cdpApiKeyName,
-        apiKeyPrivateKey: config.cdpApiKeyPrivateKey,
-      });
+      walletProviders = [
+        await CdpWalletProvider.configureWithWallet({
+          apiKeyName: config.cdpApiKeyName,
+          apiKeyPrivateKey: config.cdpApiKeyPrivateKey,
+        }),
+      ];
+    }
+
+    return new AgentKit({ ...config, walletProviders });
+  }
+
+  /**
+   * Returns the wallet providers of the AgentKit, one per network.
+   *
+   * @returns The wallet providers
+   */
+  public getWalletProviders(): WalletProvider[] {
+    return [...this.walletProviders];
+  }
+
+  /**
+   * Registers a listener called when the actions of the AgentKit may have changed, e.g. after a
+   * wallet provider switched networks.
+   *
+   * @param listener - The listener
+   * @returns A function unregistering the listener
+   */
+  public onActionsChange(listener: ActionsChangeListener): () => void {
+    this.actionsChangeListeners.add(listener);
+    return () => {
+      this.actionsChangeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Switches a wallet provider to another network, keeping its key and address. Listeners
+   * registered with `onActionsChange` are notified once the switch completes.
+   *
+   * @param networkId - The ID of the network to switch to, e.g. "base-mainnet"
+   * @param walletProvider - The wallet provider to switch, required with several wallet providers
+   * @throws Error if the wallet provider cannot switch networks
+   */
+  public async switchNetwork(networkId: string, walletProvider?: WalletProvider): Promise<void> {
+    if (!walletProvider && this.walletProviders.length > 1) {
+      throw new Error(
+        "walletProvider is required to switch networks with several wallet providers",
+      );
+    }
+
+    const target = walletProvider ?? this.walletProviders[0];
+
+    if (!this.walletProviders.includes(target)) {
+      throw new Error("walletProvider is not a wallet provider of this AgentKit");
     }
 
-    return new AgentKit({ ...config, walletProvider: walletProvider! });
+    if (!(target instanceof EvmWalletProvider)) {
+      throw new Error("Switching networks is not supported by this wallet provider");
+    }
+
+    await target.switchNetwork(networkId);
   }
 
   /**
    * Returns the actions available to the AgentKit.
    *
+   * @param options - Options for getting the actions
    * @returns An array of actions
+   * @throws ActionNameCollisionError if several actions have the same name
+   */
+  public getActions(options: GetActionsOptions = {}): Action[] {
+    this.validateNetworks();
+
+    const walletActions = this.walletProviders.map(walletProvider => {
+      const actions: Action[] = [];
+
+      for (const actionProvider of this.actionProviders) {
+        if (actionProvider.supportsNetwork(walletProvider.getNetwork())) {
+          actions.push(...actionProvider.getActions(walletProvider));
+        }
+      }
+
+      return {
+        walletProvider,
+        actions: configureActions(this.actionRegistry.namespace(actions), this.actionConfiguration),
+      };
+    });
+
+    const approval = options.approvalHandler
+      ? { ...this.approval, handler: options.approvalHandler }
+      : this.approval;
+
+    const routed = routeActions(walletActions, this.networkRouting);
+    const registered = this.actionRegistry.register(routed.map(({ action }) => action));
+
+    return routed.map((routedAction, index) =>
+      createRoutedAction(routedAction, registered[index].name, (action, walletProvider) => {
+        const timed = this.withDefaultTimeout(action);
+
+        return traceAction(
+          applyActionMiddleware(
+            approval ? applyApproval(timed, approval) : timed,
+            walletProvider,
+            this.middleware,
+          ),
+          walletProvider,
+        );
+      }),
+    );
+  }
+
+  /**
+   * Returns the manifest of the actions available to the AgentKit, describing their arguments as
+   * JSON Schema, for other services to discover the capabilities of the agent. Convert it into an
+   * OpenAPI document with `toOpenApiDocument`.
+   *
+   * @returns The manifest
+   * @throws ActionNameCollisionError if several actions have the same name
+   */
+  public getManifest(): ActionManifest {
+    return createManifest(this.getActions(), this.walletProviders);
+  }
+
+  /**
+   * Applies the default timeout to the invocations of an action that do not set one. The time
+   * spent waiting for approval is not included.
+   *
+   * @param action - The action
+   * @returns The action with the default timeout
    */
-  public getActions(): Action[] {
-    const actions: Action[] = [];
+  private withDefaultTimeout(action: Action): Action {
+    const timeoutMs = this.actionTimeoutMs;
+
+    if (!timeoutMs) {
+      return action;
+    }
 
-    for (const actionProvider of this.actionProviders) {
-      if (actionProvider.supportsNetwork(this.walletProvider.getNetwork())) {
-        actions.push(...actionProvider.getActions(this.walletProvider));
+    return {
+      ...action,
+      invoke: (args, options) =>
+        action.invoke(args, { ...options, timeoutMs: options?.timeoutMs ?? timeoutMs }),
+    };
+  }
+
+  /**
+   * Checks that several wallet providers are on different, identified networks.
+   *
+   * @throws Error if two wallet providers are on the same network
+   */
+  private validateNetworks(): void {
+    if (this.walletProviders.length <= 1) {
+      return;
+    }
+
+    const networkIds = this.walletProviders.map(walletProvider => {
+      const networkId = walletProvider.getNetwork().networkId;
+      if (!networkId) {
+        throw new Error("walletProviders must all have a network ID");
       }
+      return networkId;
+    });
+
+    if (new Set(networkIds).size !== networkIds.length) {
+      throw new Error("walletProviders must all be on different networks");
     }
+  }
 
-    return actions;
+  /**
+   * Notifies the actions change listeners. Errors thrown by listeners are logged.
+   *
+   * @param event - The change event
+   */
+  private notifyActionsChange(event: ActionsChangeEvent): void {
+    for (const listener of this.actionsChangeListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn(`Warning: Actions change listener failed: ${error}`);
+      }
+    }
   }
 }
@@ -0,0 +1,181 @@
+import { promises as fs } from "fs";
+import md5 from "md5";
+
+/**
+ * The required data for an analytics event
+ *
+ * Accepts arbitrary additional fields
+ */
+export type AnalyticsEvent = {
+  /**
+   * The event that took place, e.g. initialize_wallet_provider, agent_action_invocation
+   */
+  action: string;
+  /**
+   * The component that the event took place in, e.g. wallet_provider, agent_action
+   */
+  component: string;
+  /**
+   * The name of the event. This should match the name in AEC
+   */
+  name: string;
+  /**
+   * The timestamp of the event. If not provided, the current time will be used.
+   */
+  timestamp?: number;
+} & Record<string, string | number | undefined>;
+
+/**
+ * AnalyticsSink delivers batches of analytics events.
+ */
+export interface AnalyticsSink {
+  /**
+   * Sends a batch of events. Rejecting keeps the events queued for the next flush.
+   *
+   * @param events - The events to send.
+   */
+  send(events: AnalyticsEvent[]): Promise<void>;
+}
+
+/**
+ * The default analytics sink, sending events to the Coinbase analytics endpoint.
+ */
+export class CdpAnalyticsSink implements AnalyticsSink {
+  private readonly endpoint: string;
+
+  /**
+   * Constructs a new CdpAnalyticsSink.
+   *
+   * @param endpoint - The URL of the analytics endpoint.
+   */
+  constructor(endpoint = "https://cca-lite.coinbase.com/amp") {
+    this.endpoint = endpoint;
+  }
+
+  /**
+   * Sends a batch of events.
+   *
+   * @param events - The events to send.
+   */
+  async send(events: AnalyticsEvent[]): Promise<void> {
+    const timestamp = events[0]?.timestamp ?? Date.now();
+
+    // Prepare the events with required fields
+    const enhancedEvents = events.map(event => ({
+      event_type: event.name,
+      platform: "server",
+      event_properties: {
+        component_type: event.component,
+        platform: "server",
+        project_name: "agentkit",
+        time_start: event.timestamp ?? timestamp,
+        ...event,
+      },
+    }));
+
+    const stringifiedEventData = JSON.stringify(enhancedEvents);
+    // Hash with the timestamp of the first event, which is sent as its start time
+    const uploadTime = timestamp.toString();
+
+    // Calculate checksum inline
+    const checksum = md5(stringifiedEventData + uploadTime);
+
+    const analyticsServiceData = {
+      e: stringifiedEventData,
+      checksum,
+    };
+
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      mode: "no-cors",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(analyticsServiceData),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+}
+
+/**
+ * An analytics sink that appends events to a JSON Lines file.
+ */
+export class FileAnalyticsSink implements AnalyticsSink {
+  private readonly path: string;
+
+  /**
+   * Constructs a new FileAnalyticsSink.
+   *
+   * @param path - The path of the file. It is created if it does not exist.
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Sends a batch of events.
+   *
+   * @param events - The events to send.
+   */
+  async send(events: AnalyticsEvent[]): Promise<void> {
+    const lines = events.map(event => `${JSON.stringify(event)}\n`).join("");
+    await fs.appendFile(this.path, lines, "utf8");
+  }
+}
+
+/**
+ * An analytics sink that exports events as OpenTelemetry log records over OTLP/HTTP with JSON
+ * encoding, e.g. to an OpenTelemetry Collector.
+ */
+export class OtlpAnalyticsSink implements AnalyticsSink {
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+
+  /**
+   * Constructs a new OtlpAnalyticsSink.
+   *
+   * @param url - The URL of the OTLP logs endpoint, e.g. http://localhost:4318/v1/logs.
+   * @param headers - Additional headers to send, e.g. for authentication.
+   */
+  constructor(url: string, headers: Record<string, string> = {}) {
+    this.url = url;
+    this.headers = headers;
+  }
+
+  /**
+   * Sends a batch of events.
+   *
+   * @param events - The events to send.
+   */
+  async send(events: AnalyticsEvent[]): Promise<void> {
+    const logRecords = events.map(event => ({
+      timeUnixNano: `${event.timestamp ?? Date.now()}000000`,
+      body: { stringValue: event.name },
+      attributes: Object.entries(event)
+        .filter(([key, value]) => key !== "timestamp" && value !== undefined)
+        .map(([key, value]) => ({ key, value: { stringValue: String(value) } })),
+    }));
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.headers },
+      body: JSON.stringify({
+        resourceLogs: [
+          {
+            resource: {
+              attributes: [{ key: "service.name", value: { stringValue: "agentkit" } }],
+            },
+            scopeLogs: [{ scope: { name: "agentkit" }, logRecords }],
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+}
@@ -1 +1,2 @@
+export * from "./analyticsSinks";
 export * from "./sendAnalyticsEvent";
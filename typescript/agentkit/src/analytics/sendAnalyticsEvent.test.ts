@@ -0,0 +1,163 @@
+import md5 from "md5";
+import { configureAnalytics, flushAnalytics, sendAnalyticsEvent } from "./sendAnalyticsEvent";
+
+const MOCK_ADDRESS = "0x1234567890123456789012345678901234567890";
+
+const event = (name = "agent_action_invocation") => ({
+  name,
+  action: "invoke_action",
+  component: "agent_action",
+  timestamp: 1700000000000,
+});
+
+describe("sendAnalyticsEvent", () => {
+  let sink: jest.Mock;
+
+  beforeEach(() => {
+    sink = jest.fn();
+  });
+
+  afterEach(() => {
+    configureAnalytics({ disabled: true });
+    jest.restoreAllMocks();
+  });
+
+  it("should send events to the default endpoint", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue({ ok: true } as Response);
+    configureAnalytics({});
+
+    await sendAnalyticsEvent(event());
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://cca-lite.coinbase.com/amp",
+      expect.objectContaining({ method: "POST" }),
+    );
+  });
+
+  it("should checksum events with the timestamp they are sent with", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue({ ok: true } as Response);
+    configureAnalytics({});
+
+    await sendAnalyticsEvent(event());
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+    expect(JSON.parse(body.e)[0].event_properties.time_start).toBe(event().timestamp);
+    expect(body.checksum).toBe(md5(body.e + event().timestamp));
+  });
+
+  it("should drop events when disabled", async () => {
+    configureAnalytics({ disabled: true, sink });
+
+    await sendAnalyticsEvent(event());
+    await flushAnalytics();
+
+    expect(sink).not.toHaveBeenCalled();
+  });
+
+  it("should send events to a callback sink", async () => {
+    configureAnalytics({ sink });
+
+    await sendAnalyticsEvent(event());
+
+    expect(sink).toHaveBeenCalledWith([event()]);
+  });
+
+  it("should send events in batches", async () => {
+    configureAnalytics({ sink, batchSize: 2 });
+
+    await sendAnalyticsEvent(event("first"));
+    expect(sink).not.toHaveBeenCalled();
+
+    await sendAnalyticsEvent(event("second"));
+    expect(sink).toHaveBeenCalledWith([event("first"), event("second")]);
+  });
+
+  it("should keep events queued while the sink is unavailable", async () => {
+    sink.mockRejectedValueOnce(new Error("offline"));
+    configureAnalytics({ sink, maxQueueSize: 2 });
+
+    await sendAnalyticsEvent(event("first"));
+    await sendAnalyticsEvent(event("second"));
+
+    expect(sink).toHaveBeenLastCalledWith([event("first"), event("second")]);
+  });
+
+  it("should drop the oldest events when the queue is full", async () => {
+    sink.mockRejectedValue(new Error("offline"));
+    configureAnalytics({ sink, maxQueueSize: 2 });
+
+    await sendAnalyticsEvent(event("first"));
+    await sendAnalyticsEvent(event("second"));
+    await sendAnalyticsEvent(event("third"));
+
+    sink.mockResolvedValue(undefined);
+    await flushAnalytics();
+
+    expect(sink).toHaveBeenLastCalledWith([event("second"), event("third")]);
+  });
+
+  it("should scrub addresses from events", async () => {
+    configureAnalytics({ sink, scrubAddresses: true });
+
+    await sendAnalyticsEvent({
+      ...event(),
+      wallet_address: "some-solana-address",
+      action_name: `transfer_to_${MOCK_ADDRESS}`,
+      network_id: "base-sepolia",
+    });
+
+    expect(sink).toHaveBeenCalledWith([
+      {
+        ...event(),
+        wallet_address: "[redacted]",
+        action_name: "transfer_to_[redacted]",
+        network_id: "base-sepolia",
+      },
+    ]);
+  });
+
+  describe("before analytics are configured", () => {
+    let analytics: typeof import("./sendAnalyticsEvent");
+
+    beforeEach(() => {
+      jest.isolateModules(() => {
+        analytics = jest.requireActual("./sendAnalyticsEvent");
+      });
+    });
+
+    afterEach(() => {
+      analytics.configureAnalytics({ disabled: true });
+    });
+
+    it("should hold events and scrub them according to the later configuration", async () => {
+      const walletEvent = { ...event("agent_initialization"), wallet_address: MOCK_ADDRESS };
+
+      await analytics.sendAnalyticsEvent(walletEvent);
+      await analytics.flushAnalytics();
+      expect(sink).not.toHaveBeenCalled();
+
+      analytics.configureAnalytics({ sink, scrubAddresses: true });
+      await analytics.flushAnalytics();
+
+      expect(sink).toHaveBeenCalledWith([{ ...walletEvent, wallet_address: "[redacted]" }]);
+    });
+
+    it("should drop held events when analytics are disabled", async () => {
+      await analytics.sendAnalyticsEvent(event());
+
+      analytics.configureAnalytics({ disabled: true, sink });
+      await analytics.flushAnalytics();
+
+      expect(sink).not.toHaveBeenCalled();
+    });
+
+    it("should not replace an existing configuration with the default one", async () => {
+      analytics.configureAnalytics({ sink });
+      analytics.ensureAnalyticsConfigured();
+
+      await analytics.sendAnalyticsEvent(event());
+
+      expect(sink).toHaveBeenCalledWith([event()]);
+    });
+  });
+});
@@ -1,77 +1,176 @@
-import md5 from "md5";
+import { AnalyticsEvent, AnalyticsSink, CdpAnalyticsSink } from "./analyticsSinks";
 
 /**
- * The required data for an analytics event
+ * Configuration options for AgentKit analytics.
  *
- * Accepts arbitrary additional fields
+ * Analytics are configured process-wide, since wallet providers and action providers send
+ * events before and outside of any AgentKit instance.
  */
-type RequiredEventData = {
+export interface AnalyticsConfig {
   /**
-   * The event that took place, e.g. initialize_wallet_provider, agent_action_invocation
+   * Drops all events. Defaults to true if the AGENTKIT_DISABLE_ANALYTICS environment variable is
+   * "true".
    */
-  action: string;
+  disabled?: boolean;
+
+  /**
+   * The sink to send events to, or a callback receiving each batch. Defaults to the Coinbase
+   * analytics endpoint.
+   */
+  sink?: AnalyticsSink | ((events: AnalyticsEvent[]) => void | Promise<void>);
+
   /**
-   * The component that the event took place in, e.g. wallet_provider, agent_action
+   * The number of events to queue before sending them as a batch. Defaults to 1.
    */
-  component: string;
+  batchSize?: number;
+
   /**
-   * The name of the event. This should match the name in AEC
+   * The interval in milliseconds at which queued events are sent even if the batch is not full.
    */
-  name: string;
+  flushIntervalMs?: number;
+
   /**
-   * The timestamp of the event. If not provided, the current time will be used.
+   * The maximum number of events kept queued while the sink is unavailable. The oldest events
+   * are dropped first. Defaults to 1000.
    */
-  timestamp?: number;
-} & Record<string, string | undefined>;
+  maxQueueSize?: number;
+
+  /**
+   * Redacts wallet addresses and any other address-like values from events.
+   */
+  scrubAddresses?: boolean;
+}
+
+/**
+ * The value replacing scrubbed addresses.
+ */
+export const SCRUBBED_ADDRESS = "[redacted]";
+
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+const ADDRESS_PATTERN = /0x[a-fA-F0-9]{40}/g;
+
+let config: AnalyticsConfig = {};
+let configured = false;
+let sink: AnalyticsSink = new CdpAnalyticsSink();
+let queue: AnalyticsEvent[] = [];
+let flushTimer: ReturnType<typeof setInterval> | undefined;
 
 /**
- * Sends an analytics event to the default endpoint
+ * Configures analytics for the process, replacing any previous configuration.
+ *
+ * Events sent before analytics are first configured, such as the initialization events of
+ * wallet providers created before AgentKit, are held and then sent, scrubbed or dropped
+ * according to this configuration.
+ *
+ * @param analyticsConfig - The analytics configuration.
+ */
+export function configureAnalytics(analyticsConfig: AnalyticsConfig): void {
+  config = analyticsConfig;
+  configured = true;
+
+  if (!analyticsConfig.sink) {
+    sink = new CdpAnalyticsSink();
+  } else if (typeof analyticsConfig.sink === "function") {
+    const callback = analyticsConfig.sink;
+    sink = { send: async events => callback(events) };
+  } else {
+    sink = analyticsConfig.sink;
+  }
+
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = undefined;
+  }
+
+  if (isDisabled()) {
+    queue = [];
+  } else if (analyticsConfig.flushIntervalMs) {
+    flushTimer = setInterval(() => void flushAnalytics(), analyticsConfig.flushIntervalMs);
+    // Do not keep the process alive just to send analytics
+    flushTimer.unref();
+  }
+
+  if (queue.length >= (analyticsConfig.batchSize ?? 1)) {
+    void flushAnalytics();
+  }
+}
+
+/**
+ * Configures analytics with the default configuration, unless they were configured already,
+ * sending the events held until then.
+ */
+export function ensureAnalyticsConfigured(): void {
+  if (!configured) {
+    configureAnalytics({});
+  }
+}
+
+/**
+ * Sends all queued events. Events that fail to send stay queued. Events are held until analytics
+ * are configured.
+ *
+ * @returns Promise that resolves when the queued events are sent or requeued
+ */
+export async function flushAnalytics(): Promise<void> {
+  if (!configured || queue.length === 0) {
+    return;
+  }
+
+  const events = queue;
+  queue = [];
+
+  try {
+    await sink.send(config.scrubAddresses ? events.map(scrubAddresses) : events);
+  } catch {
+    queue = [...events, ...queue].slice(-(config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE));
+  }
+}
+
+/**
+ * Queues an analytics event, sending the queue once a batch is full and analytics are configured
  *
  * @param event - The event data containing required action, component and name fields
- * @returns Promise that resolves when the event is sent
+ * @returns Promise that resolves when the event is queued or sent
  */
-export async function sendAnalyticsEvent(event: RequiredEventData): Promise<void> {
-  const timestamp = event.timestamp || Date.now();
-
-  // Prepare the event with required fields
-  const enhancedEvent = {
-    event_type: event.name,
-    platform: "server",
-    event_properties: {
-      component_type: event.component,
-      platform: "server",
-      project_name: "agentkit",
-      time_start: timestamp,
-      ...event,
-    },
-  };
-
-  const events = [enhancedEvent];
-  const stringifiedEventData = JSON.stringify(events);
-  const uploadTime = timestamp.toString();
-
-  // Calculate checksum inline
-  const checksum = md5(stringifiedEventData + uploadTime);
-
-  const analyticsServiceData = {
-    e: stringifiedEventData,
-    checksum,
-  };
-
-  const apiEndpoint = "https://cca-lite.coinbase.com";
-  const eventPath = "/amp";
-  const eventEndPoint = `${apiEndpoint}${eventPath}`;
-
-  const response = await fetch(eventEndPoint, {
-    method: "POST",
-    mode: "no-cors",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(analyticsServiceData),
-  });
+export async function sendAnalyticsEvent(event: AnalyticsEvent): Promise<void> {
+  if (isDisabled()) {
+    return;
+  }
 
-  if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
+  const timestamped = { ...event, timestamp: event.timestamp || Date.now() };
+  queue = [...queue, timestamped].slice(-(config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE));
+
+  if (queue.length >= (config.batchSize ?? 1)) {
+    await flushAnalytics();
   }
 }
+
+/**
+ * Checks whether analytics are disabled.
+ *
+ * @returns True if events are dropped, false otherwise.
+ */
+function isDisabled(): boolean {
+  return config.disabled ?? process.env.AGENTKIT_DISABLE_ANALYTICS === "true";
+}
+
+/**
+ * Redacts addresses from an event.
+ *
+ * @param event - The event to scrub.
+ * @returns The scrubbed event.
+ */
+function scrubAddresses(event: AnalyticsEvent): AnalyticsEvent {
+  const scrubbed = Object.entries(event).map(([key, value]) => {
+    if (key.endsWith("address") && value !== undefined) {
+      return [key, SCRUBBED_ADDRESS];
+    }
+
+    return [
+      key,
+      typeof value === "string" ? value.replace(ADDRESS_PATTERN, SCRUBBED_ADDRESS) : value,
+    ];
+  });
+
+  return Object.fromEntries(scrubbed) as AnalyticsEvent;
+}
@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { Action, actionSuccess } from "../action-providers";
+import { applyApproval, renderApprovalPreview } from "./approval";
+import { ApprovalQueue } from "./approvalQueue";
+
+describe("applyApproval", () => {
+  let mockAction: Action;
+
+  beforeEach(() => {
+    mockAction = {
+      name: "test_transfer",
+      description: "\n    Transfers funds.\n    More details.\n  ",
+      schema: z.object({ to: z.string() }),
+      kind: "write",
+      invoke: jest.fn(async args => actionSuccess(`Transferred to ${args.to}`)),
+    };
+  });
+
+  it("should not wrap actions whose kind does not require approval", () => {
+    const handler = jest.fn();
+    const readAction: Action = { ...mockAction, kind: "read" };
+
+    expect(applyApproval(readAction, { handler })).toBe(readAction);
+    expect(applyApproval(mockAction, { handler, kinds: ["deploy"] })).toBe(mockAction);
+  });
+
+  it("should require approval for actions without a kind", async () => {
+    const handler = jest.fn().mockResolvedValue({ approved: true });
+    const action = applyApproval({ ...mockAction, kind: undefined }, { handler });
+
+    await action.invoke({ to: "0x123" });
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ kind: "write" }), undefined);
+  });
+
+  it("should invoke the action once approved", async () => {
+    const handler = jest.fn().mockResolvedValue({ approved: true });
+    const action = applyApproval(mockAction, { handler });
+
+    const result = await action.invoke({ to: "0x123" });
+
+    expect(handler).toHaveBeenCalledWith(
+      {
+        id: expect.any(String),
+        actionName: "test_transfer",
+        kind: "write",
+        args: { to: "0x123" },
+        preview: renderApprovalPreview(mockAction, { to: "0x123" }),
+      },
+      undefined,
+    );
+    expect(result.message).toBe("Transferred to 0x123");
+  });
+
+  it("should return a rejected result without invoking the action", async () => {
+    const action = applyApproval(mockAction, {
+      handler: () => ({ approved: false, reason: "Unknown recipient" }),
+    });
+
+    const result = await action.invoke({ to: "0x123" });
+
+    expect(mockAction.invoke).not.toHaveBeenCalled();
+    expect(result.status).toBe("error");
+    expect(result.error?.code).toBe("REJECTED");
+    expect(result.message).toBe("Invocation of test_transfer was rejected: Unknown recipient");
+  });
+
+  it("should propagate errors thrown by the handler", async () => {
+    const action = applyApproval(mockAction, {
+      handler: () => {
+        throw new Error("interrupted");
+      },
+    });
+
+    await expect(action.invoke({ to: "0x123" })).rejects.toThrow("interrupted");
+  });
+
+  it("should stop waiting for approval when the invocation times out", async () => {
+    const queue = new ApprovalQueue();
+    const action = applyApproval(mockAction, { handler: queue.handler });
+
+    const result = await action.invoke({ to: "0x123" }, { timeoutMs: 10 });
+
+    expect(result.status).toBe("error");
+    expect(result.error?.code).toBe("TIMEOUT");
+    expect(result.message).toBe("Invocation of test_transfer timed out after 10ms.");
+    expect(mockAction.invoke).not.toHaveBeenCalled();
+    expect(queue.getPendingRequests()).toEqual([]);
+  });
+
+  it("should stop waiting for approval when the invocation is cancelled", async () => {
+    const queue = new ApprovalQueue();
+    const action = applyApproval(mockAction, { handler: queue.handler });
+    const controller = new AbortController();
+
+    const invocation = action.invoke({ to: "0x123" }, { signal: controller.signal });
+    const [request] = queue.getPendingRequests();
+    controller.abort();
+    const result = await invocation;
+
+    expect(result.error?.code).toBe("CANCELLED");
+    expect(mockAction.invoke).not.toHaveBeenCalled();
+    expect(queue.getPendingRequests()).toEqual([]);
+    expect(() => queue.approve(request.id)).toThrow("No pending approval request");
+  });
+
+  it("should only give the action the time left after approval", async () => {
+    const action = applyApproval(mockAction, {
+      handler: () => new Promise(resolve => setTimeout(() => resolve({ approved: true }), 50)),
+    });
+
+    await action.invoke({ to: "0x123" }, { timeoutMs: 1000 });
+
+    const [, options] = (mockAction.invoke as jest.Mock).mock.calls[0];
+    expect(options.timeoutMs).toBeLessThanOrEqual(960);
+  });
+});
+
+describe("renderApprovalPreview", () => {
+  it("should render the action, its summary and its arguments", () => {
+    const action = {
+      name: "test_transfer",
+      description: "\n    Transfers funds.\n    More details.",
+      schema: z.object({}),
+      kind: "write" as const,
+      invoke: jest.fn(),
+    };
+
+    expect(renderApprovalPreview(action, { to: "0x123", amount: 5n })).toBe(
+      [
+        "Action: test_transfer (write)",
+        "Description: Transfers funds.",
+        'Arguments: {\n  "to": "0x123",\n  "amount": "5"\n}',
+      ].join("\n"),
+    );
+  });
+});
+
+describe("ApprovalQueue", () => {
+  const request = {
+    id: "request-1",
+    actionName: "test_transfer",
+    kind: "write" as const,
+    args: {},
+    preview: "preview",
+  };
+
+  it("should hold requests until they are approved", async () => {
+    const onRequest = jest.fn();
+    const queue = new ApprovalQueue(onRequest);
+
+    const decision = queue.handler(request);
+
+    expect(onRequest).toHaveBeenCalledWith(request);
+    expect(queue.getPendingRequests()).toEqual([request]);
+
+    queue.approve("request-1");
+
+    await expect(decision).resolves.toEqual({ approved: true });
+    expect(queue.getPendingRequests()).toEqual([]);
+  });
+
+  it("should resolve rejected requests with the reason", async () => {
+    const queue = new ApprovalQueue();
+
+    const decision = queue.handler(request);
+    queue.reject("request-1", "Too expensive");
+
+    await expect(decision).resolves.toEqual({ approved: false, reason: "Too expensive" });
+  });
+
+  it("should throw for unknown requests", () => {
+    expect(() => new ApprovalQueue().approve("missing")).toThrow(
+      "No pending approval request with ID missing",
+    );
+  });
+});
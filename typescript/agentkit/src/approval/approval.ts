@@ -0,0 +1,162 @@
+import { randomUUID } from "crypto";
+import { Action } from "../action-providers/actionProvider";
+import { ActionKind, DEFAULT_ACTION_KIND } from "../action-providers/actionDecorator";
+import { ActionAbortedError, runAbortable } from "../action-providers/actionAbort";
+import { actionAborted, actionError, bigIntReplacer } from "../action-providers/actionResult";
+
+/**
+ * The kinds of actions requiring approval by default: every action that is not read-only.
+ */
+export const DEFAULT_APPROVAL_KINDS: ActionKind[] = ["write", "social-post", "deploy"];
+
+/**
+ * A request to approve an action invocation, emitted before the action runs.
+ */
+export interface ApprovalRequest {
+  /**
+   * The unique ID of the request.
+   */
+  id: string;
+
+  /**
+   * The name of the action awaiting approval.
+   */
+  actionName: string;
+
+  /**
+   * The kind of effect the action has.
+   */
+  kind: ActionKind;
+
+  /**
+   * The arguments the action will be invoked with.
+   */
+  args: unknown;
+
+  /**
+   * A human-readable preview of the invocation, suitable for display to the approver.
+   */
+  preview: string;
+}
+
+/**
+ * The decision of the approver on an approval request.
+ */
+export interface ApprovalDecision {
+  /**
+   * Whether the action may run.
+   */
+  approved: boolean;
+
+  /**
+   * The reason for rejecting the action, passed back to the agent.
+   */
+  reason?: string;
+}
+
+/**
+ * ApprovalHandler decides on approval requests. The action is suspended until the returned
+ * promise resolves, or until the invocation is cancelled or times out, which aborts the signal.
+ */
+export type ApprovalHandler = (
+  request: ApprovalRequest,
+  signal?: AbortSignal,
+) => ApprovalDecision | Promise<ApprovalDecision>;
+
+/**
+ * Configuration options for the approval mode of AgentKit.
+ */
+export interface ApprovalOptions {
+  /**
+   * The handler deciding on approval requests.
+   */
+  handler: ApprovalHandler;
+
+  /**
+   * The kinds of actions requiring approval. Defaults to every kind except "read".
+   */
+  kinds?: ActionKind[];
+}
+
+/**
+ * Renders a human-readable preview of an action invocation.
+ *
+ * @param action - The action about to be invoked.
+ * @param args - The arguments the action will be invoked with.
+ * @returns The preview of the invocation.
+ */
+export function renderApprovalPreview(action: Action, args: unknown): string {
+  const kind = action.kind ?? DEFAULT_ACTION_KIND;
+  const summary = action.description
+    .split("\n")
+    .map(line => line.trim())
+    .find(line => line !== "");
+
+  return [
+    `Action: ${action.name} (${kind})`,
+    ...(summary ? [`Description: ${summary}`] : []),
+    `Arguments: ${JSON.stringify(args, bigIntReplacer, 2)}`,
+  ].join("\n");
+}
+
+/**
+ * Wraps an action so that every invocation is suspended until the approval handler decides on
+ * it, if the kind of the action requires approval.
+ *
+ * Errors thrown by the handler are not caught, so that handlers can suspend the agent itself,
+ * e.g. with a LangGraph `interrupt`. The signal and timeout of the invocation also apply to the
+ * wait for approval: an invocation cancelled or timing out before the decision returns a
+ * `CANCELLED` or `TIMEOUT` error without running the action, and the action only gets the time
+ * left after approval.
+ *
+ * @param action - The action to wrap.
+ * @param options - The approval options.
+ * @returns The wrapped action, or the action itself if it does not require approval.
+ */
+export function applyApproval(action: Action, options: ApprovalOptions): Action {
+  const kind = action.kind ?? DEFAULT_ACTION_KIND;
+
+  if (!(options.kinds ?? DEFAULT_APPROVAL_KINDS).includes(kind)) {
+    return action;
+  }
+
+  return {
+    ...action,
+    invoke: async (args, invokeOptions = {}) => {
+      const request = {
+        id: randomUUID(),
+        actionName: action.name,
+        kind,
+        args,
+        preview: renderApprovalPreview(action, args),
+      };
+      const requestedAt = Date.now();
+
+      let decision: ApprovalDecision;
+      try {
+        decision = await runAbortable(invokeOptions, `Invocation of ${action.name}`, async signal =>
+          options.handler(request, signal),
+        );
+      } catch (error) {
+        if (error instanceof ActionAbortedError) {
+          return actionAborted(error);
+        }
+        throw error;
+      }
+
+      if (!decision.approved) {
+        return actionError(
+          `Invocation of ${action.name} was rejected${decision.reason ? `: ${decision.reason}` : "."}`,
+          "REJECTED",
+        );
+      }
+
+      const { timeoutMs } = invokeOptions;
+
+      return action.invoke(args, {
+        ...invokeOptions,
+        ...(timeoutMs && { timeoutMs: Math.max(timeoutMs - (Date.now() - requestedAt), 1) }),
+      });
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { ApprovalDecision, ApprovalRequest } from "./approval";
+
+/**
+ * ApprovalQueue holds pending approval requests until a host app approves or rejects them.
+ *
+ * @example
+ * ```typescript
+ * const queue = new ApprovalQueue(request => notifyReviewer(request.preview));
+ * const agentKit = await AgentKit.from({ walletProvider, approval: { handler: queue.handler } });
+ *
+ * // Later, e.g. from a UI callback
+ * queue.approve(requestId);
+ * ```
+ */
+export class ApprovalQueue {
+  private readonly pending = new Map<
+    string,
+    { request: ApprovalRequest; resolve: (decision: ApprovalDecision) => void }
+  >();
+
+  /**
+   * Constructs a new ApprovalQueue.
+   *
+   * @param onRequest - Called with every new pending request.
+   */
+  constructor(private readonly onRequest?: (request: ApprovalRequest) => void) {}
+
+  /**
+   * The approval handler to pass to AgentKit. Suspends each request until it is decided on. A
+   * request whose invocation is cancelled or times out is removed from the pending requests.
+   *
+   * @param request - The approval request.
+   * @param signal - Aborted when the invocation awaiting approval is cancelled or times out.
+   * @returns The decision on the request.
+   */
+  handler = (request: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalDecision> => {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        this.pending.delete(request.id);
+        reject(signal?.reason);
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(request.id, {
+        request,
+        resolve: decision => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(decision);
+        },
+      });
+      this.onRequest?.(request);
+    });
+  };
+
+  /**
+   * Gets the requests awaiting a decision.
+   *
+   * @returns The pending requests, oldest first.
+   */
+  getPendingRequests(): ApprovalRequest[] {
+    return [...this.pending.values()].map(({ request }) => request);
+  }
+
+  /**
+   * Approves a pending request, resuming its action.
+   *
+   * @param id - The ID of the request.
+   */
+  approve(id: string): void {
+    this.decide(id, { approved: true });
+  }
+
+  /**
+   * Rejects a pending request. The action is not invoked and the agent receives the reason.
+   *
+   * @param id - The ID of the request.
+   * @param reason - The reason for rejecting the request.
+   */
+  reject(id: string, reason?: string): void {
+    this.decide(id, { approved: false, reason });
+  }
+
+  /**
+   * Resolves a pending request with a decision.
+   *
+   * @param id - The ID of the request.
+   * @param decision - The decision on the request.
+   */
+  private decide(id: string, decision: ApprovalDecision): void {
+    const entry = this.pending.get(id);
+
+    if (!entry) {
+      throw new Error(`No pending approval request with ID ${id}`);
+    }
+
+    this.pending.delete(id);
+    entry.resolve(decision);
+  }
+}
@@ -0,0 +1,184 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { z } from "zod";
+import { Action, ActionAbortedError, actionAborted, actionSuccess } from "../action-providers";
+import { applyActionMiddleware } from "../middleware";
+import { WalletProvider } from "../wallet-providers";
+import { AuditRecord, AuditSink, createAuditMiddleware } from "./auditLog";
+import { JsonlAuditSink, SqliteAuditSink, SqliteDatabase } from "./auditSinks";
+
+const MOCK_TX_HASH = "0x1234567890123456789012345678901234567890123456789012345678901234";
+
+const MOCK_WALLET = {
+  getAddress: () => "0xwallet",
+  getNetwork: () => ({ protocolFamily: "evm", networkId: "base-sepolia", chainId: "84532" }),
+} as unknown as WalletProvider;
+
+const MOCK_RECORD: AuditRecord = {
+  sessionId: "session-1",
+  timestamp: "2025-01-01T00:00:00.000Z",
+  actionName: "test_transfer",
+  args: { to: "0x123" },
+  walletAddress: "0xwallet",
+  networkId: "base-sepolia",
+  result: actionSuccess("Transferred", { transactionHash: MOCK_TX_HASH }),
+  transactionHashes: [MOCK_TX_HASH],
+  durationMs: 5,
+};
+
+describe("createAuditMiddleware", () => {
+  let mockAction: Action;
+  let mockSink: jest.Mocked<AuditSink>;
+
+  beforeEach(() => {
+    mockAction = {
+      name: "test_transfer",
+      description: "A test action",
+      schema: z.object({ to: z.string() }),
+      invoke: jest.fn(async () => actionSuccess("Transferred", { transactionHash: MOCK_TX_HASH })),
+    };
+    mockSink = { write: jest.fn(), read: jest.fn() };
+  });
+
+  it("should record every invocation", async () => {
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      createAuditMiddleware(mockSink, { sessionId: "session-1" }),
+    ]);
+
+    const result = await action.invoke({ to: "0x123" });
+
+    expect(mockSink.write).toHaveBeenCalledWith({
+      sessionId: "session-1",
+      timestamp: expect.any(String),
+      actionName: "test_transfer",
+      args: { to: "0x123" },
+      walletAddress: "0xwallet",
+      networkId: "base-sepolia",
+      result,
+      transactionHashes: [MOCK_TX_HASH],
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("should record the arguments as received, before the schema transforms them", async () => {
+    mockAction.schema = z.object({ to: z.string().transform(to => to.toLowerCase()) });
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      createAuditMiddleware(mockSink),
+    ]);
+
+    await action.invoke({ to: "0xABC" });
+
+    expect(mockSink.write).toHaveBeenCalledWith(expect.objectContaining({ args: { to: "0xABC" } }));
+  });
+
+  it("should record every transaction submitted by aborted invocations", async () => {
+    const approvalTxHash = "0xabcdef";
+    mockAction.invoke = jest.fn(async () =>
+      actionAborted(
+        new ActionAbortedError("Invocation of test_transfer timed out after 10ms", true),
+        [approvalTxHash, MOCK_TX_HASH],
+      ),
+    );
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      createAuditMiddleware(mockSink),
+    ]);
+
+    await action.invoke({ to: "0x123" });
+
+    expect(mockSink.write).toHaveBeenCalledWith(
+      expect.objectContaining({ transactionHashes: [approvalTxHash, MOCK_TX_HASH] }),
+    );
+  });
+
+  it("should not fail the invocation when the sink fails", async () => {
+    mockSink.write.mockRejectedValue(new Error("disk full"));
+    const warn = jest.spyOn(console, "warn").mockImplementation();
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      createAuditMiddleware(mockSink),
+    ]);
+
+    const result = await action.invoke({ to: "0x123" });
+
+    expect(result.status).toBe("success");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("disk full"));
+    warn.mockRestore();
+  });
+});
+
+describe("JsonlAuditSink", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "agentkit-audit-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should append records and read them back by session", async () => {
+    const sink = new JsonlAuditSink(path.join(dir, "audit.jsonl"));
+
+    await sink.write(MOCK_RECORD);
+    await sink.write({ ...MOCK_RECORD, sessionId: "session-2" });
+
+    expect(await sink.read()).toHaveLength(2);
+    expect(await sink.read({ sessionId: "session-1" })).toEqual([MOCK_RECORD]);
+  });
+
+  it("should read no records from a missing file", async () => {
+    const sink = new JsonlAuditSink(path.join(dir, "missing.jsonl"));
+
+    expect(await sink.read()).toEqual([]);
+  });
+});
+
+describe("SqliteAuditSink", () => {
+  let mockStatement: { run: jest.Mock; all: jest.Mock };
+  let mockDb: jest.Mocked<SqliteDatabase>;
+
+  beforeEach(() => {
+    mockStatement = {
+      run: jest.fn(),
+      all: jest.fn().mockReturnValue([{ record: JSON.stringify(MOCK_RECORD) }]),
+    };
+    mockDb = { exec: jest.fn(), prepare: jest.fn().mockReturnValue(mockStatement) };
+  });
+
+  it("should create the table once and insert records", async () => {
+    const sink = new SqliteAuditSink(mockDb);
+
+    await sink.write(MOCK_RECORD);
+    await sink.write(MOCK_RECORD);
+
+    expect(mockDb.exec).toHaveBeenCalledTimes(1);
+    expect(mockDb.exec).toHaveBeenCalledWith(
+      expect.stringContaining("CREATE TABLE IF NOT EXISTS agentkit_audit_log"),
+    );
+    expect(mockStatement.run).toHaveBeenCalledWith(
+      "session-1",
+      MOCK_RECORD.timestamp,
+      "test_transfer",
+      JSON.stringify(MOCK_RECORD),
+    );
+  });
+
+  it("should read records by session", async () => {
+    const sink = new SqliteAuditSink(mockDb, "audit");
+
+    const records = await sink.read({ sessionId: "session-1" });
+
+    expect(mockDb.prepare).toHaveBeenCalledWith(
+      "SELECT record FROM audit WHERE session_id = ? ORDER BY id",
+    );
+    expect(mockStatement.all).toHaveBeenCalledWith("session-1");
+    expect(records).toEqual([MOCK_RECORD]);
+  });
+
+  it("should reject invalid table names", () => {
+    expect(() => new SqliteAuditSink(mockDb, "audit; DROP TABLE users")).toThrow(
+      "Invalid audit log table name",
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { randomUUID } from "crypto";
+import { ActionResult } from "../action-providers/actionResult";
+import { ActionInvocationContext, ActionMiddleware } from "../middleware/actionMiddleware";
+
+/**
+ * A record of a single action invocation.
+ */
+export interface AuditRecord {
+  /**
+   * The ID of the session the invocation belongs to.
+   */
+  sessionId: string;
+
+  /**
+   * The time the invocation started, as an ISO 8601 string.
+   */
+  timestamp: string;
+
+  /**
+   * The name of the invoked action.
+   */
+  actionName: string;
+
+  /**
+   * The arguments the action was invoked with, as received before parsing, so that replaying
+   * them parses them the same way.
+   */
+  args: unknown;
+
+  /**
+   * The address of the wallet the action was bound to.
+   */
+  walletAddress: string;
+
+  /**
+   * The network ID of the wallet the action was bound to.
+   */
+  networkId?: string;
+
+  /**
+   * The result of the invocation.
+   */
+  result: ActionResult;
+
+  /**
+   * The hashes of the transactions sent, or simulated, by the action.
+   */
+  transactionHashes: string[];
+
+  /**
+   * The duration of the invocation in milliseconds.
+   */
+  durationMs: number;
+}
+
+/**
+ * Options for filtering audit records.
+ */
+export interface AuditRecordFilter {
+  /**
+   * Only return records of this session.
+   */
+  sessionId?: string;
+}
+
+/**
+ * AuditSink persists audit records. Sinks are append-only: records are never updated or deleted.
+ */
+export interface AuditSink {
+  /**
+   * Appends a record.
+   *
+   * @param record - The record to append.
+   */
+  write(record: AuditRecord): Promise<void>;
+
+  /**
+   * Reads the records, oldest first.
+   *
+   * @param filter - The filter to apply.
+   * @returns The records matching the filter.
+   */
+  read(filter?: AuditRecordFilter): Promise<AuditRecord[]>;
+}
+
+/**
+ * Configuration options for the audit middleware.
+ */
+export interface AuditMiddlewareOptions {
+  /**
+   * The ID of the session the invocations belong to. Defaults to a random UUID.
+   */
+  sessionId?: string;
+}
+
+/**
+ * Creates a middleware recording every action invocation to an audit sink.
+ *
+ * Register it first to record the arguments and results seen by the agent. Errors writing to
+ * the sink are logged and do not fail the invocation.
+ *
+ * @param sink - The sink to record invocations to.
+ * @param options - The configuration options for the audit middleware.
+ * @returns The audit middleware.
+ */
+export function createAuditMiddleware(
+  sink: AuditSink,
+  options: AuditMiddlewareOptions = {},
+): ActionMiddleware {
+  const sessionId = options.sessionId ?? randomUUID();
+  const startTimes = new WeakMap<ActionInvocationContext, number>();
+
+  return {
+    name: "audit",
+    before: context => {
+      startTimes.set(context, Date.now());
+    },
+    after: async (context, result) => {
+      const startTime = startTimes.get(context) ?? Date.now();
+
+      try {
+        await sink.write({
+          sessionId,
+          timestamp: new Date(startTime).toISOString(),
+          actionName: context.actionName,
+          args: context.rawArgs,
+          walletAddress: context.walletProvider.getAddress(),
+          networkId: context.walletProvider.getNetwork().networkId,
+          result,
+          transactionHashes: getTransactionHashes(result),
+          durationMs: Date.now() - startTime,
+        });
+      } catch (error) {
+        console.warn(`Warning: Failed to write audit record for ${context.actionName}: ${error}`);
+      }
+    },
+  };
+}
+
+/**
+ * Gets the hashes of the transactions sent or simulated by an action, including those sent
+ * before it failed or was aborted.
+ *
+ * @param result - The result of the action.
+ * @returns The transaction hashes.
+ */
+function getTransactionHashes(result: ActionResult): string[] {
+  const hashes = new Set<string>(result.data.transactionHashes);
+
+  if (result.data.transactionHash) {
+    hashes.add(result.data.transactionHash);
+  }
+
+  for (const simulation of result.data.simulations ?? []) {
+    hashes.add(simulation.transactionHash);
+  }
+
+  return [...hashes];
+}
@@ -0,0 +1,201 @@
+import { promises as fs } from "fs";
+import { bigIntReplacer } from "../action-providers/actionResult";
+import { AuditRecord, AuditRecordFilter, AuditSink } from "./auditLog";
+
+/**
+ * An audit sink that appends records to a JSON Lines file.
+ *
+ * BigInt values are written as strings.
+ */
+export class JsonlAuditSink implements AuditSink {
+  private readonly path: string;
+
+  /**
+   * Constructs a new JsonlAuditSink.
+   *
+   * @param path - The path of the audit log file. It is created if it does not exist.
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Appends a record.
+   *
+   * @param record - The record to append.
+   */
+  async write(record: AuditRecord): Promise<void> {
+    await fs.appendFile(this.path, `${JSON.stringify(record, bigIntReplacer)}\n`, "utf8");
+  }
+
+  /**
+   * Reads the records, oldest first.
+   *
+   * @param filter - The filter to apply.
+   * @returns The records matching the filter.
+   */
+  async read(filter: AuditRecordFilter = {}): Promise<AuditRecord[]> {
+    let contents: string;
+
+    try {
+      contents = await fs.readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return contents
+      .split("\n")
+      .filter(line => line.trim() !== "")
+      .map(line => JSON.parse(line) as AuditRecord)
+      .filter(record => matchesFilter(record, filter));
+  }
+}
+
+/**
+ * A prepared SQLite statement, as returned by `better-sqlite3` and `node:sqlite`.
+ */
+export interface SqliteStatement {
+  /**
+   * Runs the statement.
+   *
+   * @param params - The values of the statement parameters.
+   */
+  run(...params: unknown[]): unknown;
+
+  /**
+   * Runs the statement and returns all rows.
+   *
+   * @param params - The values of the statement parameters.
+   * @returns The rows returned by the statement.
+   */
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * A synchronous SQLite database connection, such as a `better-sqlite3` `Database` or a
+ * `node:sqlite` `DatabaseSync`.
+ */
+export interface SqliteDatabase {
+  /**
+   * Executes SQL without parameters.
+   *
+   * @param sql - The SQL to execute.
+   */
+  exec(sql: string): unknown;
+
+  /**
+   * Prepares a statement.
+   *
+   * @param sql - The SQL of the statement.
+   * @returns The prepared statement.
+   */
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * An audit sink that appends records to a SQLite table.
+ *
+ * The sink does not depend on a SQLite driver; pass it a connection opened with the driver of
+ * your choice.
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ *
+ * const sink = new SqliteAuditSink(new Database("audit.db"));
+ * ```
+ */
+export class SqliteAuditSink implements AuditSink {
+  private readonly db: SqliteDatabase;
+  private readonly table: string;
+  private initialized = false;
+
+  /**
+   * Constructs a new SqliteAuditSink.
+   *
+   * @param db - The SQLite database connection.
+   * @param table - The name of the table to write records to. It is created if it does not exist.
+   */
+  constructor(db: SqliteDatabase, table = "agentkit_audit_log") {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid audit log table name: ${table}`);
+    }
+
+    this.db = db;
+    this.table = table;
+  }
+
+  /**
+   * Appends a record.
+   *
+   * @param record - The record to append.
+   */
+  async write(record: AuditRecord): Promise<void> {
+    this.initialize();
+
+    this.db
+      .prepare(
+        `INSERT INTO ${this.table} (session_id, timestamp, action_name, record) VALUES (?, ?, ?, ?)`,
+      )
+      .run(
+        record.sessionId,
+        record.timestamp,
+        record.actionName,
+        JSON.stringify(record, bigIntReplacer),
+      );
+  }
+
+  /**
+   * Reads the records, oldest first.
+   *
+   * @param filter - The filter to apply.
+   * @returns The records matching the filter.
+   */
+  async read(filter: AuditRecordFilter = {}): Promise<AuditRecord[]> {
+    this.initialize();
+
+    const rows = (
+      filter.sessionId === undefined
+        ? this.db.prepare(`SELECT record FROM ${this.table} ORDER BY id`).all()
+        : this.db
+            .prepare(`SELECT record FROM ${this.table} WHERE session_id = ? ORDER BY id`)
+            .all(filter.sessionId)
+    ) as { record: string }[];
+
+    return rows.map(row => JSON.parse(row.record) as AuditRecord);
+  }
+
+  /**
+   * Creates the audit log table if it does not exist.
+   */
+  private initialize(): void {
+    if (this.initialized) {
+      return;
+    }
+
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        action_name TEXT NOT NULL,
+        record TEXT NOT NULL
+      )`,
+    );
+    this.initialized = true;
+  }
+}
+
+/**
+ * Checks whether a record matches a filter.
+ *
+ * @param record - The record to check.
+ * @param filter - The filter to check against.
+ * @returns True if the record matches the filter, false otherwise.
+ */
+function matchesFilter(record: AuditRecord, filter: AuditRecordFilter): boolean {
+  return filter.sessionId === undefined || record.sessionId === filter.sessionId;
+}
@@ -0,0 +1,3 @@
+export * from "./auditLog";
+export * from "./auditSinks";
+export * from "./replay";
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { Action, actionError, actionSuccess } from "../action-providers";
+import { AuditRecord } from "./auditLog";
+import { replayAuditRecords } from "./replay";
+
+const record = (actionName: string, result = actionSuccess("ok")): AuditRecord => ({
+  sessionId: "session-1",
+  timestamp: "2025-01-01T00:00:00.000Z",
+  actionName,
+  args: { value: actionName },
+  walletAddress: "0xwallet",
+  networkId: "base-sepolia",
+  result,
+  transactionHashes: [],
+  durationMs: 1,
+});
+
+describe("replayAuditRecords", () => {
+  let mockAction: Action;
+
+  beforeEach(() => {
+    mockAction = {
+      name: "test_action",
+      description: "A test action",
+      schema: z.object({ value: z.string() }),
+      invoke: jest.fn(async () => actionSuccess("ok")),
+    };
+  });
+
+  it("should re-run recorded invocations in order with the recorded arguments", async () => {
+    const records = [record("test_action"), record("test_action", actionError("failed"))];
+
+    const replayed = await replayAuditRecords(records, [mockAction]);
+
+    expect(mockAction.invoke).toHaveBeenCalledTimes(2);
+    expect(mockAction.invoke).toHaveBeenCalledWith({ value: "test_action" });
+    expect(replayed.map(({ matches }) => matches)).toEqual([true, false]);
+    expect(replayed[1].record).toBe(records[1]);
+  });
+
+  it("should report actions that are not available", async () => {
+    const [replayed] = await replayAuditRecords([record("missing_action")], [mockAction]);
+
+    expect(mockAction.invoke).not.toHaveBeenCalled();
+    expect(replayed.result.error?.code).toBe("NOT_FOUND");
+    expect(replayed.matches).toBe(false);
+  });
+});
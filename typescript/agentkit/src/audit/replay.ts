@@ -0,0 +1,65 @@
+import { Action } from "../action-providers/actionProvider";
+import { ActionResult, actionError } from "../action-providers/actionResult";
+import { AuditRecord } from "./auditLog";
+
+/**
+ * The outcome of replaying a recorded action invocation.
+ */
+export interface ReplayedInvocation {
+  /**
+   * The recorded invocation.
+   */
+  record: AuditRecord;
+
+  /**
+   * The result of the replayed invocation.
+   */
+  result: ActionResult;
+
+  /**
+   * Whether the replayed invocation had the same status as the recorded one.
+   */
+  matches: boolean;
+}
+
+/**
+ * Re-runs recorded action invocations, in order, against the given actions.
+ *
+ * To debug an incident without moving funds, pass the actions of an AgentKit instance using a
+ * mock or dry-run wallet provider.
+ *
+ * @example
+ * ```typescript
+ * const records = await new JsonlAuditSink("audit.jsonl").read({ sessionId });
+ * const agentKit = await AgentKit.from({
+ *   walletProvider: new ViemWalletProvider(client, { dryRun: true }),
+ *   actionProviders,
+ * });
+ *
+ * for (const { record, result, matches } of await replayAuditRecords(records, agentKit.getActions())) {
+ *   console.log(record.actionName, matches ? "matches" : `now ${result.status}: ${result.message}`);
+ * }
+ * ```
+ *
+ * @param records - The recorded invocations to replay.
+ * @param actions - The actions to replay the invocations against.
+ * @returns The outcomes of the replayed invocations.
+ */
+export async function replayAuditRecords(
+  records: AuditRecord[],
+  actions: Action[],
+): Promise<ReplayedInvocation[]> {
+  const actionsByName = new Map(actions.map(action => [action.name, action]));
+  const replayed: ReplayedInvocation[] = [];
+
+  for (const record of records) {
+    const action = actionsByName.get(record.actionName);
+    const result = action
+      ? await action.invoke(record.args)
+      : actionError(`Action ${record.actionName} is not available for replay`, "NOT_FOUND");
+
+    replayed.push({ record, result, matches: result.status === record.result.status });
+  }
+
+  return replayed;
+}
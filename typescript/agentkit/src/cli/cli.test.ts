@@ -0,0 +1,161 @@
+import { z } from "zod";
+import { AgentKit } from "../agentkit";
+import { customActionProvider } from "../action-providers";
+import { parseCliArguments, runCli, toActionArgs } from "./cli";
+import { createCliAgentKit, readCliConfig } from "./config";
+import { mockWalletProvider } from "../tests/mockWalletProvider";
+
+jest.mock("../analytics", () => ({
+  sendAnalyticsEvent: jest.fn(),
+  ensureAnalyticsConfigured: jest.fn(),
+}));
+
+jest.mock("./config", () => ({
+  readCliConfig: jest.fn(() => ({})),
+  createCliAgentKit: jest.fn(),
+}));
+
+const TransferSchema = z.object({
+  to: z.string(),
+  amount: z.number(),
+  memo: z.string().optional(),
+});
+
+const transfer = jest.fn(async (args: z.infer<typeof TransferSchema>) => {
+  if (args.amount > 10) {
+    throw new Error("insufficient balance");
+  }
+  return `Transferred ${args.amount} to ${args.to}`;
+});
+
+/**
+ * Runs the command-line tool, capturing its output.
+ *
+ * @param args - The command line arguments.
+ * @returns The exit code and the printed lines.
+ */
+async function run(args: string[]) {
+  const output = { log: jest.fn(), error: jest.fn() };
+  const code = await runCli(args, output);
+  return {
+    code,
+    log: output.log.mock.calls.map(([line]) => line).join("\n"),
+    error: output.error.mock.calls.map(([line]) => line).join("\n"),
+  };
+}
+
+describe("parseCliArguments", () => {
+  it("should separate options of the tool from arguments of the action", () => {
+    expect(
+      parseCliArguments([
+        "--config",
+        "agentkit.json",
+        "invoke",
+        "transfer",
+        "--to",
+        "0xabc",
+        "--amount=2",
+        "--json",
+        "--",
+        "--timeout",
+        "3",
+      ]),
+    ).toEqual({
+      positionals: ["invoke", "transfer"],
+      options: { config: "agentkit.json", json: true },
+      actionArgs: { to: "0xabc", amount: "2", timeout: "3" },
+    });
+  });
+});
+
+describe("toActionArgs", () => {
+  it("should keep strings and parse other values as JSON", () => {
+    const inputSchema = {
+      properties: { to: { type: "string" }, amount: { type: "number" }, ids: { type: "array" } },
+    };
+
+    expect(
+      toActionArgs({ to: "123", amount: "2.5", ids: "[1,2]", force: true }, inputSchema),
+    ).toEqual({ to: "123", amount: 2.5, ids: [1, 2], force: true });
+  });
+});
+
+describe("runCli", () => {
+  beforeEach(async () => {
+    transfer.mockClear();
+    jest.mocked(readCliConfig).mockReturnValue({});
+    jest.mocked(createCliAgentKit).mockResolvedValue(
+      await AgentKit.from({
+        walletProvider: mockWalletProvider(),
+        actionProviders: [
+          customActionProvider({
+            name: "transfer",
+            description: "Transfers tokens\nto an address",
+            schema: TransferSchema,
+            invoke: transfer,
+          }),
+        ],
+      }),
+    );
+  });
+
+  it("should list the actions", async () => {
+    const { code, log } = await run(["list"]);
+
+    expect(code).toBe(0);
+    expect(log).toBe("CustomActionProvider_transfer  [write, high risk] Transfers tokens");
+  });
+
+  it("should describe an action with its schema", async () => {
+    const { code, log } = await run(["describe", "CustomActionProvider_transfer"]);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(log).inputSchema.required).toEqual(["to", "amount"]);
+  });
+
+  it("should invoke an action with JSON and flag arguments", async () => {
+    const { code, log } = await run([
+      "invoke",
+      "CustomActionProvider_transfer",
+      "--args",
+      '{"to":"0xabc","amount":1}',
+      "--amount",
+      "2",
+    ]);
+
+    expect(code).toBe(0);
+    expect(log).toBe("Transferred 2 to 0xabc");
+    expect(transfer).toHaveBeenCalledWith({ to: "0xabc", amount: 2 });
+  });
+
+  it("should print the result as JSON and exit with an error code when the action fails", async () => {
+    const { code, log } = await run([
+      "invoke",
+      "CustomActionProvider_transfer",
+      "--to",
+      "0xabc",
+      "--amount",
+      "11",
+      "--json",
+    ]);
+
+    expect(code).toBe(1);
+    expect(JSON.parse(log)).toMatchObject({
+      status: "error",
+      error: { code: "UNKNOWN", cause: "insufficient balance" },
+    });
+  });
+
+  it("should run actions in dry-run mode when asked to", async () => {
+    await run(["--dry-run", "list"]);
+
+    expect(createCliAgentKit).toHaveBeenCalledWith({ wallet: { dryRun: true } });
+  });
+
+  it("should reject unknown actions", async () => {
+    const { code, error } = await run(["invoke", "send"]);
+
+    expect(code).toBe(1);
+    expect(error).toContain('Unknown action "send"');
+  });
+});
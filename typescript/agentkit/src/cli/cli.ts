@@ -0,0 +1,299 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line tool listing and invoking the actions of an AgentKit instance directly, without
+ * going through an agent, e.g. to script actions or reproduce the invocations of an agent.
+ *
+ * The AgentKit instance is exported by the --agentkit module, or created from the --config file
+ * and environment variables. See USAGE for the commands.
+ */
+
+import { AgentKit } from "../agentkit";
+import { ActionResult, bigIntReplacer, formatActionResult } from "../action-providers";
+import { ActionManifestEntry, JsonSchema } from "../manifest";
+import { loadAgentKit, writeManifest } from "../scripts/writeManifest";
+import { createCliAgentKit, readCliConfig } from "./config";
+
+/**
+ * The options of the command-line tool, which are not passed to actions.
+ */
+const CLI_OPTIONS = ["config", "agentkit", "args", "timeout", "out", "openapi"];
+
+/**
+ * The flags of the command-line tool, which take no value.
+ */
+const CLI_FLAGS = ["dry-run", "json", "help"];
+
+const USAGE = `Usage: agentkit [--config <file>] [--agentkit <module>] [--dry-run] <command>
+
+Commands:
+  list [--json]                 Lists the actions
+  describe <action>             Prints the manifest entry of an action, including its schema
+  invoke <action> [--args <json>] [--<argument> <value> ...] [--json] [--timeout <ms>]
+                                Invokes an action and prints its result
+  manifest [--out <path>] [--openapi <path>]
+                                Writes the action manifest and OpenAPI document`;
+
+/**
+ * Where the command-line tool prints its output.
+ */
+export interface CliOutput {
+  /**
+   * Prints a line of output.
+   */
+  log: (line: string) => void;
+
+  /**
+   * Prints a line of error.
+   */
+  error: (line: string) => void;
+}
+
+/**
+ * The parsed command line.
+ */
+export interface CliArguments {
+  /**
+   * The positional arguments: the command and its operands.
+   */
+  positionals: string[];
+
+  /**
+   * The options of the command-line tool.
+   */
+  options: Record<string, string | boolean>;
+
+  /**
+   * The arguments of the invoked action given as flags, not yet converted to their types.
+   */
+  actionArgs: Record<string, string | boolean>;
+}
+
+/**
+ * Parses a command line. Options not known to the command-line tool, and every option after
+ * `--`, are arguments of the invoked action.
+ *
+ * @param args - The command line arguments.
+ * @returns The parsed command line.
+ */
+export function parseCliArguments(args: string[]): CliArguments {
+  const parsed: CliArguments = { positionals: [], options: {}, actionArgs: {} };
+  let actionArgsOnly = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "--" && !actionArgsOnly) {
+      actionArgsOnly = true;
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = splitOption(arg.slice(2));
+    const isCliOption = !actionArgsOnly && [...CLI_OPTIONS, ...CLI_FLAGS].includes(name);
+    const target = isCliOption ? parsed.options : parsed.actionArgs;
+
+    if (inlineValue !== undefined) {
+      target[name] = inlineValue;
+    } else if (isCliOption && CLI_FLAGS.includes(name)) {
+      target[name] = true;
+    } else if (i + 1 < args.length && !args[i + 1].startsWith("--")) {
+      target[name] = args[++i];
+    } else {
+      target[name] = true;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Converts arguments given as flags to the types of the input schema of an action. Values of
+ * string properties are kept as is, other values are parsed as JSON.
+ *
+ * @param flags - The arguments given as flags.
+ * @param inputSchema - The JSON Schema of the arguments of the action.
+ * @returns The arguments.
+ */
+export function toActionArgs(
+  flags: Record<string, string | boolean>,
+  inputSchema: JsonSchema,
+): Record<string, unknown> {
+  const properties = (inputSchema.properties ?? {}) as Record<string, JsonSchema>;
+
+  return Object.fromEntries(
+    Object.entries(flags).map(([name, value]) => {
+      if (typeof value === "boolean" || properties[name]?.type === "string") {
+        return [name, value];
+      }
+
+      try {
+        return [name, JSON.parse(value)];
+      } catch {
+        return [name, value];
+      }
+    }),
+  );
+}
+
+/**
+ * Runs the command-line tool.
+ *
+ * @param args - The command line arguments.
+ * @param output - Where to print the output.
+ * @param signal - A signal cancelling the invoked action, e.g. on Ctrl-C.
+ * @returns The exit code.
+ */
+export async function runCli(
+  args: string[],
+  output: CliOutput = console,
+  signal?: AbortSignal,
+): Promise<number> {
+  const { positionals, options, actionArgs } = parseCliArguments(args);
+  const [command, actionName] = positionals;
+
+  if (options.help) {
+    output.log(USAGE);
+    return 0;
+  }
+  if (!command) {
+    output.error(USAGE);
+    return 1;
+  }
+  if (!["list", "describe", "invoke", "manifest"].includes(command)) {
+    output.error(`Unknown command "${command}"\n\n${USAGE}`);
+    return 1;
+  }
+  if ((command === "describe" || command === "invoke") && !actionName) {
+    output.error(`The ${command} command requires an action name\n\n${USAGE}`);
+    return 1;
+  }
+
+  const agentKit = await createAgentKit(options);
+
+  if (command === "manifest") {
+    writeManifest(agentKit, {
+      out: stringOption(options.out),
+      openApiOut: stringOption(options.openapi),
+    }).forEach(path => output.log(`Wrote ${path}`));
+    return 0;
+  }
+
+  const entries = agentKit.getManifest().actions;
+
+  if (command === "list") {
+    output.log(options.json ? JSON.stringify(entries, null, 2) : formatActionList(entries));
+    return 0;
+  }
+
+  const entry = entries.find(candidate => candidate.name === actionName);
+  if (!entry) {
+    output.error(`Unknown action "${actionName}", run "agentkit list" to list the actions`);
+    return 1;
+  }
+
+  if (command === "describe") {
+    output.log(JSON.stringify(entry, null, 2));
+    return 0;
+  }
+
+  const action = agentKit.getActions().find(candidate => candidate.name === actionName)!;
+  const result = await action.invoke(
+    {
+      ...(options.args && JSON.parse(String(options.args))),
+      ...toActionArgs(actionArgs, entry.inputSchema),
+    },
+    { signal, ...(options.timeout && { timeoutMs: Number(options.timeout) }) },
+  );
+
+  output.log(options.json ? JSON.stringify(result, bigIntReplacer, 2) : formatInvocation(result));
+  return result.status === "success" ? 0 : 1;
+}
+
+/**
+ * Creates the AgentKit instance of the command line.
+ *
+ * @param options - The options of the command-line tool.
+ * @returns The AgentKit instance.
+ */
+async function createAgentKit(options: Record<string, string | boolean>): Promise<AgentKit> {
+  if (options.agentkit) {
+    return loadAgentKit(stringOption(options.agentkit));
+  }
+
+  const config = readCliConfig(stringOption(options.config));
+  if (options["dry-run"]) {
+    config.wallet = { ...config.wallet, dryRun: true };
+  }
+
+  return createCliAgentKit(config);
+}
+
+/**
+ * Formats the list of actions, one per line with the first line of its description.
+ *
+ * @param entries - The manifest entries of the actions.
+ * @returns The formatted list.
+ */
+function formatActionList(entries: ActionManifestEntry[]): string {
+  const width = Math.max(0, ...entries.map(entry => entry.name.length));
+
+  return entries
+    .map(entry => {
+      const labels = [entry.kind, `${entry.risk} risk`, entry.category].filter(Boolean).join(", ");
+      const summary = entry.description.split("\n")[0];
+      return `${entry.name.padEnd(width)}  [${labels}] ${summary}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Formats the result of an invocation.
+ *
+ * @param result - The result of the action.
+ * @returns The formatted result.
+ */
+function formatInvocation(result: ActionResult): string {
+  const message = formatActionResult(result);
+
+  if (result.status === "error") {
+    return `Error (${result.error?.code ?? "UNKNOWN"}): ${message}`;
+  }
+  return result.data.simulated ? `[simulated] ${message}` : message;
+}
+
+/**
+ * Gets the value of an option taking a value.
+ *
+ * @param value - The value of the option, or true if it was given without one.
+ * @returns The value, or undefined if the option was not given a value.
+ */
+function stringOption(value: string | boolean | undefined): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Splits an option into its name and inline value, e.g. "amount=1".
+ *
+ * @param option - The option, without its leading dashes.
+ * @returns The name and the value, if any.
+ */
+function splitOption(option: string): [string, string | undefined] {
+  const index = option.indexOf("=");
+  return index === -1 ? [option, undefined] : [option.slice(0, index), option.slice(index + 1)];
+}
+
+if (require.main === module) {
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort(new Error("Cancelled by the user")));
+
+  runCli(process.argv.slice(2), console, controller.signal)
+    .then(code => process.exit(code))
+    .catch(error => {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    });
+}
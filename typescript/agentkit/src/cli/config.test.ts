@@ -0,0 +1,78 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { generatePrivateKey } from "viem/accounts";
+import { createCliActionProviders, createCliWalletProvider, readCliConfig } from "./config";
+
+describe("readCliConfig", () => {
+  it("should read the environment, overridden by the configuration file", () => {
+    const path = join(mkdtempSync(join(tmpdir(), "agentkit-cli-")), "agentkit.json");
+    writeFileSync(
+      path,
+      JSON.stringify({ wallet: { networkId: "base-mainnet" }, actionTimeoutMs: 5 }),
+    );
+
+    const config = readCliConfig(path, {
+      NETWORK_ID: "base-sepolia",
+      PRIVATE_KEY: "0x01",
+      AGENTKIT_DRY_RUN: "true",
+      AGENTKIT_ACTION_PROVIDERS: "wallet, erc20",
+      CDP_API_KEY_PRIVATE_KEY: "line1\\nline2",
+    });
+
+    expect(config).toEqual({
+      wallet: { networkId: "base-mainnet", privateKey: "0x01", dryRun: true },
+      actionProviders: ["wallet", "erc20"],
+      actionTimeoutMs: 5,
+      cdpApiKeyName: undefined,
+      cdpApiKeyPrivateKey: "line1\nline2",
+    });
+  });
+});
+
+describe("createCliActionProviders", () => {
+  it("should create action providers by name", () => {
+    const providers = createCliActionProviders({
+      actionProviders: ["erc20", { name: "pyth", config: { retry: false } }],
+    });
+
+    expect(providers.map(provider => provider.name)).toEqual(["erc20", "pyth"]);
+  });
+
+  it("should reject unknown action providers", () => {
+    expect(() => createCliActionProviders({ actionProviders: ["uniswap"] })).toThrow(
+      'Unknown action provider "uniswap"',
+    );
+  });
+});
+
+describe("createCliWalletProvider", () => {
+  it("should require the data of a CDP wallet instead of creating one", async () => {
+    await expect(
+      createCliWalletProvider({ wallet: { networkId: "base-sepolia" } }),
+    ).rejects.toThrow("A wallet is required");
+  });
+
+  it("should read the chain from the configured RPC", async () => {
+    const fetchSpy = jest
+      .spyOn(global, "fetch")
+      .mockImplementation(
+        async () => new Response(JSON.stringify({ jsonrpc: "2.0", id: 0, result: "0x2a" })),
+      );
+
+    try {
+      const walletProvider = await createCliWalletProvider({
+        wallet: {
+          networkId: "base-sepolia",
+          privateKey: generatePrivateKey(),
+          rpcUrl: "https://rpc.example.com/",
+        },
+      });
+
+      await expect(walletProvider.getBalance()).resolves.toBe(BigInt(42));
+      expect(fetchSpy).toHaveBeenCalledWith("https://rpc.example.com/", expect.anything());
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
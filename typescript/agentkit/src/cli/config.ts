@@ -0,0 +1,261 @@
+import { readFileSync } from "fs";
+import { createWalletClient, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { AgentKit } from "../agentkit";
+import {
+  ActionProvider,
+  AlchemyTokenPricesActionProviderConfig,
+  FarcasterActionProviderConfig,
+  PythActionProviderConfig,
+  TwitterActionProviderConfig,
+  alchemyTokenPricesActionProvider,
+  basenameActionProvider,
+  cdpApiActionProvider,
+  cdpWalletActionProvider,
+  erc20ActionProvider,
+  erc721ActionProvider,
+  farcasterActionProvider,
+  moonwellActionProvider,
+  morphoActionProvider,
+  pythActionProvider,
+  twitterActionProvider,
+  walletActionProvider,
+  wethActionProvider,
+} from "../action-providers";
+import { wowActionProvider } from "../action-providers/wow";
+import { NETWORK_ID_TO_VIEM_CHAIN } from "../network/network";
+import {
+  CdpProviderConfig,
+  CdpWalletProvider,
+  ViemWalletProvider,
+  WalletProvider,
+} from "../wallet-providers";
+
+/**
+ * The wallet the command-line tool runs actions with.
+ */
+export interface CliWalletConfig {
+  /**
+   * The wallet provider. Defaults to "viem" when a private key is configured, "cdp" otherwise.
+   */
+  type?: "cdp" | "viem";
+
+  /**
+   * The ID of the network of the wallet. Defaults to "base-sepolia".
+   */
+  networkId?: string;
+
+  /**
+   * The private key of a viem wallet.
+   */
+  privateKey?: `0x${string}`;
+
+  /**
+   * The RPC URL of a viem wallet. Defaults to the public RPC of the network.
+   */
+  rpcUrl?: string;
+
+  /**
+   * The exported data of a CDP wallet, as JSON. Required for CDP wallets.
+   */
+  cdpWalletData?: string;
+
+  /**
+   * Simulates transactions instead of broadcasting them.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * An action provider of the command-line tool, by name or with its configuration.
+ */
+export type CliActionProviderConfig = string | { name: string; config?: Record<string, unknown> };
+
+/**
+ * The configuration of the AgentKit instance of the command-line tool.
+ */
+export interface CliConfig {
+  /**
+   * The wallet the actions run with.
+   */
+  wallet?: CliWalletConfig;
+
+  /**
+   * The action providers, by name. Defaults to ["wallet"].
+   */
+  actionProviders?: CliActionProviderConfig[];
+
+  /**
+   * The default timeout of action invocations in milliseconds.
+   */
+  actionTimeoutMs?: number;
+
+  /**
+   * The CDP API key name.
+   */
+  cdpApiKeyName?: string;
+
+  /**
+   * The CDP API key private key.
+   */
+  cdpApiKeyPrivateKey?: string;
+}
+
+/**
+ * Creates an action provider of the command-line tool from its configuration in the
+ * configuration file, which is passed to the action provider as is.
+ */
+export type CliActionProviderFactory = (
+  config: Record<string, unknown>,
+  cliConfig: CliConfig,
+) => ActionProvider<WalletProvider>;
+
+/**
+ * The action providers the command-line tool can create, by name.
+ */
+export const CLI_ACTION_PROVIDERS: Record<string, CliActionProviderFactory> = {
+  alchemyTokenPrices: config =>
+    alchemyTokenPricesActionProvider(config as AlchemyTokenPricesActionProviderConfig),
+  basename: () => basenameActionProvider(),
+  cdpApi: (config, { cdpApiKeyName, cdpApiKeyPrivateKey }) =>
+    cdpApiActionProvider({
+      apiKeyName: cdpApiKeyName,
+      apiKeyPrivateKey: cdpApiKeyPrivateKey,
+      ...(config as CdpProviderConfig),
+    }),
+  cdpWallet: (config, { cdpApiKeyName, cdpApiKeyPrivateKey }) =>
+    cdpWalletActionProvider({
+      apiKeyName: cdpApiKeyName,
+      apiKeyPrivateKey: cdpApiKeyPrivateKey,
+      ...(config as CdpProviderConfig),
+    }),
+  erc20: () => erc20ActionProvider(),
+  erc721: () => erc721ActionProvider(),
+  farcaster: config => farcasterActionProvider(config as FarcasterActionProviderConfig),
+  moonwell: () => moonwellActionProvider(),
+  morpho: () => morphoActionProvider(),
+  pyth: config => pythActionProvider(config as PythActionProviderConfig),
+  twitter: config => twitterActionProvider(config as TwitterActionProviderConfig),
+  wallet: () => walletActionProvider(),
+  weth: () => wethActionProvider(),
+  wow: () => wowActionProvider(),
+};
+
+/**
+ * Reads the configuration of the command-line tool from a JSON file and environment variables.
+ * Values of the file take precedence over the variables.
+ *
+ * The variables are NETWORK_ID, PRIVATE_KEY, RPC_URL, CDP_WALLET_DATA, AGENTKIT_DRY_RUN,
+ * AGENTKIT_ACTION_PROVIDERS (a comma-separated list of names), CDP_API_KEY_NAME and
+ * CDP_API_KEY_PRIVATE_KEY.
+ *
+ * @param path - The path of the JSON file, if any.
+ * @param env - The environment variables.
+ * @returns The configuration.
+ */
+export function readCliConfig(path?: string, env: NodeJS.ProcessEnv = process.env): CliConfig {
+  const file: CliConfig = path ? JSON.parse(readFileSync(path, "utf8")) : {};
+
+  const wallet: CliWalletConfig = {
+    ...(env.NETWORK_ID && { networkId: env.NETWORK_ID }),
+    ...(env.PRIVATE_KEY && { privateKey: env.PRIVATE_KEY as `0x${string}` }),
+    ...(env.RPC_URL && { rpcUrl: env.RPC_URL }),
+    ...(env.CDP_WALLET_DATA && { cdpWalletData: env.CDP_WALLET_DATA }),
+    ...(env.AGENTKIT_DRY_RUN && { dryRun: env.AGENTKIT_DRY_RUN === "true" }),
+    ...file.wallet,
+  };
+
+  return {
+    actionProviders: env.AGENTKIT_ACTION_PROVIDERS?.split(",").map(name => name.trim()),
+    cdpApiKeyName: env.CDP_API_KEY_NAME,
+    cdpApiKeyPrivateKey: env.CDP_API_KEY_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+    ...file,
+    wallet,
+  };
+}
+
+/**
+ * Creates the action providers of a configuration.
+ *
+ * @param config - The configuration.
+ * @returns The action providers.
+ * @throws Error if an action provider is unknown.
+ */
+export function createCliActionProviders(config: CliConfig): ActionProvider[] {
+  return (config.actionProviders ?? ["wallet"]).map(entry => {
+    const { name, config: providerConfig = {} } =
+      typeof entry === "string" ? { name: entry } : entry;
+    const factory = CLI_ACTION_PROVIDERS[name];
+
+    if (!factory) {
+      throw new Error(
+        `Unknown action provider "${name}", expected one of ${Object.keys(CLI_ACTION_PROVIDERS).join(", ")}`,
+      );
+    }
+
+    return factory(providerConfig, config);
+  });
+}
+
+/**
+ * Creates the wallet provider of a configuration.
+ *
+ * @param config - The configuration.
+ * @returns The wallet provider.
+ * @throws Error if the network is not supported by viem wallets, or the wallet is missing.
+ */
+export async function createCliWalletProvider(config: CliConfig): Promise<WalletProvider> {
+  const wallet = config.wallet ?? {};
+  const networkId = wallet.networkId ?? "base-sepolia";
+
+  if ((wallet.type ?? (wallet.privateKey ? "viem" : "cdp")) === "cdp") {
+    // Never create a wallet: it would be lost after the command, along with any funds sent to it
+    if (!wallet.cdpWalletData) {
+      throw new Error(
+        "A wallet is required: configure the data of a CDP wallet (CDP_WALLET_DATA) or a private key (PRIVATE_KEY)",
+      );
+    }
+
+    return CdpWalletProvider.configureWithWallet({
+      apiKeyName: config.cdpApiKeyName,
+      apiKeyPrivateKey: config.cdpApiKeyPrivateKey,
+      cdpWalletData: wallet.cdpWalletData,
+      networkId,
+      dryRun: wallet.dryRun,
+    });
+  }
+
+  const chain = NETWORK_ID_TO_VIEM_CHAIN[networkId];
+  if (!chain) {
+    throw new Error(`Network ${networkId} is not supported by viem wallets`);
+  }
+  if (!wallet.privateKey) {
+    throw new Error("A private key is required for viem wallets");
+  }
+
+  const client = createWalletClient({
+    account: privateKeyToAccount(wallet.privateKey),
+    chain,
+    transport: http(wallet.rpcUrl),
+  });
+
+  // The configured RPC serves the configured network, other networks use their public RPC
+  return new ViemWalletProvider(client, {
+    dryRun: wallet.dryRun,
+    transport: target => http(target.id === chain.id ? wallet.rpcUrl : undefined),
+  });
+}
+
+/**
+ * Creates the AgentKit instance of a configuration.
+ *
+ * @param config - The configuration.
+ * @returns The AgentKit instance.
+ */
+export async function createCliAgentKit(config: CliConfig): Promise<AgentKit> {
+  return AgentKit.from({
+    walletProvider: await createCliWalletProvider(config),
+    actionProviders: createCliActionProviders(config),
+    actionTimeoutMs: config.actionTimeoutMs,
+  });
+}
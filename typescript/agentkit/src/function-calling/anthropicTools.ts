@@ -0,0 +1,144 @@
+import { Action } from "../action-providers/actionProvider";
+import { AbortOptions } from "../action-providers/actionAbort";
+import { formatActionResult } from "../action-providers/actionResult";
+import { JsonSchema, toJsonSchema } from "../manifest";
+import { dispatchToolCall } from "./toolCallDispatch";
+
+/**
+ * A tool definition of the Anthropic Messages API.
+ */
+export interface AnthropicTool {
+  /**
+   * The name of the tool.
+   */
+  name: string;
+
+  /**
+   * The description of the tool.
+   */
+  description: string;
+
+  /**
+   * The JSON Schema of the input of the tool.
+   */
+  input_schema: JsonSchema;
+}
+
+/**
+ * A content block of an Anthropic assistant message calling a tool.
+ */
+export interface AnthropicToolUseBlock {
+  /**
+   * The type of the content block.
+   */
+  type: "tool_use";
+
+  /**
+   * The ID of the tool use.
+   */
+  id: string;
+
+  /**
+   * The name of the called tool.
+   */
+  name: string;
+
+  /**
+   * The input of the tool.
+   */
+  input: unknown;
+}
+
+/**
+ * A content block answering an Anthropic tool use.
+ */
+export interface AnthropicToolResultBlock {
+  /**
+   * The type of the content block.
+   */
+  type: "tool_result";
+
+  /**
+   * The ID of the answered tool use.
+   */
+  tool_use_id: string;
+
+  /**
+   * The result of the tool use.
+   */
+  content: string;
+
+  /**
+   * Whether the tool use failed.
+   */
+  is_error?: boolean;
+}
+
+/**
+ * A user message answering the tool uses of an Anthropic assistant message.
+ */
+export interface AnthropicToolResultMessage {
+  /**
+   * The role of the message.
+   */
+  role: "user";
+
+  /**
+   * The results of the tool uses.
+   */
+  content: AnthropicToolResultBlock[];
+}
+
+/**
+ * Converts actions into tool definitions of the Anthropic Messages API.
+ *
+ * @param actions - The actions, e.g. from `agentKit.getActions()`.
+ * @returns The `tools` of a message request.
+ */
+export function toAnthropicTools(actions: Action[]): AnthropicTool[] {
+  return actions.map(action => ({
+    name: action.name,
+    description: action.description,
+    input_schema: toJsonSchema(action.schema),
+  }));
+}
+
+/**
+ * Invokes the actions called by the tool uses of an Anthropic assistant message, concurrently,
+ * and returns the user message to append to the conversation. Invalid and failed calls are
+ * answered with their error message and flagged as errors, so the model can correct them.
+ *
+ * Parallel tool uses run at the same time, so tool uses depending on the effects of one another,
+ * e.g. an approval and a deposit, may run out of order. Disable parallel tool use of the model for
+ * actions that must run in sequence.
+ *
+ * @param actions - The actions offered to the model.
+ * @param content - The content of the assistant message. Blocks other than tool uses are ignored.
+ * @param options - Options cancelling the invocations.
+ * @returns The user message holding one tool result per tool use, in the same order.
+ */
+export async function handleAnthropicToolUses(
+  actions: Action[],
+  content: Array<AnthropicToolUseBlock | { type: string }>,
+  options: AbortOptions = {},
+): Promise<AnthropicToolResultMessage> {
+  const toolUses = content.filter(
+    (block): block is AnthropicToolUseBlock => block.type === "tool_use",
+  );
+
+  return {
+    role: "user",
+    content: await Promise.all(
+      toolUses.map(async toolUse => {
+        const result = await dispatchToolCall(actions, toolUse.name, toolUse.input, options);
+
+        return {
+          type: "tool_result" as const,
+          tool_use_id: toolUse.id,
+          content: formatActionResult(result),
+          ...(result.status === "error" && { is_error: true }),
+        };
+      }),
+    ),
+  };
+}
@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { AgentKit } from "../agentkit";
+import { Action, customActionProvider } from "../action-providers";
+import { handleOpenAIToolCalls, toOpenAITools } from "./openaiTools";
+import { handleAnthropicToolUses, toAnthropicTools } from "./anthropicTools";
+import { dispatchToolCall } from "./toolCallDispatch";
+import { mockWalletProvider } from "../tests/mockWalletProvider";
+
+jest.mock("../analytics", () => ({
+  sendAnalyticsEvent: jest.fn(),
+  ensureAnalyticsConfigured: jest.fn(),
+}));
+
+const GreetSchema = z.object({ name: z.string().describe("The name to greet") });
+
+const GREET_PARAMETERS = {
+  type: "object",
+  properties: { name: { type: "string", description: "The name to greet" } },
+  required: ["name"],
+  additionalProperties: false,
+};
+
+describe("function calling", () => {
+  let actions: Action[];
+
+  beforeEach(async () => {
+    const agentKit = await AgentKit.from({
+      walletProvider: mockWalletProvider(),
+      actionProviders: [
+        customActionProvider({
+          name: "greet",
+          description: "Greets someone",
+          schema: GreetSchema,
+          invoke: async (args: z.infer<typeof GreetSchema>) => `Hello, ${args.name}!`,
+        }),
+      ],
+    });
+    actions = agentKit.getActions();
+  });
+
+  describe("dispatchToolCall", () => {
+    it("should answer actions throwing errors with their message", async () => {
+      const action = {
+        ...actions[0],
+        invoke: jest.fn().mockRejectedValue(new Error("RPC unavailable")),
+      };
+
+      const result = await dispatchToolCall([action], action.name, { name: "Ada" });
+
+      expect(result.error?.code).toBe("UNKNOWN");
+      expect(result.message).toBe(`Error invoking ${action.name}: Error: RPC unavailable`);
+    });
+  });
+
+  describe("OpenAI", () => {
+    it("should convert actions to tools", () => {
+      expect(toOpenAITools(actions)).toEqual([
+        {
+          type: "function",
+          function: {
+            name: "CustomActionProvider_greet",
+            description: "Greets someone",
+            parameters: GREET_PARAMETERS,
+          },
+        },
+      ]);
+    });
+
+    it("should answer each tool call with a tool message", async () => {
+      const messages = await handleOpenAIToolCalls(actions, [
+        {
+          id: "call-1",
+          type: "function",
+          function: { name: "CustomActionProvider_greet", arguments: '{"name":"Ada"}' },
+        },
+        {
+          id: "call-2",
+          type: "function",
+          function: { name: "CustomActionProvider_greet", arguments: '{"name":' },
+        },
+        {
+          id: "call-3",
+          type: "function",
+          function: { name: "CustomActionProvider_greet", arguments: '{"name":1}' },
+        },
+        { id: "call-4", type: "function", function: { name: "transfer", arguments: "{}" } },
+      ]);
+
+      expect(messages).toEqual([
+        { role: "tool", tool_call_id: "call-1", content: "Hello, Ada!" },
+        { role: "tool", tool_call_id: "call-2", content: "The arguments are not valid JSON" },
+        { role: "tool", tool_call_id: "call-3", content: expect.stringContaining("name") },
+        { role: "tool", tool_call_id: "call-4", content: "Unknown tool transfer" },
+      ]);
+    });
+  });
+
+  describe("Anthropic", () => {
+    it("should convert actions to tools", () => {
+      expect(toAnthropicTools(actions)).toEqual([
+        {
+          name: "CustomActionProvider_greet",
+          description: "Greets someone",
+          input_schema: GREET_PARAMETERS,
+        },
+      ]);
+    });
+
+    it("should answer the tool uses with tool results, flagging errors", async () => {
+      const message = await handleAnthropicToolUses(actions, [
+        { type: "text", text: "Let me greet them." },
+        {
+          type: "tool_use",
+          id: "toolu-1",
+          name: "CustomActionProvider_greet",
+          input: { name: "Ada" },
+        },
+        { type: "tool_use", id: "toolu-2", name: "CustomActionProvider_greet", input: {} },
+      ] as Parameters<typeof handleAnthropicToolUses>[1]);
+
+      expect(message).toEqual({
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "toolu-1", content: "Hello, Ada!" },
+          {
+            type: "tool_result",
+            tool_use_id: "toolu-2",
+            content: expect.stringContaining("name"),
+            is_error: true,
+          },
+        ],
+      });
+    });
+  });
+});
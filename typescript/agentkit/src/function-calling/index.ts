@@ -0,0 +1,3 @@
+export * from "./toolCallDispatch";
+export * from "./openaiTools";
+export * from "./anthropicTools";
@@ -0,0 +1,135 @@
+import { Action } from "../action-providers/actionProvider";
+import { AbortOptions } from "../action-providers/actionAbort";
+import { ActionResult, actionError, formatActionResult } from "../action-providers/actionResult";
+import { JsonSchema, toJsonSchema } from "../manifest";
+import { dispatchToolCall } from "./toolCallDispatch";
+
+/**
+ * A tool definition of the OpenAI Chat Completions API.
+ */
+export interface OpenAITool {
+  /**
+   * The type of the tool.
+   */
+  type: "function";
+
+  /**
+   * The function the model can call.
+   */
+  function: {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+  };
+}
+
+/**
+ * A tool call of an OpenAI assistant message.
+ */
+export interface OpenAIToolCall {
+  /**
+   * The ID of the tool call.
+   */
+  id: string;
+
+  /**
+   * The type of the tool call.
+   */
+  type?: "function";
+
+  /**
+   * The called function, with its arguments as a JSON string.
+   */
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * A tool message answering an OpenAI tool call.
+ */
+export interface OpenAIToolMessage {
+  /**
+   * The role of the message.
+   */
+  role: "tool";
+
+  /**
+   * The ID of the answered tool call.
+   */
+  tool_call_id: string;
+
+  /**
+   * The result of the tool call.
+   */
+  content: string;
+}
+
+/**
+ * Converts actions into tool definitions of the OpenAI Chat Completions API.
+ *
+ * @param actions - The actions, e.g. from `agentKit.getActions()`.
+ * @returns The `tools` of a chat completion request.
+ */
+export function toOpenAITools(actions: Action[]): OpenAITool[] {
+  return actions.map(action => ({
+    type: "function",
+    function: {
+      name: action.name,
+      description: action.description,
+      parameters: toJsonSchema(action.schema),
+    },
+  }));
+}
+
+/**
+ * Invokes the actions called by an OpenAI assistant message, concurrently, and returns the tool
+ * messages to append to the conversation. Invalid and failed calls are answered with their error
+ * message, so the model can correct them.
+ *
+ * Parallel tool calls run at the same time, so calls depending on the effects of one another,
+ * e.g. an approval and a deposit, may run out of order. Disable parallel tool calls of the model
+ * for actions that must run in sequence.
+ *
+ * @param actions - The actions offered to the model.
+ * @param toolCalls - The `tool_calls` of the assistant message.
+ * @param options - Options cancelling the invocations.
+ * @returns One tool message per tool call, in the same order.
+ */
+export async function handleOpenAIToolCalls(
+  actions: Action[],
+  toolCalls: OpenAIToolCall[],
+  options: AbortOptions = {},
+): Promise<OpenAIToolMessage[]> {
+  return Promise.all(
+    toolCalls.map(async toolCall => ({
+      role: "tool" as const,
+      tool_call_id: toolCall.id,
+      content: formatActionResult(await invokeToolCall(actions, toolCall, options)),
+    })),
+  );
+}
+
+/**
+ * Invokes the action called by an OpenAI tool call.
+ *
+ * @param actions - The actions offered to the model.
+ * @param toolCall - The tool call.
+ * @param options - Options cancelling the invocation.
+ * @returns The result of the action, or an INVALID_INPUT error if the arguments are not JSON.
+ */
+async function invokeToolCall(
+  actions: Action[],
+  toolCall: OpenAIToolCall,
+  options: AbortOptions,
+): Promise<ActionResult> {
+  let args: unknown;
+  try {
+    args = JSON.parse(toolCall.function.arguments || "{}");
+  } catch (error) {
+    return actionError("The arguments are not valid JSON", "INVALID_INPUT", error);
+  }
+
+  return dispatchToolCall(actions, toolCall.function.name, args, options);
+}
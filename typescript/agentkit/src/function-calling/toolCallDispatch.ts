@@ -0,0 +1,31 @@
+import { Action } from "../action-providers/actionProvider";
+import { AbortOptions } from "../action-providers/actionAbort";
+import { ActionResult, actionError } from "../action-providers/actionResult";
+
+/**
+ * Invokes the action called by a model. Failures are returned as action results rather than
+ * thrown, so that they can be sent back to the model as tool results.
+ *
+ * @param actions - The actions offered to the model.
+ * @param name - The name of the called tool.
+ * @param args - The arguments of the call, validated against the schema of the action.
+ * @param options - Options cancelling the invocation.
+ * @returns The result of the action, or a NOT_FOUND error if no action has the name.
+ */
+export async function dispatchToolCall(
+  actions: Action[],
+  name: string,
+  args: unknown,
+  options: AbortOptions = {},
+): Promise<ActionResult> {
+  const action = actions.find(candidate => candidate.name === name);
+  if (!action) {
+    return actionError(`Unknown tool ${name}`, "NOT_FOUND");
+  }
+
+  try {
+    return await action.invoke(args, options);
+  } catch (error) {
+    return actionError(`Error invoking ${name}: ${error}`, "UNKNOWN", error);
+  }
+}
@@ -1,4 +1,16 @@
 export * from "./agentkit";
+export * from "./actionConfiguration";
+export * from "./actionRegistry";
+export * from "./networkRouting";
+export * from "./manifest";
+export * from "./server";
+export * from "./function-calling";
 export * from "./wallet-providers";
 export * from "./action-providers";
 export * from "./network";
+export * from "./middleware";
+export * from "./policy";
+export * from "./approval";
+export * from "./audit";
+export * from "./analytics";
+export * from "./telemetry";
@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { Action, actionSuccess } from "./action-providers";
+import { WalletProvider } from "./wallet-providers";
+import { MANIFEST_VERSION, createManifest, toOpenApiDocument } from "./manifest";
+import { version } from "../package.json";
+
+const wallet = (networkId: string) =>
+  ({
+    getName: jest.fn().mockReturnValue("viem_wallet_provider"),
+    getAddress: jest.fn().mockReturnValue("0x1234567890123456789012345678901234567890"),
+    getNetwork: jest.fn().mockReturnValue({ protocolFamily: "evm", networkId, chainId: "8453" }),
+  }) as unknown as WalletProvider;
+
+const getPrice: Action = {
+  name: "PythActionProvider_fetch_price",
+  provider: "pyth",
+  description: "\n    Fetch the price of a token\n    from Pyth\n    ",
+  schema: z.object({ priceFeedID: z.string().describe("The price feed ID") }).strict(),
+  kind: "read",
+  category: "market-data",
+  tags: [],
+  risk: "low",
+  examples: [{ description: "Get the price of BTC", args: { priceFeedID: "0xabc" } }],
+  outputSchema: z.object({ price: z.string() }),
+  invoke: async () => actionSuccess("1"),
+};
+
+const transfer: Action = {
+  name: "transfer",
+  description: "Transfers tokens",
+  schema: z.object({ to: z.string(), amount: z.number().default(1) }),
+  networks: ["base-mainnet", "optimism-mainnet"],
+  invoke: async () => actionSuccess("done"),
+};
+
+describe("createManifest", () => {
+  it("should describe actions with their metadata and JSON Schemas", () => {
+    const manifest = createManifest([getPrice], [wallet("base-mainnet")]);
+
+    expect(manifest.manifestVersion).toBe(MANIFEST_VERSION);
+    expect(manifest.agentkitVersion).toBe(version);
+    expect(manifest.wallets).toEqual([
+      {
+        provider: "viem_wallet_provider",
+        address: "0x1234567890123456789012345678901234567890",
+        protocolFamily: "evm",
+        networkId: "base-mainnet",
+        chainId: "8453",
+      },
+    ]);
+    expect(manifest.actions).toEqual([
+      {
+        name: "PythActionProvider_fetch_price",
+        description: "Fetch the price of a token\n    from Pyth",
+        provider: "pyth",
+        kind: "read",
+        category: "market-data",
+        tags: [],
+        risk: "low",
+        networks: ["base-mainnet"],
+        inputSchema: {
+          type: "object",
+          properties: { priceFeedID: { type: "string", description: "The price feed ID" } },
+          required: ["priceFeedID"],
+          additionalProperties: false,
+        },
+        outputSchema: {
+          type: "object",
+          properties: { price: { type: "string" } },
+          required: ["price"],
+          additionalProperties: false,
+        },
+        examples: [{ description: "Get the price of BTC", args: { priceFeedID: "0xabc" } }],
+      },
+    ]);
+  });
+
+  it("should default the metadata of actions that do not declare it", () => {
+    const [entry] = createManifest(
+      [transfer],
+      [wallet("base-mainnet"), wallet("optimism-mainnet")],
+    ).actions;
+
+    expect(entry).toMatchObject({
+      kind: "write",
+      risk: "high",
+      tags: [],
+      examples: [],
+      networks: ["base-mainnet", "optimism-mainnet"],
+    });
+    expect(entry.provider).toBeUndefined();
+    expect(entry.outputSchema).toBeUndefined();
+  });
+});
+
+describe("toOpenApiDocument", () => {
+  it("should create one operation per action", () => {
+    const manifest = createManifest([getPrice, transfer], [wallet("base-mainnet")]);
+
+    const document = toOpenApiDocument(manifest, { serverUrl: "https://agent.example.com" });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const paths = document.paths as Record<string, { post: Record<string, any> }>;
+
+    expect(document).toMatchObject({
+      openapi: "3.1.0",
+      info: { title: "AgentKit actions", version },
+      servers: [{ url: "https://agent.example.com" }],
+    });
+    expect(Object.keys(paths)).toEqual([
+      "/actions/PythActionProvider_fetch_price",
+      "/actions/transfer",
+    ]);
+
+    const operation = paths["/actions/PythActionProvider_fetch_price"].post;
+    expect(operation.operationId).toBe("PythActionProvider_fetch_price");
+    expect(operation.summary).toBe("Fetch the price of a token");
+    expect(operation.tags).toEqual(["market-data"]);
+    expect(operation.requestBody.content["application/json"]).toEqual({
+      schema: manifest.actions[0].inputSchema,
+      examples: { example1: { summary: "Get the price of BTC", value: { priceFeedID: "0xabc" } } },
+    });
+    expect(operation.responses["200"].content["application/json"].schema.then).toEqual({
+      properties: { data: manifest.actions[0].outputSchema },
+    });
+  });
+});
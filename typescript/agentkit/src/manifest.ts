@@ -0,0 +1,294 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { version } from "../package.json";
+import {
+  Action,
+  ActionExample,
+  ActionKind,
+  ActionRiskLevel,
+  DEFAULT_ACTION_KIND,
+  DEFAULT_ACTION_RISK,
+} from "./action-providers";
+import { Network } from "./network";
+import { WalletProvider } from "./wallet-providers";
+
+/**
+ * The version of the manifest format. It changes when fields are removed or change meaning.
+ */
+export const MANIFEST_VERSION = 1;
+
+/**
+ * A JSON Schema document.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * The description of an action in a manifest.
+ */
+export interface ActionManifestEntry {
+  /**
+   * The name of the action, as exposed to the agent.
+   */
+  name: string;
+
+  /**
+   * The description of the action.
+   */
+  description: string;
+
+  /**
+   * The name of the action provider of the action, if known.
+   */
+  provider?: string;
+
+  /**
+   * The kind of effect the action has.
+   */
+  kind: ActionKind;
+
+  /**
+   * The category of the action, if any.
+   */
+  category?: string;
+
+  /**
+   * Free-form labels of the action.
+   */
+  tags: string[];
+
+  /**
+   * How much harm the action can do if invoked by mistake.
+   */
+  risk: ActionRiskLevel;
+
+  /**
+   * The IDs of the networks the action runs on.
+   */
+  networks: string[];
+
+  /**
+   * The JSON Schema of the arguments of the action.
+   */
+  inputSchema: JsonSchema;
+
+  /**
+   * The JSON Schema of the data of successful results of the action, if declared.
+   */
+  outputSchema?: JsonSchema;
+
+  /**
+   * Example invocations of the action.
+   */
+  examples: ActionExample[];
+}
+
+/**
+ * The description of a wallet in a manifest.
+ */
+export interface WalletManifestEntry extends Network {
+  /**
+   * The name of the wallet provider.
+   */
+  provider: string;
+
+  /**
+   * The address of the wallet.
+   */
+  address: string;
+}
+
+/**
+ * A manifest describing the actions of an AgentKit instance, for other services to discover
+ * the capabilities of the agent.
+ */
+export interface ActionManifest {
+  /**
+   * The version of the manifest format.
+   */
+  manifestVersion: typeof MANIFEST_VERSION;
+
+  /**
+   * The version of AgentKit that produced the manifest.
+   */
+  agentkitVersion: string;
+
+  /**
+   * The wallets the actions run with.
+   */
+  wallets: WalletManifestEntry[];
+
+  /**
+   * The actions.
+   */
+  actions: ActionManifestEntry[];
+}
+
+/**
+ * Options for converting a manifest into an OpenAPI document.
+ */
+export interface OpenApiOptions {
+  /**
+   * The title of the API. Defaults to "AgentKit actions".
+   */
+  title?: string;
+
+  /**
+   * The URL of the server exposing the actions, if any.
+   */
+  serverUrl?: string;
+}
+
+/**
+ * Creates the manifest of actions.
+ *
+ * @param actions - The actions, as exposed to the agent.
+ * @param walletProviders - The wallet providers the actions run with.
+ * @returns The manifest.
+ */
+export function createManifest(
+  actions: Action[],
+  walletProviders: WalletProvider[],
+): ActionManifest {
+  const networkIds = walletProviders.map(walletProvider => walletProvider.getNetwork().networkId!);
+
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    agentkitVersion: version,
+    wallets: walletProviders.map(walletProvider => ({
+      provider: walletProvider.getName(),
+      address: walletProvider.getAddress(),
+      ...walletProvider.getNetwork(),
+    })),
+    actions: actions.map(action => ({
+      name: action.name,
+      description: action.description.trim(),
+      ...(action.provider && { provider: action.provider }),
+      kind: action.kind ?? DEFAULT_ACTION_KIND,
+      ...(action.category && { category: action.category }),
+      tags: action.tags ?? [],
+      risk: action.risk ?? DEFAULT_ACTION_RISK[action.kind ?? DEFAULT_ACTION_KIND],
+      // Actions routed between several wallet providers list the networks they run on
+      networks: networkIds.length > 1 ? (action.networks ?? []) : networkIds,
+      inputSchema: toJsonSchema(action.schema),
+      ...(action.outputSchema && { outputSchema: toJsonSchema(action.outputSchema) }),
+      examples: action.examples ?? [],
+    })),
+  };
+}
+
+/**
+ * Converts a manifest into an OpenAPI 3.1 document with one operation per action, invoked with
+ * `POST /actions/{name}` and returning the action result.
+ *
+ * @param manifest - The manifest.
+ * @param options - Options for the OpenAPI document.
+ * @returns The OpenAPI document.
+ */
+export function toOpenApiDocument(
+  manifest: ActionManifest,
+  options: OpenApiOptions = {},
+): Record<string, unknown> {
+  const paths = Object.fromEntries(
+    manifest.actions.map(action => [
+      `/actions/${action.name}`,
+      {
+        post: {
+          operationId: action.name,
+          summary: action.description.split("\n")[0],
+          description: action.description,
+          tags: [action.category ?? action.provider ?? "actions"],
+          "x-agentkit": {
+            provider: action.provider,
+            kind: action.kind,
+            risk: action.risk,
+            networks: action.networks,
+            tags: action.tags,
+          },
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: action.inputSchema,
+                ...(action.examples.length > 0 && {
+                  examples: Object.fromEntries(
+                    action.examples.map((example, index) => [
+                      `example${index + 1}`,
+                      { summary: example.description, value: example.args },
+                    ]),
+                  ),
+                }),
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "The result of the action",
+              content: {
+                "application/json": { schema: actionResultSchema(action.outputSchema) },
+              },
+            },
+            "4XX": {
+              description:
+                "The arguments are invalid, the request is unauthorized or the action is unknown",
+              content: { "application/json": { schema: actionResultSchema() } },
+            },
+          },
+        },
+      },
+    ]),
+  );
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: options.title ?? "AgentKit actions",
+      version: manifest.agentkitVersion,
+      "x-manifest-version": manifest.manifestVersion,
+    },
+    ...(options.serverUrl && { servers: [{ url: options.serverUrl }] }),
+    paths,
+  };
+}
+
+/**
+ * Converts a zod schema into an inline JSON Schema, without references or `$schema` keyword, as
+ * expected by the tool definitions of LLM providers.
+ *
+ * @param schema - The zod schema.
+ * @returns The JSON Schema.
+ */
+export function toJsonSchema(schema: z.ZodSchema): JsonSchema {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: "none" });
+  return jsonSchema;
+}
+
+/**
+ * Gets the JSON Schema of the results of an action.
+ *
+ * @param outputSchema - The JSON Schema of the data of successful results, if declared.
+ * @returns The JSON Schema of the action results.
+ */
+function actionResultSchema(outputSchema?: JsonSchema): JsonSchema {
+  return {
+    type: "object",
+    required: ["status", "message", "data"],
+    properties: {
+      status: { type: "string", enum: ["success", "error"] },
+      message: { type: "string" },
+      data: { type: "object" },
+      error: {
+        type: "object",
+        required: ["code"],
+        properties: {
+          code: { type: "string" },
+          cause: { type: "string" },
+        },
+      },
+    },
+    ...(outputSchema && {
+      if: { properties: { status: { const: "success" } } },
+      then: { properties: { data: outputSchema } },
+    }),
+  };
+}
@@ -0,0 +1,198 @@
+import { z } from "zod";
+import { Action, actionError, actionSuccess } from "../action-providers";
+import { WalletProvider } from "../wallet-providers";
+import { ActionMiddleware, applyActionMiddleware } from "./actionMiddleware";
+
+const MOCK_WALLET = { getAddress: () => "0x123" } as unknown as WalletProvider;
+
+describe("applyActionMiddleware", () => {
+  let mockAction: Action;
+
+  beforeEach(() => {
+    mockAction = {
+      name: "test_action",
+      description: "A test action",
+      schema: z.object({ value: z.string() }),
+      invoke: jest.fn(async args => actionSuccess(`Invoked with ${args.value}`)),
+    };
+  });
+
+  it("should return the action unchanged without middleware", () => {
+    expect(applyActionMiddleware(mockAction, MOCK_WALLET, [])).toBe(mockAction);
+  });
+
+  it("should run before hooks in order and after hooks in reverse order", async () => {
+    const calls: string[] = [];
+    const middleware = (name: string): ActionMiddleware => ({
+      before: () => {
+        calls.push(`before:${name}`);
+      },
+      after: () => {
+        calls.push(`after:${name}`);
+      },
+    });
+
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      middleware("a"),
+      middleware("b"),
+    ]);
+    const result = await action.invoke({ value: "x" });
+
+    expect(result.message).toBe("Invoked with x");
+    expect(calls).toEqual(["before:a", "before:b", "after:b", "after:a"]);
+  });
+
+  it("should pass the invocation context to hooks", async () => {
+    const before = jest.fn();
+    const after = jest.fn();
+
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [{ before, after }]);
+    const result = await action.invoke({ value: "x" });
+
+    const context = {
+      actionName: "test_action",
+      action: mockAction,
+      args: { value: "x" },
+      rawArgs: { value: "x" },
+      walletProvider: MOCK_WALLET,
+    };
+    expect(before).toHaveBeenCalledWith(context);
+    expect(after).toHaveBeenCalledWith(context, result);
+  });
+
+  it("should pass the parsed arguments to hooks and the raw ones to the action", async () => {
+    const TransformSchema = z.object({
+      amount: z.string().transform(Number),
+      unit: z.string().default("ETH"),
+    });
+    mockAction.schema = TransformSchema;
+    const before = jest.fn();
+    const after = jest.fn();
+
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [{ before, after }]);
+    const result = await action.invoke({ amount: "1.5" });
+
+    expect(before).toHaveBeenCalledWith(
+      expect.objectContaining({ args: { amount: 1.5, unit: "ETH" }, rawArgs: { amount: "1.5" } }),
+    );
+    expect(after).toHaveBeenCalledWith(
+      expect.objectContaining({ args: { amount: 1.5, unit: "ETH" } }),
+      result,
+    );
+    expect(mockAction.invoke).toHaveBeenCalledWith({ amount: "1.5" }, undefined);
+  });
+
+  it("should pass invalid arguments to hooks as received", async () => {
+    const before = jest.fn();
+
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [{ before }]);
+    await action.invoke({ value: 1 });
+
+    expect(before).toHaveBeenCalledWith(expect.objectContaining({ args: { value: 1 } }));
+    expect(mockAction.invoke).toHaveBeenCalledWith({ value: 1 }, undefined);
+  });
+
+  it("should let before hooks rewrite the arguments", async () => {
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      {
+        before: context => {
+          context.args = { value: "rewritten" };
+        },
+      },
+    ]);
+
+    const result = await action.invoke({ value: "x" });
+
+    expect(mockAction.invoke).toHaveBeenCalledWith({ value: "rewritten" }, undefined);
+    expect(result.message).toBe("Invoked with rewritten");
+  });
+
+  it("should reject before hooks mutating the parsed arguments in place", async () => {
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      {
+        name: "clamp",
+        before: context => {
+          (context.args as { value: string }).value = "clamped";
+        },
+      },
+    ]);
+
+    const result = await action.invoke({ value: "x" });
+
+    expect(mockAction.invoke).not.toHaveBeenCalled();
+    expect(result.status).toBe("error");
+    expect(result.message).toContain("Error in clamp before hook: TypeError");
+  });
+
+  it("should short-circuit when a before hook returns a result", async () => {
+    const rejected = actionError("Rejected by policy", "INVALID_INPUT");
+    const after = jest.fn();
+
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      { before: () => rejected, after },
+    ]);
+    const result = await action.invoke({ value: "x" });
+
+    expect(mockAction.invoke).not.toHaveBeenCalled();
+    expect(result).toBe(rejected);
+    expect(after).toHaveBeenCalledWith(expect.anything(), rejected);
+  });
+
+  it("should let after hooks rewrite the result", async () => {
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      { after: (_, result) => ({ ...result, message: result.message.toUpperCase() }) },
+    ]);
+
+    const result = await action.invoke({ value: "x" });
+
+    expect(result.message).toBe("INVOKED WITH X");
+  });
+
+  it("should only call onError hooks for failed results", async () => {
+    const onError = jest.fn();
+
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [{ onError }]);
+    await action.invoke({ value: "x" });
+    expect(onError).not.toHaveBeenCalled();
+
+    const failure = actionError("Error: failed", "TRANSACTION_FAILED");
+    mockAction.invoke = jest.fn().mockResolvedValue(failure);
+    const failingAction = applyActionMiddleware(mockAction, MOCK_WALLET, [{ onError }]);
+    const result = await failingAction.invoke({ value: "x" });
+
+    expect(onError).toHaveBeenCalledWith(expect.anything(), failure);
+    expect(result).toBe(failure);
+  });
+
+  it("should let onError hooks recover from failures", async () => {
+    mockAction.invoke = jest.fn().mockResolvedValue(actionError("Error: failed"));
+    const outerOnError = jest.fn();
+
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      { onError: outerOnError },
+      { onError: () => actionSuccess("Recovered") },
+    ]);
+    const result = await action.invoke({ value: "x" });
+
+    expect(result.status).toBe("success");
+    expect(result.message).toBe("Recovered");
+    expect(outerOnError).not.toHaveBeenCalled();
+  });
+
+  it("should convert errors thrown by hooks into failed results", async () => {
+    const action = applyActionMiddleware(mockAction, MOCK_WALLET, [
+      {
+        name: "policy",
+        before: () => {
+          throw new Error("boom");
+        },
+      },
+    ]);
+
+    const result = await action.invoke({ value: "x" });
+
+    expect(mockAction.invoke).not.toHaveBeenCalled();
+    expect(result.status).toBe("error");
+    expect(result.message).toBe("Error in policy before hook: Error: boom");
+  });
+});
@@ -0,0 +1,192 @@
+import { Action, ActionResult, actionError } from "../action-providers";
+import { WalletProvider } from "../wallet-providers";
+
+/**
+ * The context of a single action invocation, shared by all middleware hooks.
+ */
+export interface ActionInvocationContext {
+  /**
+   * The name of the action being invoked.
+   */
+  actionName: string;
+
+  /**
+   * The action being invoked.
+   */
+  action: Action;
+
+  /**
+   * The arguments of the invocation, parsed with the schema of the action so that defaults and
+   * transforms are applied. Invalid arguments are left as received, for the action to reject
+   * them. `before` hooks may replace them, in which case the action is invoked with, and
+   * validates, the replacement.
+   *
+   * Parsed arguments are frozen, as the action is invoked with the arguments as received unless
+   * they are replaced: hooks must assign new arguments, e.g. `context.args = { ...args, amount }`,
+   * rather than mutate them.
+   */
+  args: unknown;
+
+  /**
+   * The arguments the action was invoked with, before parsing.
+   */
+  rawArgs: unknown;
+
+  /**
+   * The wallet provider the action is bound to.
+   */
+  walletProvider: WalletProvider;
+}
+
+/**
+ * The value a middleware hook may return. Returning a result replaces the current one,
+ * returning nothing keeps it.
+ */
+export type ActionMiddlewareHookResult = ActionResult | void | Promise<ActionResult | void>;
+
+/**
+ * ActionMiddleware hooks into every action invocation of an AgentKit instance.
+ *
+ * `before` hooks run in registration order, `after` and `onError` hooks run in reverse order.
+ */
+export interface ActionMiddleware {
+  /**
+   * The name of the middleware, used in error messages.
+   */
+  name?: string;
+
+  /**
+   * Called before the action is invoked. Returning a result skips the action and the
+   * remaining `before` hooks, e.g. to reject an invocation.
+   *
+   * @param context - The invocation context.
+   */
+  before?(context: ActionInvocationContext): ActionMiddlewareHookResult;
+
+  /**
+   * Called with every result, including failures. Returning a result rewrites it.
+   *
+   * @param context - The invocation context.
+   * @param result - The result of the action.
+   */
+  after?(context: ActionInvocationContext, result: ActionResult): ActionMiddlewareHookResult;
+
+  /**
+   * Called when the action failed, before the `after` hooks. Returning a result recovers from
+   * or rewrites the failure.
+   *
+   * @param context - The invocation context.
+   * @param result - The failed result of the action.
+   */
+  onError?(context: ActionInvocationContext, result: ActionResult): ActionMiddlewareHookResult;
+}
+
+/**
+ * Wraps an action so that every invocation runs through the given middleware.
+ *
+ * @param action - The action to wrap.
+ * @param walletProvider - The wallet provider the action is bound to.
+ * @param middleware - The middleware to apply.
+ * @returns The wrapped action.
+ */
+export function applyActionMiddleware(
+  action: Action,
+  walletProvider: WalletProvider,
+  middleware: ActionMiddleware[],
+): Action {
+  if (middleware.length === 0) {
+    return action;
+  }
+
+  return {
+    ...action,
+    invoke: async (args, options) => {
+      const parsedArgs = action.schema.safeParse(args);
+      const context: ActionInvocationContext = {
+        actionName: action.name,
+        action,
+        args: parsedArgs.success ? deepFreeze(parsedArgs.data) : args,
+        rawArgs: args,
+        walletProvider,
+      };
+      const initialArgs = context.args;
+
+      let result: ActionResult | undefined;
+
+      for (const current of middleware) {
+        if (current.before) {
+          result = await runHook(current, "before", () => current.before!(context));
+          if (result) {
+            break;
+          }
+        }
+      }
+
+      if (!result) {
+        /*
+         * Unless a hook replaced them, invoke with the raw arguments: parsing the parsed ones
+         * again would fail or differ for schemas with transforms
+         */
+        result = await action.invoke(context.args === initialArgs ? args : context.args, options);
+      }
+
+      const reversed = [...middleware].reverse();
+
+      for (const current of reversed) {
+        if (current.onError && result.status === "error") {
+          const failure = result;
+          result =
+            (await runHook(current, "onError", () => current.onError!(context, failure))) ?? result;
+        }
+      }
+
+      for (const current of reversed) {
+        if (current.after) {
+          const completed = result;
+          result =
+            (await runHook(current, "after", () => current.after!(context, completed))) ?? result;
+        }
+      }
+
+      return result;
+    },
+  };
+}
+
+/**
+ * Freezes a value and the plain objects and arrays it holds, so that mutating them throws.
+ *
+ * @param value - The value to freeze.
+ * @returns The frozen value.
+ */
+function deepFreeze<T>(value: T): T {
+  if (Array.isArray(value) || Object.getPrototypeOf(value ?? 0) === Object.prototype) {
+    Object.values(value as object).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * Runs a middleware hook, converting thrown errors into failed results.
+ *
+ * @param middleware - The middleware the hook belongs to.
+ * @param hook - The name of the hook.
+ * @param run - The function running the hook.
+ * @returns The result returned by the hook, if any.
+ */
+async function runHook(
+  middleware: ActionMiddleware,
+  hook: keyof ActionMiddleware,
+  run: () => ActionMiddlewareHookResult,
+): Promise<ActionResult | undefined> {
+  try {
+    return (await run()) ?? undefined;
+  } catch (error) {
+    return actionError(
+      `Error in ${middleware.name ?? "action middleware"} ${hook} hook: ${error}`,
+      "UNKNOWN",
+      error,
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { Action, actionSuccess } from "./action-providers";
+import { WalletProvider } from "./wallet-providers";
+import { createRoutedAction, routeActions } from "./networkRouting";
+
+const TransferSchema = z.object({ to: z.string(), amount: z.number() });
+
+const wallet = (networkId: string) =>
+  ({
+    getNetwork: jest.fn().mockReturnValue({ protocolFamily: "evm", networkId }),
+  }) as unknown as WalletProvider;
+
+const transfer = (networkId: string, schema: z.ZodSchema = TransferSchema): Action => ({
+  name: "ERC20ActionProvider_transfer",
+  description: "Transfers tokens",
+  schema,
+  invoke: jest.fn(async args => actionSuccess(`Transferred on ${networkId}`, args)),
+});
+
+const base = wallet("base-mainnet");
+const optimism = wallet("optimism-mainnet");
+
+const bind = (action: Action) => action;
+
+describe("routeActions", () => {
+  it("should expose the actions of a single wallet provider unchanged", () => {
+    const action = transfer("base-mainnet");
+    const [routed] = routeActions([{ walletProvider: base, actions: [action] }], "argument");
+
+    expect(routed.action).toBe(action);
+    expect(createRoutedAction(routed, action.name, bind)).toEqual(action);
+  });
+
+  it("should expose one action per network with variants routing", async () => {
+    const routed = routeActions(
+      [
+        { walletProvider: base, actions: [transfer("base-mainnet")] },
+        { walletProvider: optimism, actions: [transfer("optimism-mainnet")] },
+      ],
+      "variants",
+    );
+
+    const actions = routed.map(r => createRoutedAction(r, r.action.name, bind));
+
+    expect(actions.map(({ name }) => name)).toEqual([
+      "ERC20ActionProvider_transfer_base-mainnet",
+      "ERC20ActionProvider_transfer_optimism-mainnet",
+    ]);
+    expect(actions[1].networks).toEqual(["optimism-mainnet"]);
+    expect((await actions[1].invoke({ to: "0x1", amount: 1 })).message).toBe(
+      "Transferred on optimism-mainnet",
+    );
+  });
+
+  it("should route invocations by network argument", async () => {
+    const baseTransfer = transfer("base-mainnet");
+    const optimismTransfer = transfer("optimism-mainnet");
+    const routed = routeActions(
+      [
+        { walletProvider: base, actions: [baseTransfer] },
+        { walletProvider: optimism, actions: [optimismTransfer] },
+      ],
+      "argument",
+    );
+    const bound: WalletProvider[] = [];
+
+    expect(routed).toHaveLength(1);
+
+    const action = createRoutedAction(routed[0], "transfer", (binding, walletProvider) => {
+      bound.push(walletProvider);
+      return binding;
+    });
+    const result = await action.invoke({ to: "0x1", amount: 1, network: "optimism-mainnet" });
+
+    expect(action.name).toBe("transfer");
+    expect(action.networks).toEqual(["base-mainnet", "optimism-mainnet"]);
+    expect(bound).toEqual([base, optimism]);
+    expect(result.message).toBe("Transferred on optimism-mainnet");
+    expect(optimismTransfer.invoke).toHaveBeenCalledWith({ to: "0x1", amount: 1 }, undefined);
+    expect(baseTransfer.invoke).not.toHaveBeenCalled();
+  });
+
+  it("should reject invocations on unknown networks", async () => {
+    const routed = routeActions(
+      [
+        { walletProvider: base, actions: [transfer("base-mainnet")] },
+        { walletProvider: optimism, actions: [transfer("optimism-mainnet")] },
+      ],
+      "argument",
+    );
+    const action = createRoutedAction(routed[0], "transfer", bind);
+
+    const result = await action.invoke({ to: "0x1", amount: 1, network: "arbitrum-mainnet" });
+
+    expect(result.status).toBe("error");
+    expect(result.error?.code).toBe("INVALID_INPUT");
+    expect(result.data.validationErrors?.[0].path).toBe("network");
+  });
+
+  it("should use another argument name if the action already takes a network", async () => {
+    const schema = z.object({ address: z.string(), network: z.string() });
+    const routed = routeActions(
+      [
+        { walletProvider: base, actions: [transfer("base-mainnet", schema)] },
+        { walletProvider: optimism, actions: [transfer("optimism-mainnet", schema)] },
+      ],
+      "argument",
+    );
+    const action = createRoutedAction(routed[0], "reputation", bind);
+
+    const result = await action.invoke({
+      address: "0x1",
+      network: "ethereum-mainnet",
+      walletNetwork: "base-mainnet",
+    });
+
+    expect(result.message).toBe("Transferred on base-mainnet");
+    expect(result.data).toEqual({ address: "0x1", network: "ethereum-mainnet" });
+  });
+});
@@ -0,0 +1,218 @@
+import { z } from "zod";
+import { Action, actionValidationError } from "./action-providers";
+import { WalletProvider } from "./wallet-providers";
+
+/**
+ * How actions are exposed when AgentKit holds wallet providers on several networks:
+ * - `argument`: one action per name, taking a `network` argument selecting the wallet provider.
+ * - `variants`: one action per name and network, suffixed with the network ID, e.g.
+ *   "ERC20ActionProvider_transfer_base-mainnet".
+ */
+export type NetworkRouting = "argument" | "variants";
+
+/**
+ * The name of the argument selecting the network of routed actions.
+ */
+export const NETWORK_ARGUMENT = "network";
+
+/**
+ * The name of the argument selecting the network of routed actions whose schema already has a
+ * `network` argument.
+ */
+export const WALLET_NETWORK_ARGUMENT = "walletNetwork";
+
+/**
+ * An action bound to the wallet provider of a network.
+ */
+export interface ActionBinding {
+  /**
+   * The network ID of the wallet provider.
+   */
+  networkId: string;
+
+  /**
+   * The wallet provider the action is bound to.
+   */
+  walletProvider: WalletProvider;
+
+  /**
+   * The action bound to the wallet provider.
+   */
+  action: Action;
+}
+
+/**
+ * An action exposed by AgentKit and the bindings its invocations are routed to.
+ */
+export interface RoutedAction {
+  /**
+   * The action as exposed to the agent.
+   */
+  action: Action;
+
+  /**
+   * The bindings invocations are routed to.
+   */
+  bindings: ActionBinding[];
+
+  /**
+   * The name of the argument selecting the binding, if the action takes one.
+   */
+  networkArgument?: string;
+}
+
+/**
+ * Groups the actions of several wallet providers into the actions exposed to the agent.
+ *
+ * @param walletActions - The actions bound to each wallet provider.
+ * @param routing - How actions are exposed when there are several wallet providers.
+ * @returns The routed actions.
+ */
+export function routeActions(
+  walletActions: { walletProvider: WalletProvider; actions: Action[] }[],
+  routing: NetworkRouting,
+): RoutedAction[] {
+  const bindings = walletActions.flatMap(({ walletProvider, actions }) =>
+    actions.map(action => ({
+      networkId: walletProvider.getNetwork().networkId ?? "",
+      walletProvider,
+      action,
+    })),
+  );
+
+  if (walletActions.length <= 1 || routing === "variants") {
+    return bindings.map(binding => {
+      const action =
+        walletActions.length <= 1
+          ? binding.action
+          : {
+              ...binding.action,
+              name: `${binding.action.name}_${binding.networkId}`,
+              description: `${binding.action.description}\nRuns on ${binding.networkId}.`,
+              networks: [binding.networkId],
+            };
+
+      return { action, bindings: [{ ...binding, action }] };
+    });
+  }
+
+  const groups = new Map<string, ActionBinding[]>();
+  for (const binding of bindings) {
+    groups.set(binding.action.name, [...(groups.get(binding.action.name) ?? []), binding]);
+  }
+
+  return [...groups.values()].map(group => {
+    const networkArgument = hasArgument(group[0].action.schema, NETWORK_ARGUMENT)
+      ? WALLET_NETWORK_ARGUMENT
+      : NETWORK_ARGUMENT;
+    const networks = group.map(({ networkId }) => networkId);
+    const schema = withNetworkArgument(group[0].action.schema, networkArgument, networks);
+
+    return {
+      action: { ...group[0].action, schema, networks },
+      bindings: group.map(binding => ({
+        ...binding,
+        action: {
+          ...binding.action,
+          schema,
+          invoke: (args, options) =>
+            binding.action.invoke(omitArgument(args, networkArgument), options),
+        },
+      })),
+      networkArgument,
+    };
+  });
+}
+
+/**
+ * Creates the action exposed to the agent from a routed action.
+ *
+ * @param routed - The routed action.
+ * @param name - The final name of the action.
+ * @param bind - Wraps the action bound to each wallet provider, e.g. with middleware.
+ * @returns The action, routing invocations to the binding of the selected network if it takes a
+ * network argument.
+ */
+export function createRoutedAction(
+  routed: RoutedAction,
+  name: string,
+  bind: (action: Action, walletProvider: WalletProvider) => Action,
+): Action {
+  const bindings = routed.bindings.map(binding => ({
+    ...binding,
+    action: bind({ ...binding.action, name }, binding.walletProvider),
+  }));
+
+  const networkArgument = routed.networkArgument;
+  if (!networkArgument) {
+    return bindings[0].action;
+  }
+
+  return {
+    ...routed.action,
+    name,
+    invoke: async (args, options) => {
+      const parsedArgs = routed.action.schema.safeParse(args);
+      if (!parsedArgs.success) {
+        return actionValidationError(name, parsedArgs.error);
+      }
+
+      const networkId = parsedArgs.data[networkArgument];
+      const binding = bindings.find(candidate => candidate.networkId === networkId)!;
+
+      return binding.action.invoke(args, options);
+    },
+  };
+}
+
+/**
+ * Checks if an object schema has an argument.
+ *
+ * @param schema - The schema.
+ * @param argument - The name of the argument.
+ * @returns True if the schema is an object schema with the argument, false otherwise.
+ */
+function hasArgument(schema: z.ZodSchema, argument: string): boolean {
+  return schema instanceof z.ZodObject && argument in schema.shape;
+}
+
+/**
+ * Adds an argument selecting the network to a schema.
+ *
+ * @param schema - The schema of the action.
+ * @param argument - The name of the argument.
+ * @param networkIds - The network IDs the action is available on.
+ * @returns The schema with the network argument.
+ */
+function withNetworkArgument(
+  schema: z.ZodSchema,
+  argument: string,
+  networkIds: string[],
+): z.ZodSchema {
+  const networkSchema = z
+    .enum(networkIds as [string, ...string[]])
+    .describe("The network to run the action on, selecting the wallet to use");
+
+  if (schema instanceof z.ZodObject) {
+    return schema.extend({ [argument]: networkSchema });
+  }
+
+  return z.object({ [argument]: networkSchema }).and(schema);
+}
+
+/**
+ * Removes an argument from the arguments of an action.
+ *
+ * @param args - The arguments.
+ * @param argument - The name of the argument to remove.
+ * @returns The arguments without the argument.
+ */
+function omitArgument(args: unknown, argument: string): unknown {
+  if (!args || typeof args !== "object") {
+    return args;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { [argument]: _, ...rest } = args as Record<string, unknown>;
+  return rest;
+}
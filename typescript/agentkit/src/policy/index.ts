@@ -0,0 +1,2 @@
+export * from "./spendingLedger";
+export * from "./spendingPolicy";
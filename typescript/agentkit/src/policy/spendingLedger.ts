@@ -0,0 +1,160 @@
+import { promises as fs } from "fs";
+
+/**
+ * The kind of spend made by a transaction. Calls to a contract with calldata that cannot be
+ * decoded are "unknown" spends of the contract, with a zero amount.
+ */
+export type SpendKind = "native" | "transfer" | "approval" | "trade" | "unknown";
+
+/**
+ * A spend made, or about to be made, by the wallet.
+ */
+export interface Spend {
+  /**
+   * The asset spent: "native" for the network's native asset, otherwise the lowercased token
+   * contract address.
+   */
+  asset: string;
+
+  /**
+   * The amount spent, in atomic units (e.g. wei).
+   */
+  amount: bigint;
+
+  /**
+   * The lowercased address receiving the funds, the spender for approvals, or the asset ID
+   * received for trades.
+   */
+  destination: string;
+
+  /**
+   * How the funds are spent.
+   */
+  kind: SpendKind;
+
+  /**
+   * The network ID the spend is made on.
+   */
+  networkId?: string;
+
+  /**
+   * The name of the action making the spend, if made by an action.
+   */
+  actionName?: string;
+}
+
+/**
+ * A spend recorded in a spending ledger.
+ */
+export interface SpendRecord extends Spend {
+  /**
+   * The hash of the transaction making the spend.
+   */
+  transactionHash: string;
+
+  /**
+   * The time the spend was recorded, in milliseconds since the epoch.
+   */
+  timestamp: number;
+}
+
+/**
+ * SpendingLedger persists the spends made by a wallet, so that per-period limits survive
+ * restarts of the agent.
+ */
+export interface SpendingLedger {
+  /**
+   * Gets the spends recorded at or after the given time.
+   *
+   * @param since - The time to get spends from, in milliseconds since the epoch.
+   * @returns The recorded spends.
+   */
+  getSpends(since: number): Promise<SpendRecord[]>;
+
+  /**
+   * Records a spend.
+   *
+   * @param spend - The spend to record.
+   */
+  record(spend: SpendRecord): Promise<void>;
+}
+
+/**
+ * A spending ledger that keeps spends in memory.
+ */
+export class InMemorySpendingLedger implements SpendingLedger {
+  private readonly spends: SpendRecord[] = [];
+
+  /**
+   * Gets the spends recorded at or after the given time.
+   *
+   * @param since - The time to get spends from, in milliseconds since the epoch.
+   * @returns The recorded spends.
+   */
+  async getSpends(since: number): Promise<SpendRecord[]> {
+    return this.spends.filter(spend => spend.timestamp >= since);
+  }
+
+  /**
+   * Records a spend.
+   *
+   * @param spend - The spend to record.
+   */
+  async record(spend: SpendRecord): Promise<void> {
+    this.spends.push(spend);
+  }
+}
+
+/**
+ * A spending ledger that appends spends to a JSON Lines file.
+ */
+export class FileSpendingLedger implements SpendingLedger {
+  private readonly path: string;
+
+  /**
+   * Constructs a new FileSpendingLedger.
+   *
+   * @param path - The path of the ledger file. It is created if it does not exist.
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Gets the spends recorded at or after the given time.
+   *
+   * @param since - The time to get spends from, in milliseconds since the epoch.
+   * @returns The recorded spends.
+   */
+  async getSpends(since: number): Promise<SpendRecord[]> {
+    let contents: string;
+
+    try {
+      contents = await fs.readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return contents
+      .split("\n")
+      .filter(line => line.trim() !== "")
+      .map(line => {
+        const record = JSON.parse(line);
+        return { ...record, amount: BigInt(record.amount) } as SpendRecord;
+      })
+      .filter(spend => spend.timestamp >= since);
+  }
+
+  /**
+   * Records a spend.
+   *
+   * @param spend - The spend to record.
+   */
+  async record(spend: SpendRecord): Promise<void> {
+    const line = JSON.stringify({ ...spend, amount: spend.amount.toString() });
+    await fs.appendFile(this.path, `${line}\n`, "utf8");
+  }
+}
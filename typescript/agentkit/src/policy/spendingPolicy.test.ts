@@ -0,0 +1,249 @@
+import { createWalletClient, encodeFunctionData, erc20Abi, http, parseAbi } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+import { NonceManager, ViemWalletProvider } from "../wallet-providers";
+import { InMemorySpendingLedger, Spend } from "./spendingLedger";
+import {
+  getTransactionSpends,
+  SpendingPolicy,
+  SpendingPolicyViolationError,
+} from "./spendingPolicy";
+
+jest.mock("../analytics", () => ({
+  sendAnalyticsEvent: jest.fn(),
+}));
+
+const TOKEN = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const RECIPIENT = "0x1234567890123456789012345678901234567890";
+const WALLET = "0x9876543210987654321098765432109876543210";
+const PERMIT2 = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+const nativeSpend = (amount: bigint, overrides: Partial<Spend> = {}): Spend => ({
+  asset: "native",
+  amount,
+  destination: RECIPIENT.toLowerCase(),
+  kind: "native",
+  ...overrides,
+});
+
+describe("getTransactionSpends", () => {
+  it("should report the native value of a transaction", () => {
+    expect(getTransactionSpends({ to: RECIPIENT, value: 100n })).toEqual([nativeSpend(100n)]);
+  });
+
+  it("should report ERC20 transfers and approvals", () => {
+    const transfer = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "transfer",
+      args: [RECIPIENT, 5n],
+    });
+    const approve = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [RECIPIENT, 7n],
+    });
+
+    expect(getTransactionSpends({ to: TOKEN, data: transfer })).toEqual([
+      nativeSpend(5n, { asset: TOKEN.toLowerCase(), kind: "transfer" }),
+    ]);
+    expect(getTransactionSpends({ to: TOKEN, data: approve })).toEqual([
+      nativeSpend(7n, { asset: TOKEN.toLowerCase(), kind: "approval" }),
+    ]);
+  });
+
+  it("should report ERC20 transfers from the wallet", () => {
+    const transferFrom = (from: `0x${string}`) =>
+      encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "transferFrom",
+        args: [from, RECIPIENT, 5n],
+      });
+
+    expect(getTransactionSpends({ to: TOKEN, data: transferFrom(WALLET) }, WALLET)).toEqual([
+      nativeSpend(5n, { asset: TOKEN.toLowerCase(), kind: "transfer" }),
+    ]);
+    expect(getTransactionSpends({ to: TOKEN, data: transferFrom(RECIPIENT) }, WALLET)).toEqual([]);
+  });
+
+  it("should report allowance increases as approvals", () => {
+    const data = encodeFunctionData({
+      abi: parseAbi(["function increaseAllowance(address spender, uint256 addedValue)"]),
+      functionName: "increaseAllowance",
+      args: [RECIPIENT, 7n],
+    });
+
+    expect(getTransactionSpends({ to: TOKEN, data })).toEqual([
+      nativeSpend(7n, { asset: TOKEN.toLowerCase(), kind: "approval" }),
+    ]);
+  });
+
+  it("should report Permit2 approvals as approvals of the token", () => {
+    const data = encodeFunctionData({
+      abi: parseAbi([
+        "function approve(address token, address spender, uint160 amount, uint48 expiration)",
+      ]),
+      functionName: "approve",
+      args: [TOKEN, RECIPIENT, 7n, 0],
+    });
+
+    expect(getTransactionSpends({ to: PERMIT2, data })).toEqual([
+      nativeSpend(7n, { asset: TOKEN.toLowerCase(), kind: "approval" }),
+    ]);
+  });
+
+  it("should report calldata that is not a known call as an unknown spend", () => {
+    expect(getTransactionSpends({ to: TOKEN, data: "0xdeadbeef" })).toEqual([
+      nativeSpend(0n, {
+        asset: TOKEN.toLowerCase(),
+        destination: TOKEN.toLowerCase(),
+        kind: "unknown",
+      }),
+    ]);
+  });
+});
+
+describe("SpendingPolicy", () => {
+  it("should reject spends above the per-transaction limit", async () => {
+    const policy = new SpendingPolicy({ limits: [{ asset: "native", maxPerTransaction: 10n }] });
+
+    await expect(policy.check([nativeSpend(10n)])).resolves.toBeUndefined();
+    await expect(policy.check([nativeSpend(11n)])).rejects.toThrow(
+      "exceeds the per-transaction limit of 10",
+    );
+  });
+
+  it("should reject spends bringing the period total above the limit", async () => {
+    const ledger = new InMemorySpendingLedger();
+    const policy = new SpendingPolicy({ limits: [{ maxPerPeriod: 10n }], ledger });
+
+    await policy.record([nativeSpend(6n)], "0xhash");
+
+    await expect(policy.check([nativeSpend(4n)])).resolves.toBeUndefined();
+    await expect(policy.check([nativeSpend(5n)])).rejects.toThrow(
+      "total spent in the last 24h to 11, exceeding the limit of 10",
+    );
+    expect(await ledger.getSpends(0)).toEqual([
+      expect.objectContaining({ amount: 6n, transactionHash: "0xhash" }),
+    ]);
+  });
+
+  it("should apply limits without an asset to each asset separately", async () => {
+    const policy = new SpendingPolicy({ limits: [{ maxPerPeriod: 10n }] });
+
+    await policy.record([nativeSpend(10n)], "0xhash");
+
+    await expect(
+      policy.check([nativeSpend(10n, { asset: TOKEN.toLowerCase(), kind: "transfer" })]),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should ignore spends made before the period", async () => {
+    const now = Date.now();
+    const ledger = new InMemorySpendingLedger();
+    await ledger.record({ ...nativeSpend(10n), transactionHash: "0xold", timestamp: now - 2000 });
+    const policy = new SpendingPolicy({ limits: [{ maxPerPeriod: 10n, periodMs: 1000 }], ledger });
+
+    await expect(policy.check([nativeSpend(10n)])).resolves.toBeUndefined();
+  });
+
+  it("should apply limits only to matching actions", async () => {
+    const policy = new SpendingPolicy({
+      limits: [{ actionName: "WalletActionProvider_native_transfer", maxPerTransaction: 1n }],
+    });
+
+    await expect(policy.check([nativeSpend(5n)])).resolves.toBeUndefined();
+    await expect(
+      policy.check([nativeSpend(5n, { actionName: "WalletActionProvider_native_transfer" })]),
+    ).rejects.toBeInstanceOf(SpendingPolicyViolationError);
+  });
+
+  it("should reject concurrent transfers exceeding the period limit together", async () => {
+    const policy = new SpendingPolicy({ limits: [{ maxPerPeriod: 10n }] });
+
+    /**
+     * Reserves a spend, makes it after a delay and records it, like a wallet provider.
+     *
+     * @param hash - The hash of the transaction making the spend.
+     * @returns A promise resolving once the spend is recorded.
+     */
+    const transfer = async (hash: string) => {
+      const reservation = await policy.reserve([nativeSpend(6n)]);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await reservation.commit(hash);
+    };
+
+    const results = await Promise.allSettled([transfer("0x1"), transfer("0x2")]);
+
+    expect(results.map(result => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
+      SpendingPolicyViolationError,
+    );
+  });
+
+  it("should reject concurrent wallet transactions exceeding the period limit together", async () => {
+    const walletClient = createWalletClient({
+      account: privateKeyToAccount(generatePrivateKey()),
+      chain: baseSepolia,
+      transport: http(),
+    });
+    jest
+      .spyOn(walletClient, "sendTransaction")
+      .mockImplementation(
+        () => new Promise(resolve => setTimeout(() => resolve(`0x${"1".repeat(64)}`), 10)),
+      );
+    const walletProvider = new ViemWalletProvider(walletClient);
+    walletProvider.setNonceManager({
+      send: (_client: unknown, _address: unknown, send: (nonce: number) => Promise<string>) =>
+        send(0),
+    } as unknown as NonceManager);
+    walletProvider.setSpendingPolicy(new SpendingPolicy({ limits: [{ maxPerPeriod: 10n }] }));
+
+    const results = await Promise.allSettled([
+      walletProvider.sendTransaction({ to: RECIPIENT, value: 6n }),
+      walletProvider.sendTransaction({ to: RECIPIENT, value: 6n }),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect(walletClient.sendTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop counting released reservations", async () => {
+    const policy = new SpendingPolicy({ limits: [{ maxPerPeriod: 10n }] });
+
+    const reservation = await policy.reserve([nativeSpend(6n)]);
+    await expect(policy.check([nativeSpend(6n)])).rejects.toThrow("exceeding the limit of 10");
+
+    reservation.release();
+    await expect(policy.reserve([nativeSpend(6n)])).resolves.toBeDefined();
+  });
+
+  it("should reject unknown calls to tokens with a limit", async () => {
+    const unknownCall = nativeSpend(0n, {
+      asset: TOKEN.toLowerCase(),
+      destination: TOKEN.toLowerCase(),
+      kind: "unknown",
+    });
+    const policy = new SpendingPolicy({
+      limits: [{ asset: TOKEN, destination: RECIPIENT, maxPerTransaction: 10n }],
+      allowedDestinations: [RECIPIENT],
+    });
+
+    await expect(policy.check([unknownCall])).rejects.toThrow(
+      `Calling token ${TOKEN.toLowerCase()} with calldata that is not a known transfer or approval cannot be checked against its spending limit.`,
+    );
+    await expect(
+      new SpendingPolicy({ limits: [{ asset: "native", maxPerTransaction: 10n }] }).check([
+        unknownCall,
+      ]),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should reject destinations that are not allowed", async () => {
+    const policy = new SpendingPolicy({ limits: [], allowedDestinations: [RECIPIENT] });
+
+    await expect(policy.check([nativeSpend(1n)])).resolves.toBeUndefined();
+    await expect(
+      policy.check([nativeSpend(1n, { destination: TOKEN.toLowerCase() })]),
+    ).rejects.toThrow(`${TOKEN.toLowerCase()} is not an allowed destination`);
+  });
+});
@@ -0,0 +1,385 @@
+import { decodeFunctionData, erc20Abi, parseAbi, TransactionRequest } from "viem";
+import { InMemorySpendingLedger, Spend, SpendingLedger, SpendRecord } from "./spendingLedger";
+
+/**
+ * The default period of per-period spending limits: one day.
+ */
+export const DEFAULT_SPENDING_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The calls decoded from transaction calldata: ERC20 calls, the allowance extensions of
+ * OpenZeppelin tokens and Permit2 approvals.
+ */
+const SPENDING_ABI = [
+  ...erc20Abi,
+  ...parseAbi([
+    "function increaseAllowance(address spender, uint256 addedValue) returns (bool)",
+    "function decreaseAllowance(address spender, uint256 subtractedValue) returns (bool)",
+    "function approve(address token, address spender, uint160 amount, uint48 expiration)",
+  ]),
+];
+
+/**
+ * A cap on the spends matching its filters.
+ *
+ * Filters that are not set match every spend. Limits without an asset apply to each asset
+ * separately. Amounts are in atomic units of the asset (e.g. wei).
+ */
+export interface SpendingLimit {
+  /**
+   * The asset the limit applies to: "native" or an ERC20 token contract address.
+   */
+  asset?: string;
+
+  /**
+   * The destination address the limit applies to.
+   */
+  destination?: string;
+
+  /**
+   * The name of the action the limit applies to, e.g. "WalletActionProvider_native_transfer".
+   */
+  actionName?: string;
+
+  /**
+   * The network ID the limit applies to.
+   */
+  networkId?: string;
+
+  /**
+   * The maximum amount of a single spend.
+   */
+  maxPerTransaction?: bigint;
+
+  /**
+   * The maximum total amount spent within the period.
+   */
+  maxPerPeriod?: bigint;
+
+  /**
+   * The length of the period in milliseconds. Defaults to one day.
+   */
+  periodMs?: number;
+}
+
+/**
+ * Configuration options for the SpendingPolicy.
+ */
+export interface SpendingPolicyConfig {
+  /**
+   * The limits to enforce.
+   */
+  limits: SpendingLimit[];
+
+  /**
+   * The only addresses funds may be sent to or approved for. All addresses are allowed if not set.
+   */
+  allowedDestinations?: string[];
+
+  /**
+   * The ledger recording spends. Defaults to an in-memory ledger.
+   */
+  ledger?: SpendingLedger;
+}
+
+/**
+ * Error thrown when a spend violates the spending policy.
+ */
+export class SpendingPolicyViolationError extends Error {
+  /**
+   * Constructs a new SpendingPolicyViolationError.
+   *
+   * @param message - The description of the violation.
+   * @param spend - The spend violating the policy.
+   * @param limit - The limit that was exceeded, if any.
+   */
+  constructor(
+    message: string,
+    public readonly spend: Spend,
+    public readonly limit?: SpendingLimit,
+  ) {
+    super(`Spending policy violation: ${message}`);
+    this.name = "SpendingPolicyViolationError";
+  }
+}
+
+/**
+ * Spends that passed the spending policy and count against its limits until they are recorded
+ * or released.
+ */
+export interface SpendingReservation {
+  /**
+   * Records the reserved spends once they were made.
+   *
+   * @param transactionHash - The hash of the transaction that made the spends.
+   */
+  commit(transactionHash: string): Promise<void>;
+
+  /**
+   * Releases the reserved spends, e.g. because the transaction failed or was only simulated.
+   */
+  release(): void;
+}
+
+/**
+ * SpendingPolicy enforces caps on the funds a wallet sends, transfers and approves.
+ */
+export class SpendingPolicy {
+  private readonly limits: SpendingLimit[];
+  private readonly allowedDestinations?: Set<string>;
+  private readonly ledger: SpendingLedger;
+  private readonly pending = new Set<Spend[]>();
+  private lock: Promise<void> = Promise.resolve();
+
+  /**
+   * Constructs a new SpendingPolicy.
+   *
+   * @param config - The configuration options for the SpendingPolicy.
+   */
+  constructor(config: SpendingPolicyConfig) {
+    this.limits = config.limits;
+    this.allowedDestinations = config.allowedDestinations
+      ? new Set(config.allowedDestinations.map(address => address.toLowerCase()))
+      : undefined;
+    this.ledger = config.ledger ?? new InMemorySpendingLedger();
+  }
+
+  /**
+   * Checks spends against the policy and reserves them, so that they count against the
+   * per-period limits while they are being made. Concurrent reservations are checked one at a
+   * time, so they cannot exceed a limit together.
+   *
+   * @param spends - The spends about to be made.
+   * @returns The reservation, to commit once the spends were made or release if they were not.
+   * @throws SpendingPolicyViolationError if a spend violates the policy.
+   */
+  async reserve(spends: Spend[]): Promise<SpendingReservation> {
+    const previous = this.lock;
+    let unlock!: () => void;
+    this.lock = new Promise(resolve => (unlock = resolve));
+
+    try {
+      await previous;
+      await this.check(spends);
+    } finally {
+      unlock();
+    }
+
+    const reserved = [...spends];
+    this.pending.add(reserved);
+
+    return {
+      commit: async transactionHash => {
+        try {
+          await this.record(reserved, transactionHash);
+        } finally {
+          this.pending.delete(reserved);
+        }
+      },
+      release: () => {
+        this.pending.delete(reserved);
+      },
+    };
+  }
+
+  /**
+   * Checks spends against the policy, counting the reserved spends towards per-period limits.
+   *
+   * @param spends - The spends about to be made.
+   * @throws SpendingPolicyViolationError if a spend violates the policy.
+   */
+  async check(spends: Spend[]): Promise<void> {
+    for (const spend of spends) {
+      if (spend.kind === "unknown") {
+        // The destination of an unknown call is not known, so limits of any destination apply
+        const limit = this.limits.find(
+          limit =>
+            limit.asset !== undefined && matchesLimit(spend, { ...limit, destination: undefined }),
+        );
+
+        if (limit) {
+          throw new SpendingPolicyViolationError(
+            `${describeSpend(spend)} cannot be checked against its spending limit.`,
+            spend,
+            limit,
+          );
+        }
+        continue;
+      }
+
+      if (
+        this.allowedDestinations &&
+        spend.kind !== "trade" &&
+        !this.allowedDestinations.has(spend.destination)
+      ) {
+        throw new SpendingPolicyViolationError(
+          `${spend.destination} is not an allowed destination.`,
+          spend,
+        );
+      }
+
+      for (const limit of this.limits.filter(limit => matchesLimit(spend, limit))) {
+        if (limit.maxPerTransaction !== undefined && spend.amount > limit.maxPerTransaction) {
+          throw new SpendingPolicyViolationError(
+            `${describeSpend(spend)} exceeds the per-transaction limit of ${limit.maxPerTransaction}.`,
+            spend,
+            limit,
+          );
+        }
+
+        if (limit.maxPerPeriod !== undefined) {
+          const periodMs = limit.periodMs ?? DEFAULT_SPENDING_PERIOD_MS;
+          const recorded = await this.ledger.getSpends(Date.now() - periodMs);
+          const spent = [...recorded, ...[...this.pending].flat()]
+            .filter(record => record.asset === spend.asset && matchesLimit(record, limit))
+            .reduce((total, record) => total + record.amount, 0n);
+
+          if (spent + spend.amount > limit.maxPerPeriod) {
+            throw new SpendingPolicyViolationError(
+              `${describeSpend(spend)} would bring the total spent in the last ${formatPeriod(
+                periodMs,
+              )} to ${spent + spend.amount}, exceeding the limit of ${limit.maxPerPeriod}.`,
+              spend,
+              limit,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Records spends that were made.
+   *
+   * @param spends - The spends that were made.
+   * @param transactionHash - The hash of the transaction that made the spends.
+   */
+  async record(spends: Spend[], transactionHash: string): Promise<void> {
+    const timestamp = Date.now();
+
+    for (const spend of spends.filter(spend => spend.kind !== "unknown")) {
+      const record: SpendRecord = { ...spend, transactionHash, timestamp };
+      await this.ledger.record(record);
+    }
+  }
+}
+
+/**
+ * Gets the spends made by a transaction: its native value and any ERC20 transfer or approval
+ * encoded in its calldata, i.e. `transfer`, `transferFrom` the wallet, `approve`,
+ * `increaseAllowance` and Permit2 `approve`. Other calldata is reported as an unknown spend of
+ * the called contract, rejected by the limits of that asset.
+ *
+ * ERC721 approvals and transfers share the ERC20 signatures, so they are reported as spends of
+ * the NFT contract with the token ID as amount.
+ *
+ * @param transaction - The transaction to inspect.
+ * @param walletAddress - The address of the wallet sending the transaction. Defaults to the
+ * `from` of the transaction.
+ * @returns The spends made by the transaction.
+ */
+export function getTransactionSpends(
+  transaction: TransactionRequest,
+  walletAddress: string | undefined = transaction.from,
+): Spend[] {
+  const spends: Spend[] = [];
+  const to = transaction.to?.toLowerCase();
+
+  if (!to) {
+    return spends;
+  }
+
+  if (transaction.value && transaction.value > 0n) {
+    spends.push({ asset: "native", amount: transaction.value, destination: to, kind: "native" });
+  }
+
+  if (transaction.data && transaction.data !== "0x") {
+    let call;
+    try {
+      call = decodeFunctionData({ abi: SPENDING_ABI, data: transaction.data });
+    } catch {
+      spends.push({ asset: to, amount: 0n, destination: to, kind: "unknown" });
+      return spends;
+    }
+
+    const { functionName, args } = call;
+
+    if (functionName === "transfer" || functionName === "increaseAllowance") {
+      const [destination, amount] = args;
+      spends.push({
+        asset: to,
+        amount,
+        destination: destination.toLowerCase(),
+        kind: functionName === "transfer" ? "transfer" : "approval",
+      });
+    } else if (functionName === "approve" && args.length === 2) {
+      const [spender, amount] = args;
+      spends.push({ asset: to, amount, destination: spender.toLowerCase(), kind: "approval" });
+    } else if (functionName === "approve") {
+      // Permit2 approvals let the spender move tokens the wallet approved to Permit2
+      const [token, spender, amount] = args;
+      spends.push({
+        asset: token.toLowerCase(),
+        amount,
+        destination: spender.toLowerCase(),
+        kind: "approval",
+      });
+    } else if (
+      functionName === "transferFrom" &&
+      args[0].toLowerCase() === walletAddress?.toLowerCase()
+    ) {
+      const [, destination, amount] = args;
+      spends.push({ asset: to, amount, destination: destination.toLowerCase(), kind: "transfer" });
+    }
+  }
+
+  return spends;
+}
+
+/**
+ * Checks whether a spend matches the filters of a limit.
+ *
+ * @param spend - The spend to check.
+ * @param limit - The limit to check against.
+ * @returns True if the limit applies to the spend, false otherwise.
+ */
+function matchesLimit(spend: Spend, limit: SpendingLimit): boolean {
+  return (
+    (limit.asset === undefined || limit.asset.toLowerCase() === spend.asset) &&
+    (limit.destination === undefined || limit.destination.toLowerCase() === spend.destination) &&
+    (limit.actionName === undefined || limit.actionName === spend.actionName) &&
+    (limit.networkId === undefined || limit.networkId === spend.networkId)
+  );
+}
+
+/**
+ * Describes a spend for error messages.
+ *
+ * @param spend - The spend to describe.
+ * @returns The description of the spend.
+ */
+function describeSpend(spend: Spend): string {
+  const asset = spend.asset === "native" ? "the native asset" : `token ${spend.asset}`;
+
+  switch (spend.kind) {
+    case "approval":
+      return `Approving ${spend.destination} to spend ${spend.amount} of ${asset}`;
+    case "trade":
+      return `Trading ${spend.amount} of ${asset} for ${spend.destination}`;
+    case "unknown":
+      return `Calling ${asset} with calldata that is not a known transfer or approval`;
+    default:
+      return `Sending ${spend.amount} of ${asset} to ${spend.destination}`;
+  }
+}
+
+/**
+ * Formats a period for error messages.
+ *
+ * @param periodMs - The period in milliseconds.
+ * @returns The formatted period.
+ */
+function formatPeriod(periodMs: number): string {
+  const hours = periodMs / (60 * 60 * 1000);
+  return Number.isInteger(hours) ? `${hours}h` : `${periodMs / 1000}s`;
+}
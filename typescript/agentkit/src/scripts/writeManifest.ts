@@ -0,0 +1,121 @@
+/**
+ * Writes the action manifest of an AgentKit instance to disk, and optionally an OpenAPI document
+ * of its actions.
+ *
+ * Usage: npm run manifest -- [--agentkit <module>] [--out <path>] [--openapi <path>]
+ *   [--title <title>] [--server-url <url>]
+ *
+ * The module exports the AgentKit instance to describe, or a function creating it, as `agentKit`
+ * or as its default export. Without a module, the AgentKit instance of the command-line tool is
+ * described, configured from environment variables such as CDP_API_KEY_NAME and
+ * CDP_API_KEY_PRIVATE_KEY.
+ */
+
+import { writeFileSync } from "fs";
+import { resolve } from "path";
+import { parseArgs } from "util";
+import { AgentKit } from "../agentkit";
+import { createCliAgentKit, readCliConfig } from "../cli/config";
+import { OpenApiOptions, toOpenApiDocument } from "../manifest";
+
+/**
+ * Options for writing the manifest of an AgentKit instance.
+ */
+export interface WriteManifestOptions {
+  /**
+   * The path of the manifest. Defaults to "agentkit-manifest.json".
+   */
+  out?: string;
+
+  /**
+   * The path of the OpenAPI document, if one should be written.
+   */
+  openApiOut?: string;
+
+  /**
+   * Options for the OpenAPI document.
+   */
+  openApi?: OpenApiOptions;
+}
+
+/**
+ * Writes the manifest of an AgentKit instance, and optionally an OpenAPI document of its
+ * actions.
+ *
+ * @param agentKit - The AgentKit instance.
+ * @param options - Options for writing the manifest.
+ * @returns The paths of the written files.
+ */
+export function writeManifest(agentKit: AgentKit, options: WriteManifestOptions = {}): string[] {
+  const manifest = agentKit.getManifest();
+  const written = [options.out ?? "agentkit-manifest.json"];
+
+  writeFileSync(written[0], `${JSON.stringify(manifest, null, 2)}\n`);
+
+  if (options.openApiOut) {
+    const document = toOpenApiDocument(manifest, options.openApi);
+    writeFileSync(options.openApiOut, `${JSON.stringify(document, null, 2)}\n`);
+    written.push(options.openApiOut);
+  }
+
+  return written;
+}
+
+/**
+ * Loads the AgentKit instance exported by a module.
+ *
+ * @param modulePath - The path of the module, or undefined for the AgentKit instance configured
+ * from environment variables.
+ * @returns The AgentKit instance.
+ * @throws Error if the module does not export an AgentKit instance.
+ */
+export async function loadAgentKit(modulePath?: string): Promise<AgentKit> {
+  if (!modulePath) {
+    return createCliAgentKit(readCliConfig());
+  }
+
+  const exported = await import(resolve(modulePath));
+  const candidate = exported.agentKit ?? exported.default ?? exported;
+  const agentKit = await (typeof candidate === "function" ? candidate() : candidate);
+
+  // The module may use another copy of AgentKit, so instanceof checks are not reliable
+  if (typeof agentKit?.getManifest !== "function") {
+    throw new Error(`${modulePath} does not export an AgentKit instance`);
+  }
+
+  return agentKit;
+}
+
+/**
+ * Runs the script.
+ *
+ * @param args - The command line arguments.
+ */
+async function main(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      agentkit: { type: "string" },
+      out: { type: "string" },
+      openapi: { type: "string" },
+      title: { type: "string" },
+      "server-url": { type: "string" },
+    },
+  });
+
+  const agentKit = await loadAgentKit(values.agentkit);
+  const written = writeManifest(agentKit, {
+    out: values.out,
+    openApiOut: values.openapi,
+    openApi: { title: values.title, serverUrl: values["server-url"] },
+  });
+
+  written.forEach(path => console.log(`Wrote ${path}`));
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(error => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
+}
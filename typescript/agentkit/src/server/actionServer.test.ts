@@ -0,0 +1,182 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { z } from "zod";
+import { AgentKit } from "../agentkit";
+import { customActionProvider } from "../action-providers";
+import { ActionServerOptions, createActionServer } from "./actionServer";
+import { mockWalletProvider } from "../tests/mockWalletProvider";
+
+jest.mock("../analytics", () => ({
+  sendAnalyticsEvent: jest.fn(),
+  ensureAnalyticsConfigured: jest.fn(),
+}));
+
+const GreetSchema = z.object({ name: z.string() });
+
+describe("createActionServer", () => {
+  let server: Server;
+  let url: string;
+
+  /**
+   * Starts an action server of an AgentKit instance with a greet action.
+   *
+   * @param options - Configuration options for the action server.
+   */
+  async function start(options: ActionServerOptions = { allowUnauthenticated: true }) {
+    const agentKit = await AgentKit.from({
+      walletProvider: mockWalletProvider(),
+      actionProviders: [
+        customActionProvider({
+          name: "greet",
+          description: "Greets someone",
+          schema: GreetSchema,
+          invoke: async (args: z.infer<typeof GreetSchema>) => `Hello, ${args.name}!`,
+        }),
+      ],
+    });
+
+    server = createActionServer(agentKit, options);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Invokes the greet action.
+   *
+   * @param body - The request body.
+   * @param headers - The request headers.
+   * @returns The response.
+   */
+  const greet = (body: string, headers: Record<string, string> = {}) =>
+    fetch(`${url}/actions/CustomActionProvider_greet`, { method: "POST", body, headers });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("should invoke actions and return their result", async () => {
+    await start();
+
+    const response = await greet(JSON.stringify({ name: "Satoshi" }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/json");
+    expect(await response.json()).toEqual({
+      status: "success",
+      message: "Hello, Satoshi!",
+      data: {},
+    });
+  });
+
+  it("should reject invalid arguments and bodies", async () => {
+    await start();
+
+    const invalid = await greet(JSON.stringify({ name: 1 }));
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({
+      status: "error",
+      error: { code: "INVALID_INPUT" },
+      data: { validationErrors: [{ path: "name" }] },
+    });
+
+    const malformed = await greet("{");
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).message).toBe("The request body is not valid JSON");
+  });
+
+  it("should return 404 for unknown actions and routes", async () => {
+    await start();
+
+    const unknownAction = await fetch(`${url}/actions/send`, { method: "POST" });
+    expect(unknownAction.status).toBe(404);
+    expect(await unknownAction.json()).toMatchObject({ error: { code: "NOT_FOUND" } });
+
+    expect((await fetch(`${url}/actions/CustomActionProvider_greet`)).status).toBe(404);
+  });
+
+  it("should reject action names that are not validly encoded", async () => {
+    await start();
+
+    const response = await fetch(`${url}/actions/%E0`, { method: "POST" });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe("INVALID_INPUT");
+  });
+
+  it("should return internal errors without their details, logging them", async () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const error = new Error("connect ECONNREFUSED 10.0.0.1:5432");
+    await start({
+      authorize: () => {
+        throw error;
+      },
+    });
+
+    const response = await greet("{}");
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      status: "error",
+      message: "Failed to handle the request",
+      data: {},
+      error: { code: "UNKNOWN" },
+    });
+    expect(consoleError).toHaveBeenCalledWith(expect.any(String), error);
+    consoleError.mockRestore();
+  });
+
+  it("should serve the manifest and the OpenAPI document under the base path", async () => {
+    await start({ basePath: "/agentkit/", allowUnauthenticated: true });
+
+    const manifest = await (await fetch(`${url}/agentkit`)).json();
+    expect(manifest.actions.map(({ name }: { name: string }) => name)).toEqual([
+      "CustomActionProvider_greet",
+    ]);
+
+    const openApi = await (await fetch(`${url}/agentkit/openapi.json`)).json();
+    expect(Object.keys(openApi.paths)).toEqual(["/actions/CustomActionProvider_greet"]);
+  });
+
+  it("should only serve authorized requests", async () => {
+    const authorize = jest.fn(request => request.headers.authorization === "Bearer secret");
+    await start({ authorize });
+
+    const rejected = await greet(JSON.stringify({ name: "Satoshi" }));
+    expect(rejected.status).toBe(401);
+    expect(await rejected.json()).toMatchObject({ error: { code: "REJECTED" } });
+
+    const accepted = await greet(JSON.stringify({ name: "Satoshi" }), {
+      Authorization: "Bearer secret",
+    });
+    expect(accepted.status).toBe(200);
+    expect(authorize).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.objectContaining({ name: "CustomActionProvider_greet" }),
+    );
+  });
+
+  it("should authorize requests before looking up the action", async () => {
+    await start({ authorize: () => false });
+
+    const response = await fetch(`${url}/actions/send`, { method: "POST" });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should require an authorize hook unless unauthenticated requests are allowed", async () => {
+    const agentKit = await AgentKit.from({ walletProvider: mockWalletProvider() });
+
+    expect(() => createActionServer(agentKit)).toThrow("requires an authorize hook");
+  });
+
+  it("should answer CORS preflight requests of the allowed origin", async () => {
+    await start({ corsOrigin: "https://app.example.com", allowUnauthenticated: true });
+
+    const response = await fetch(`${url}/actions/CustomActionProvider_greet`, {
+      method: "OPTIONS",
+    });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get("access-control-allow-origin")).toBe("https://app.example.com");
+  });
+});
@@ -0,0 +1,297 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { AgentKit } from "../agentkit";
+import { Action } from "../action-providers/actionProvider";
+import { ActionResult, actionError, bigIntReplacer } from "../action-providers/actionResult";
+import { OpenApiOptions, toOpenApiDocument } from "../manifest";
+
+/**
+ * Decides whether a request may be served. Called with the action before invoking it, and
+ * without an action for the manifest routes and unknown actions.
+ */
+export type ActionServerAuthorizer = (
+  request: IncomingMessage,
+  action?: Action,
+) => boolean | Promise<boolean>;
+
+/**
+ * Handles the requests of an action server, usable with `http.createServer` or as a middleware
+ * of Node.js frameworks.
+ */
+export type ActionRequestHandler = (
+  request: IncomingMessage,
+  response: ServerResponse,
+) => Promise<void>;
+
+/**
+ * Configuration options for the action server.
+ */
+export interface ActionServerOptions {
+  /**
+   * Decides whether a request may be served. Required unless `allowUnauthenticated` is set.
+   */
+  authorize?: ActionServerAuthorizer;
+
+  /**
+   * Serves every request without an `authorize` hook, e.g. for a server only reachable from a
+   * trusted network.
+   */
+  allowUnauthenticated?: boolean;
+
+  /**
+   * The path the routes are mounted under, e.g. "/agentkit". Defaults to the root.
+   */
+  basePath?: string;
+
+  /**
+   * The origin allowed to call the server from browsers, or "*" for any origin. Cross-origin
+   * requests are not allowed by default.
+   */
+  corsOrigin?: string;
+
+  /**
+   * The maximum size of request bodies in bytes. Defaults to 1000000.
+   */
+  maxBodyBytes?: number;
+
+  /**
+   * Options for the OpenAPI document served at /openapi.json.
+   */
+  openApi?: OpenApiOptions;
+}
+
+/**
+ * An error rejecting a request before the action is invoked.
+ */
+class HttpError extends Error {
+  /**
+   * Constructs a new HttpError.
+   *
+   * @param status - The HTTP status of the response.
+   * @param result - The action result sent as the response body.
+   */
+  constructor(
+    public readonly status: number,
+    public readonly result: ActionResult,
+  ) {
+    super(result.message);
+  }
+}
+
+const DEFAULT_MAX_BODY_BYTES = 1_000_000;
+
+/**
+ * Creates the request handler of an action server exposing the actions of an AgentKit instance
+ * as REST endpoints:
+ *
+ * - `GET /` returns the action manifest
+ * - `GET /openapi.json` returns the OpenAPI document of the actions
+ * - `POST /actions/{name}` invokes an action with the JSON body as arguments and returns its
+ *   result
+ *
+ * Every response body is an action result, or the manifest. Results of actions that ran are
+ * returned with status 200, whether they succeeded or failed, invalid arguments with status 400.
+ * The invocation is cancelled when the client closes the connection.
+ *
+ * @param agentKit - The AgentKit instance.
+ * @param options - Configuration options for the action server.
+ * @returns The request handler.
+ * @throws Error if neither `authorize` nor `allowUnauthenticated` is set.
+ */
+export function createActionRequestHandler(
+  agentKit: AgentKit,
+  options: ActionServerOptions = {},
+): ActionRequestHandler {
+  if (!options.authorize && !options.allowUnauthenticated) {
+    throw new Error(
+      "The action server requires an authorize hook, set allowUnauthenticated to serve every request",
+    );
+  }
+
+  const basePath = (options.basePath ?? "").replace(/\/$/, "");
+
+  return async (request, response) => {
+    if (options.corsOrigin) {
+      response.setHeader("Access-Control-Allow-Origin", options.corsOrigin);
+      response.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+      response.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+    }
+
+    try {
+      const { pathname } = new URL(request.url ?? "/", "http://localhost");
+      const path = pathname.startsWith(basePath) ? pathname.slice(basePath.length) || "/" : "";
+      const actionName = path.match(/^\/actions\/([^/]+)$/)?.[1];
+
+      if (request.method === "OPTIONS" && options.corsOrigin) {
+        response.writeHead(204).end();
+      } else if (request.method === "GET" && (path === "/" || path === "/openapi.json")) {
+        await authorize(request, options);
+
+        const manifest = agentKit.getManifest();
+        sendJson(
+          response,
+          200,
+          path === "/" ? manifest : toOpenApiDocument(manifest, options.openApi),
+        );
+      } else if (request.method === "POST" && actionName) {
+        await invokeAction(agentKit, decodeActionName(actionName), request, response, options);
+      } else {
+        throw new HttpError(
+          404,
+          actionError(`No route for ${request.method} ${pathname}`, "NOT_FOUND"),
+        );
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, error.result);
+      } else {
+        // Internal errors are only logged, as they may reveal details to unauthenticated clients
+        console.error("Error: The action server failed to handle a request:", error);
+        sendJson(response, 500, actionError("Failed to handle the request", "UNKNOWN"));
+      }
+    }
+  };
+}
+
+/**
+ * Creates an HTTP server exposing the actions of an AgentKit instance as REST endpoints. See
+ * `createActionRequestHandler` for the routes.
+ *
+ * @param agentKit - The AgentKit instance.
+ * @param options - Configuration options for the action server.
+ * @returns The server, not yet listening.
+ * @throws Error if neither `authorize` nor `allowUnauthenticated` is set.
+ */
+export function createActionServer(agentKit: AgentKit, options: ActionServerOptions = {}): Server {
+  const handler = createActionRequestHandler(agentKit, options);
+  return createServer((request, response) => void handler(request, response));
+}
+
+/**
+ * Invokes an action with the arguments of a request and sends its result.
+ *
+ * @param agentKit - The AgentKit instance.
+ * @param actionName - The name of the action.
+ * @param request - The request.
+ * @param response - The response.
+ * @param options - Configuration options for the action server.
+ */
+async function invokeAction(
+  agentKit: AgentKit,
+  actionName: string,
+  request: IncomingMessage,
+  response: ServerResponse,
+  options: ActionServerOptions,
+): Promise<void> {
+  const action = agentKit.getActions().find(candidate => candidate.name === actionName);
+
+  // Authorize first, so that unauthorized callers cannot probe for action names
+  await authorize(request, options, action);
+  if (!action) {
+    throw new HttpError(404, actionError(`Unknown action ${actionName}`, "NOT_FOUND"));
+  }
+  const args = await readJsonBody(request, options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES);
+
+  const controller = new AbortController();
+  response.on("close", () => {
+    if (!response.writableEnded) {
+      controller.abort(new Error("The client closed the connection"));
+    }
+  });
+
+  const result = await action.invoke(args, { signal: controller.signal });
+  sendJson(response, result.error?.code === "INVALID_INPUT" ? 400 : 200, result);
+}
+
+/**
+ * Decodes the percent-encoded action name of a request path.
+ *
+ * @param encoded - The encoded action name.
+ * @returns The action name.
+ * @throws HttpError if the action name is not validly encoded.
+ */
+function decodeActionName(encoded: string): string {
+  try {
+    return decodeURIComponent(encoded);
+  } catch (error) {
+    if (error instanceof URIError) {
+      throw new HttpError(
+        400,
+        actionError(`The action name ${encoded} is not validly encoded`, "INVALID_INPUT"),
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks that a request may be served.
+ *
+ * @param request - The request.
+ * @param options - Configuration options for the action server.
+ * @param action - The action the request invokes, if any.
+ * @throws HttpError if the request is not authorized.
+ */
+async function authorize(
+  request: IncomingMessage,
+  options: ActionServerOptions,
+  action?: Action,
+): Promise<void> {
+  if (options.authorize && !(await options.authorize(request, action))) {
+    throw new HttpError(401, actionError("Unauthorized", "REJECTED"));
+  }
+}
+
+/**
+ * Reads the JSON body of a request. An empty body is read as no arguments.
+ *
+ * @param request - The request.
+ * @param maxBytes - The maximum size of the body in bytes.
+ * @returns The parsed body.
+ * @throws HttpError if the body is too large or not valid JSON.
+ */
+async function readJsonBody(request: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(
+        413,
+        actionError(`The request body exceeds ${maxBytes} bytes`, "INVALID_INPUT"),
+      );
+    }
+    chunks.push(chunk);
+  }
+
+  const body = Buffer.concat(chunks).toString("utf8");
+  if (!body.trim()) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    throw new HttpError(
+      400,
+      actionError("The request body is not valid JSON", "INVALID_INPUT", error),
+    );
+  }
+}
+
+/**
+ * Sends a JSON response.
+ *
+ * @param response - The response.
+ * @param status - The HTTP status.
+ * @param body - The body, serialized with bigints as strings.
+ */
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  if (response.headersSent) {
+    return;
+  }
+
+  response
+    .writeHead(status, { "Content-Type": "application/json" })
+    .end(JSON.stringify(body, bigIntReplacer));
+}
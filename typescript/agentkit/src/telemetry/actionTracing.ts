@@ -0,0 +1,82 @@
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { Action, DEFAULT_ACTION_KIND } from "../action-providers";
+import { WalletProvider } from "../wallet-providers";
+import { getErrorType, recordActionFailure, withSpan } from "./telemetry";
+
+/**
+ * Wraps an action so that every invocation runs within an OpenTelemetry span, following the
+ * `execute_tool` convention of generative AI spans. The calls of the wallet provider and the
+ * HTTP requests made by the action are recorded as child spans, and failed invocations are
+ * counted.
+ *
+ * Interrupts suspending the agent, such as the LangGraph `interrupt` of an approval handler, are
+ * rethrown without marking the span as failed or counting a failure.
+ *
+ * @param action - The action to wrap.
+ * @param walletProvider - The wallet provider the action is bound to.
+ * @returns The traced action.
+ */
+export function traceAction(action: Action, walletProvider: WalletProvider): Action {
+  return {
+    ...action,
+    invoke: async (args, options) => {
+      const attributes = {
+        "gen_ai.operation.name": "execute_tool",
+        "gen_ai.tool.name": action.name,
+        "agentkit.action.kind": action.kind ?? DEFAULT_ACTION_KIND,
+        "agentkit.wallet.provider": walletProvider.getName(),
+        "agentkit.network.id": walletProvider.getNetwork().networkId ?? "",
+      };
+
+      let interrupt: { error: unknown } | undefined;
+
+      const traced = await withSpan(
+        `execute_tool ${action.name}`,
+        SpanKind.INTERNAL,
+        attributes,
+        async span => {
+          try {
+            const result = await action.invoke(args, options);
+            span.setAttribute("agentkit.action.status", result.status);
+
+            if (result.status === "error") {
+              const errorType = result.error?.code ?? "UNKNOWN";
+              span.setStatus({ code: SpanStatusCode.ERROR, message: result.message });
+              span.setAttribute("error.type", errorType);
+              recordActionFailure({ ...attributes, "error.type": errorType });
+            }
+
+            return result;
+          } catch (error) {
+            if (isInterrupt(error)) {
+              // Rethrown once the span ended, so that it is not marked as failed
+              span.setAttribute("agentkit.action.status", "interrupted");
+              interrupt = { error };
+              return undefined;
+            }
+
+            recordActionFailure({ ...attributes, "error.type": getErrorType(error) });
+            throw error;
+          }
+        },
+      );
+
+      if (interrupt) {
+        throw interrupt.error;
+      }
+
+      return traced!;
+    },
+  };
+}
+
+/**
+ * Checks whether an error interrupts the agent rather than failing the action. LangGraph flags
+ * its interrupts with `is_bubble_up`.
+ *
+ * @param error - The thrown error.
+ * @returns True if the error is an interrupt, false otherwise.
+ */
+function isInterrupt(error: unknown): boolean {
+  return (error as { is_bubble_up?: unknown } | undefined)?.is_bubble_up === true;
+}
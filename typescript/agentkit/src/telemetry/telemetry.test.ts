@@ -0,0 +1,241 @@
+import { z } from "zod";
+import { SpanKind, SpanStatusCode, context, metrics, trace } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { MeterProvider, MetricReader } from "@opentelemetry/sdk-metrics";
+import { AgentKit } from "../agentkit";
+import { Action, customActionProvider } from "../action-providers";
+import { fetchWithRetry } from "../action-providers/actionRetry";
+import { recordTransactionGas, traceWalletCall, withSpan } from "./telemetry";
+import { mockWalletProvider } from "../tests/mockWalletProvider";
+
+jest.mock("../analytics", () => ({
+  sendAnalyticsEvent: jest.fn(),
+  ensureAnalyticsConfigured: jest.fn(),
+}));
+
+/**
+ * A metric reader collecting metrics on demand.
+ */
+class TestMetricReader extends MetricReader {
+  /**
+   * Does nothing, metrics are collected on demand.
+   */
+  protected async onForceFlush(): Promise<void> {}
+
+  /**
+   * Does nothing, metrics are collected on demand.
+   */
+  protected async onShutdown(): Promise<void> {}
+}
+
+const FetchSchema = z.object({ url: z.string() });
+
+describe("telemetry", () => {
+  it("should run operations when OpenTelemetry is not configured", async () => {
+    await expect(withSpan("operation", SpanKind.INTERNAL, {}, async () => "done")).resolves.toBe(
+      "done",
+    );
+    expect(() => recordTransactionGas({ gasUsed: BigInt(21000) }, {})).not.toThrow();
+  });
+
+  describe("with OpenTelemetry configured", () => {
+    let exporter: InMemorySpanExporter;
+    let reader: TestMetricReader;
+
+    beforeEach(() => {
+      exporter = new InMemorySpanExporter();
+      reader = new TestMetricReader();
+      context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+      trace.setGlobalTracerProvider(
+        new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }),
+      );
+      metrics.setGlobalMeterProvider(new MeterProvider({ readers: [reader] }));
+    });
+
+    afterEach(() => {
+      trace.disable();
+      metrics.disable();
+      context.disable();
+      jest.restoreAllMocks();
+    });
+
+    /**
+     * Collects the values of a counter, by data point.
+     *
+     * @param name - The name of the counter.
+     * @returns The attributes and value of each data point.
+     */
+    async function collect(name: string) {
+      const { resourceMetrics } = await reader.collect();
+      const metric = resourceMetrics.scopeMetrics
+        .flatMap(scope => scope.metrics)
+        .find(candidate => candidate.descriptor.name === name);
+
+      return (metric?.dataPoints ?? []).map(({ attributes, value }) => ({ attributes, value }));
+    }
+
+    /**
+     * Gets the fetch action of an AgentKit instance.
+     *
+     * @returns The action, fetching the URL it is invoked with.
+     */
+    async function getFetchAction(): Promise<Action> {
+      const agentKit = await AgentKit.from({
+        walletProvider: mockWalletProvider(),
+        actionProviders: [
+          customActionProvider({
+            name: "fetch",
+            description: "Fetches a URL",
+            schema: FetchSchema,
+            invoke: async (args: z.infer<typeof FetchSchema>) => {
+              const response = await fetchWithRetry(args.url, {}, false);
+              if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+              }
+              return "fetched";
+            },
+          }),
+        ],
+      });
+
+      return agentKit.getActions()[0];
+    }
+
+    it("should trace action invocations with their HTTP requests as child spans", async () => {
+      jest.spyOn(global, "fetch").mockResolvedValue(new Response("{}", { status: 200 }));
+      const action = await getFetchAction();
+
+      const result = await action.invoke({ url: "https://hermes.pyth.network/v2/price" });
+
+      expect(result.status).toBe("success");
+      const [http, invocation] = exporter.getFinishedSpans();
+      expect(invocation.name).toBe("execute_tool CustomActionProvider_fetch");
+      expect(invocation.attributes).toMatchObject({
+        "gen_ai.operation.name": "execute_tool",
+        "gen_ai.tool.name": "CustomActionProvider_fetch",
+        "agentkit.wallet.provider": "mock",
+        "agentkit.network.id": "base-sepolia",
+        "agentkit.action.status": "success",
+      });
+      expect(http.name).toBe("GET");
+      expect(http.parentSpanContext?.spanId).toBe(invocation.spanContext().spanId);
+      expect(http.attributes).toEqual({
+        "http.request.method": "GET",
+        "server.address": "hermes.pyth.network",
+        "http.response.status_code": 200,
+      });
+    });
+
+    it("should count failed action invocations and HTTP requests", async () => {
+      jest.spyOn(global, "fetch").mockResolvedValue(new Response("{}", { status: 404 }));
+      const action = await getFetchAction();
+
+      const result = await action.invoke({ url: "https://api.g.alchemy.com/prices/v1/key" });
+
+      expect(result.status).toBe("error");
+      const [http, invocation] = exporter.getFinishedSpans();
+      expect(http.status.code).toBe(SpanStatusCode.ERROR);
+      expect(invocation.status.code).toBe(SpanStatusCode.ERROR);
+      expect(invocation.attributes["error.type"]).toBe("UNKNOWN");
+      expect(await collect("agentkit.http.failures")).toEqual([
+        {
+          attributes: {
+            "http.request.method": "GET",
+            "server.address": "api.g.alchemy.com",
+            "error.type": "404",
+          },
+          value: 1,
+        },
+      ]);
+      expect(await collect("agentkit.action.failures")).toEqual([
+        expect.objectContaining({
+          attributes: expect.objectContaining({
+            "gen_ai.tool.name": "CustomActionProvider_fetch",
+            "error.type": "UNKNOWN",
+          }),
+          value: 1,
+        }),
+      ]);
+    });
+
+    it("should not count interrupts as failures, but count thrown errors", async () => {
+      const interrupt = Object.assign(new Error("Interrupted"), { is_bubble_up: true });
+      const handler = jest
+        .fn()
+        .mockRejectedValueOnce(interrupt)
+        .mockRejectedValueOnce(Object.assign(new Error("Reset"), { code: "ECONNRESET" }));
+      const agentKit = await AgentKit.from({
+        walletProvider: mockWalletProvider(),
+        actionProviders: [
+          customActionProvider({
+            name: "send",
+            description: "Sends funds",
+            schema: z.object({}),
+            invoke: async () => "sent",
+          }),
+        ],
+        approval: { handler },
+      });
+      const [action] = agentKit.getActions();
+
+      await expect(action.invoke({})).rejects.toBe(interrupt);
+      await expect(action.invoke({})).rejects.toThrow("Reset");
+
+      const [interrupted, failed] = exporter.getFinishedSpans();
+      expect(interrupted.status.code).toBe(SpanStatusCode.UNSET);
+      expect(interrupted.attributes["agentkit.action.status"]).toBe("interrupted");
+      expect(failed.status).toEqual({ code: SpanStatusCode.ERROR, message: "Reset" });
+      expect(await collect("agentkit.action.failures")).toEqual([
+        expect.objectContaining({
+          attributes: expect.objectContaining({ "error.type": "ECONNRESET" }),
+          value: 1,
+        }),
+      ]);
+    });
+
+    it("should trace wallet calls, counting failures and gas", async () => {
+      const attributes = { "agentkit.wallet.provider": "viem_wallet_provider" };
+
+      await traceWalletCall("waitForTransactionReceipt", attributes, async () =>
+        recordTransactionGas(
+          { gasUsed: BigInt(21000), effectiveGasPrice: BigInt(1000000000) },
+          attributes,
+        ),
+      );
+      await expect(
+        traceWalletCall("readContract", attributes, async () => {
+          throw Object.assign(new Error("rate limited"), { status: 429 });
+        }),
+      ).rejects.toThrow("rate limited");
+
+      const [receiptWait, read] = exporter.getFinishedSpans();
+      expect(receiptWait.attributes).toMatchObject({
+        "agentkit.transaction.gas_used": "21000",
+        "agentkit.transaction.fee": "21000000000000",
+      });
+      expect(read.status).toEqual({ code: SpanStatusCode.ERROR, message: "rate limited" });
+      expect(read.attributes["error.type"]).toBe("429");
+      expect(await collect("agentkit.transaction.gas_used")).toEqual([
+        { attributes, value: 21000 },
+      ]);
+      expect(await collect("agentkit.transaction.fees")).toEqual([
+        { attributes, value: 21000000000000 },
+      ]);
+      expect(await collect("agentkit.wallet.failures")).toEqual([
+        {
+          attributes: {
+            ...attributes,
+            "agentkit.wallet.operation": "readContract",
+            "error.type": "429",
+          },
+          value: 1,
+        },
+      ]);
+    });
+  });
+});
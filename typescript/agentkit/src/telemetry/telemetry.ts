@@ -0,0 +1,248 @@
+import {
+  Attributes,
+  Counter,
+  MeterProvider,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  metrics,
+  trace,
+} from "@opentelemetry/api";
+import { version } from "../../package.json";
+
+/**
+ * The instrumentation scope of the spans and metrics recorded by AgentKit.
+ *
+ * AgentKit only depends on the OpenTelemetry API: spans and metrics are dropped unless the
+ * application registers an OpenTelemetry SDK, e.g. with `@opentelemetry/sdk-node`.
+ */
+export const TELEMETRY_SCOPE = "@coinbase/agentkit";
+
+/**
+ * The counters recorded by AgentKit.
+ */
+interface TelemetryCounters {
+  meterProvider: MeterProvider;
+  actionFailures: Counter;
+  walletFailures: Counter;
+  httpFailures: Counter;
+  gasUsed: Counter;
+  transactionFees: Counter;
+}
+
+let counters: TelemetryCounters | undefined;
+
+/**
+ * Gets the counters of the registered meter provider, creating them again when another
+ * provider was registered since they were created.
+ *
+ * @returns The counters.
+ */
+function getCounters(): TelemetryCounters {
+  const meterProvider = metrics.getMeterProvider();
+
+  if (counters?.meterProvider !== meterProvider) {
+    const meter = meterProvider.getMeter(TELEMETRY_SCOPE, version);
+
+    counters = {
+      meterProvider,
+      actionFailures: meter.createCounter("agentkit.action.failures", {
+        description: "The number of failed action invocations",
+      }),
+      walletFailures: meter.createCounter("agentkit.wallet.failures", {
+        description: "The number of failed wallet provider calls, such as RPC requests",
+      }),
+      httpFailures: meter.createCounter("agentkit.http.failures", {
+        description: "The number of failed outbound HTTP requests",
+      }),
+      gasUsed: meter.createCounter("agentkit.transaction.gas_used", {
+        description: "The gas used by the transactions sent by wallet providers",
+        unit: "{gas}",
+      }),
+      transactionFees: meter.createCounter("agentkit.transaction.fees", {
+        description: "The fees paid for the transactions sent by wallet providers",
+        unit: "wei",
+      }),
+    };
+  }
+
+  return counters;
+}
+
+/**
+ * Runs an operation within an active span, ending the span when the operation settles. Thrown
+ * errors are recorded on the span and rethrown.
+ *
+ * @param name - The name of the span.
+ * @param kind - The kind of the span.
+ * @param attributes - The attributes of the span.
+ * @param run - The operation, receiving the span to add attributes to.
+ * @returns The result of the operation.
+ */
+export async function withSpan<T>(
+  name: string,
+  kind: SpanKind,
+  attributes: Attributes,
+  run: (span: Span) => Promise<T>,
+): Promise<T> {
+  return trace
+    .getTracer(TELEMETRY_SCOPE, version)
+    .startActiveSpan(name, { kind, attributes }, async span => {
+      try {
+        return await run(span);
+      } catch (error) {
+        span.recordException(error instanceof Error ? error : `${error}`);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage(error) });
+        span.setAttribute("error.type", getErrorType(error));
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+}
+
+/**
+ * Records an event on the active span, if any.
+ *
+ * @param name - The name of the event.
+ * @param attributes - The attributes of the event.
+ */
+export function addSpanEvent(name: string, attributes: Attributes): void {
+  trace.getActiveSpan()?.addEvent(name, attributes);
+}
+
+/**
+ * Records the failure of an action invocation.
+ *
+ * @param attributes - The attributes of the failure, such as the action name and error code.
+ */
+export function recordActionFailure(attributes: Attributes): void {
+  getCounters().actionFailures.add(1, attributes);
+}
+
+/**
+ * Runs a call of a wallet provider, such as a contract read or a transaction broadcast, within
+ * a span, counting failed calls.
+ *
+ * @param operation - The name of the call, e.g. "sendTransaction".
+ * @param attributes - The attributes of the call, such as the wallet provider and network.
+ * @param run - The call, receiving its span.
+ * @returns The result of the call.
+ */
+export async function traceWalletCall<T>(
+  operation: string,
+  attributes: Attributes,
+  run: (span: Span) => Promise<T>,
+): Promise<T> {
+  try {
+    return await withSpan(operation, SpanKind.CLIENT, attributes, run);
+  } catch (error) {
+    getCounters().walletFailures.add(1, {
+      ...attributes,
+      "agentkit.wallet.operation": operation,
+      "error.type": getErrorType(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Records the gas used by a mined transaction, and the fees paid for it, on the active span and
+ * the gas counters.
+ *
+ * @param receipt - The receipt of the transaction.
+ * @param receipt.gasUsed - The gas used by the transaction.
+ * @param receipt.effectiveGasPrice - The price paid per unit of gas, if known.
+ * @param attributes - The attributes of the wallet provider and network.
+ */
+export function recordTransactionGas(
+  receipt: { gasUsed?: bigint; effectiveGasPrice?: bigint } | undefined,
+  attributes: Attributes,
+): void {
+  if (typeof receipt?.gasUsed !== "bigint") {
+    return;
+  }
+
+  const span = trace.getActiveSpan();
+  const { gasUsed, transactionFees } = getCounters();
+
+  span?.setAttribute("agentkit.transaction.gas_used", receipt.gasUsed.toString());
+  gasUsed.add(Number(receipt.gasUsed), attributes);
+
+  if (typeof receipt.effectiveGasPrice === "bigint") {
+    const fee = receipt.gasUsed * receipt.effectiveGasPrice;
+    span?.setAttribute("agentkit.transaction.fee", fee.toString());
+    transactionFees.add(Number(fee), attributes);
+  }
+}
+
+/**
+ * Runs an outbound HTTP request within a client span, counting failed requests. Responses with
+ * an error status are failures, as are requests throwing errors.
+ *
+ * URLs are not recorded, as some APIs take credentials in their path or query.
+ *
+ * @param method - The method of the request.
+ * @param host - The host the request is sent to, e.g. "hermes.pyth.network".
+ * @param run - The request.
+ * @returns The result of the request.
+ */
+export async function traceHttpRequest<T>(
+  method: string,
+  host: string,
+  run: () => Promise<T>,
+): Promise<T> {
+  const attributes = { "http.request.method": method, "server.address": host };
+
+  try {
+    return await withSpan(method, SpanKind.CLIENT, attributes, async span => {
+      const result = await run();
+
+      if (result instanceof Response) {
+        span.setAttribute("http.response.status_code", result.status);
+        if (!result.ok) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+          span.setAttribute("error.type", String(result.status));
+          getCounters().httpFailures.add(1, { ...attributes, "error.type": String(result.status) });
+        }
+      }
+
+      return result;
+    });
+  } catch (error) {
+    getCounters().httpFailures.add(1, { ...attributes, "error.type": getErrorType(error) });
+    throw error;
+  }
+}
+
+/**
+ * Gets the low-cardinality type of an error, for the `error.type` attribute.
+ *
+ * @param error - The error.
+ * @returns The HTTP status or code of the error if any, its name otherwise.
+ */
+export function getErrorType(error: unknown): string {
+  const { code, status, name } = (error ?? {}) as {
+    code?: unknown;
+    status?: unknown;
+    name?: unknown;
+  };
+
+  if (typeof status === "number" || typeof code === "number") {
+    return String(status ?? code);
+  }
+  if (typeof code === "string") {
+    return code;
+  }
+  return typeof name === "string" ? name : "Error";
+}
+
+/**
+ * Gets the message of an error.
+ *
+ * @param error - The error.
+ * @returns The message of the error.
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : `${error}`;
+}
@@ -0,0 +1,19 @@
+import { Network } from "../network";
+import { WalletProvider } from "../wallet-providers";
+
+/**
+ * Creates a mock wallet provider, named "mock", for tests of code that only reads the name,
+ * address and network of its wallet provider.
+ *
+ * @param network - The network of the wallet provider. Defaults to Base Sepolia.
+ * @returns The mock wallet provider.
+ */
+export function mockWalletProvider(
+  network: Network = { protocolFamily: "evm", networkId: "base-sepolia" },
+): WalletProvider {
+  return {
+    getName: jest.fn().mockReturnValue("mock"),
+    getAddress: jest.fn().mockReturnValue("0x1234567890123456789012345678901234567890"),
+    getNetwork: jest.fn().mockReturnValue(network),
+  } as unknown as WalletProvider;
+}
@@ -48,9 +48,12 @@ describe("utils", () => {
       });
 
       expect(mockWallet.waitForTransactionReceipt).toHaveBeenCalledWith(MOCK_TX_HASH);
-      expect(response).toBe(
+      expect(response.status).toBe("success");
+      expect(response.message).toBe(
         `Successfully approved ${MOCK_SPENDER_ADDRESS} to spend ${MOCK_AMOUNT} tokens`,
       );
+      expect(response.data.transactionHash).toBe(MOCK_TX_HASH);
+      expect(response.data.receipt).toEqual(MOCK_RECEIPT);
     });
 
     it("should handle approval errors", async () => {
@@ -64,7 +67,9 @@ describe("utils", () => {
         MOCK_AMOUNT,
       );
 
-      expect(response).toBe(`Error approving tokens: ${error}`);
+      expect(response.status).toBe("error");
+      expect(response.message).toBe(`Error approving tokens: ${error}`);
+      expect(response.error?.code).toBe("APPROVAL_FAILED");
     });
   });
 });
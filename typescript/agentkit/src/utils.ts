@@ -1,5 +1,6 @@
 import { encodeFunctionData } from "viem";
 import { EvmWalletProvider } from "./wallet-providers";
+import { ActionResult, actionError, actionSuccess } from "./action-providers/actionResult";
 
 const ERC20_ABI = [
   {
@@ -21,14 +22,14 @@ const ERC20_ABI = [
  * @param tokenAddress - The address of the token contract
  * @param spenderAddress - The address of the spender
  * @param amount - The amount to approve in atomic units (wei)
- * @returns A success message or error message
+ * @returns An action result describing the approval
  */
 export async function approve(
   wallet: EvmWalletProvider,
   tokenAddress: string,
   spenderAddress: string,
   amount: bigint,
-): Promise<string> {
+): Promise<ActionResult> {
   try {
     const data = encodeFunctionData({
       abi: ERC20_ABI,
@@ -41,10 +42,14 @@ export async function approve(
       data,
     });
 
-    await wallet.waitForTransactionReceipt(txHash);
+    const receipt = await wallet.waitForTransactionReceipt(txHash);
 
-    return `Successfully approved ${spenderAddress} to spend ${amount} tokens`;
+    return actionSuccess(`Successfully approved ${spenderAddress} to spend ${amount} tokens`, {
+      transactionHash: txHash,
+      receipt,
+      amount: amount.toString(),
+    });
   } catch (error) {
-    return `Error approving tokens: ${error}`;
+    return actionError(`Error approving tokens: ${error}`, "APPROVAL_FAILED", error);
   }
 }
@@ -0,0 +1,47 @@
+import { Coinbase, Wallet } from "@coinbase/coinbase-sdk";
+import { parseEther } from "viem";
+import { CdpWalletProvider } from "./cdpWalletProvider";
+
+const ADDRESS = "0xe6b2af36b3bb8d47206a129ff11d5a2de2a63c83";
+const RECIPIENT = "0x1234567890123456789012345678901234567890";
+const TRANSACTION_HASH = "0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890";
+
+describe("CdpWalletProvider", () => {
+  let wallet: jest.Mocked<Wallet>;
+  let walletProvider: CdpWalletProvider;
+
+  beforeEach(async () => {
+    jest.spyOn(Coinbase, "configure").mockReturnValue({} as Coinbase);
+    wallet = {
+      getDefaultAddress: jest.fn().mockResolvedValue({ getId: () => ADDRESS }),
+      createTransfer: jest.fn(),
+    } as unknown as jest.Mocked<Wallet>;
+
+    walletProvider = await CdpWalletProvider.configureWithWallet({
+      apiKeyName: "name",
+      apiKeyPrivateKey: "key",
+      wallet,
+      networkId: "base-sepolia",
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("nativeTransfer", () => {
+    it("should send the transfer with sendTransaction instead of a CDP transfer", async () => {
+      const sendTransaction = jest
+        .spyOn(walletProvider, "sendTransaction")
+        .mockResolvedValue(TRANSACTION_HASH);
+      jest
+        .spyOn(walletProvider, "waitForTransactionReceipt")
+        .mockResolvedValue({ transactionHash: TRANSACTION_HASH });
+
+      await expect(walletProvider.nativeTransfer(RECIPIENT, "0.5")).resolves.toBe(TRANSACTION_HASH);
+
+      expect(sendTransaction).toHaveBeenCalledWith({ to: RECIPIENT, value: parseEther("0.5") });
+      expect(wallet.createTransfer).not.toHaveBeenCalled();
+    });
+  });
+});
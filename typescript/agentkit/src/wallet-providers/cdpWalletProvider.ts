@@ -2,12 +2,12 @@ import { version } from "../../package.json";
 import { Decimal } from "decimal.js";
 import {
   createPublicClient,
+  parseEther,
   ReadContractParameters,
   ReadContractReturnType,
   serializeTransaction,
   TransactionRequest,
   TransactionSerializable,
-  http,
   keccak256,
   Signature,
   PublicClient,
@@ -15,18 +15,27 @@ import {
 import { EvmWalletProvider } from "./evmWalletProvider";
 import { Network } from "../network";
 import {
+  Asset,
   Coinbase,
   CreateERC20Options,
   CreateTradeOptions,
   ExternalAddress,
   SmartContract,
   Trade,
+  Transaction,
   Wallet,
   WalletData,
   hashTypedDataMessage,
   hashMessage,
 } from "@coinbase/coinbase-sdk";
 import { NETWORK_ID_TO_CHAIN_ID, NETWORK_ID_TO_VIEM_CHAIN } from "../network/network";
+import { getTransactionSpends } from "../policy/spendingPolicy";
+import { Spend } from "../policy/spendingLedger";
+import { DryRunOptions } from "./transactionSimulation";
+import { AbortOptions, runAbortable } from "../action-providers/actionAbort";
+import { RetryOptions } from "../action-providers/actionRetry";
+import { retryingHttp } from "./retryTransport";
+import { NonceManager } from "./nonceManager";
 
 /**
  * Configuration options for the CDP Providers.
@@ -66,6 +75,22 @@ export interface CdpWalletProviderConfig extends CdpProviderConfig {
    * The network ID of the wallet.
    */
   networkId?: string;
+
+  /**
+   * Simulates transactions instead of broadcasting them.
+   */
+  dryRun?: boolean | DryRunOptions;
+
+  /**
+   * How RPC requests failing with transient errors are retried, or false to never retry them.
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * The nonce manager assigning nonces to the transactions of the wallet. Share one between
+   * wallet providers sending from the same account. Defaults to a nonce manager of its own.
+   */
+  nonceManager?: NonceManager;
 }
 
 /**
@@ -91,6 +116,8 @@ export class CdpWalletProvider extends EvmWalletProvider {
   #address?: string;
   #network?: Network;
   #publicClient: PublicClient;
+  #wallets = new Map<string, Wallet>();
+  #retry?: RetryOptions | false;
 
   /**
    * Constructs a new CdpWalletProvider.
@@ -103,10 +130,15 @@ export class CdpWalletProvider extends EvmWalletProvider {
     this.#cdpWallet = config.wallet;
     this.#address = config.address;
     this.#network = config.network;
+    this.#retry = config.retry;
     this.#publicClient = createPublicClient({
       chain: NETWORK_ID_TO_VIEM_CHAIN[config.network!.networkId!],
-      transport: http(),
+      transport: retryingHttp(undefined, this.#retry),
     });
+    this.setDryRun(config.dryRun);
+    if (config.nonceManager) {
+      this.setNonceManager(config.nonceManager);
+    }
   }
 
   /**
@@ -162,6 +194,9 @@ export class CdpWalletProvider extends EvmWalletProvider {
       wallet,
       address,
       network,
+      dryRun: config.dryRun,
+      retry: config.retry,
+      nonceManager: config.nonceManager,
     });
 
     return cdpWalletProvider;
@@ -249,23 +284,47 @@ export class CdpWalletProvider extends EvmWalletProvider {
       throw new Error("Wallet not initialized");
     }
 
-    const preparedTransaction = await this.prepareTransaction(
-      transaction.to!,
-      transaction.value!,
-      transaction.data!,
-    );
-
-    const signature = await this.signTransaction({
-      ...preparedTransaction,
-    } as TransactionRequest);
-
-    const signedPayload = await this.addSignatureAndSerialize(preparedTransaction, signature);
+    const cdpWallet = this.#cdpWallet;
 
-    const externalAddress = new ExternalAddress(this.#cdpWallet.getNetworkId(), this.#address!);
-
-    const tx = await externalAddress.broadcastExternalTransaction(signedPayload.slice(2));
+    return this.traceCall("sendTransaction", this.getTransactionAttributes(transaction), () => {
+      if (this.isDryRun()) {
+        return this.enforceSpendingPolicy(
+          getTransactionSpends(transaction, this.getAddress()),
+          () => this.sendSimulatedTransaction(transaction, this.#publicClient),
+        );
+      }
 
-    return tx.transactionHash as `0x${string}`;
+      const externalAddress = new ExternalAddress(cdpWallet.getNetworkId(), this.#address!);
+
+      return this.enforceSpendingPolicy(
+        getTransactionSpends(transaction, this.getAddress()),
+        async () => {
+          const hash = await this.sendWithNonce(this.#publicClient, async nonce => {
+            const preparedTransaction = await this.prepareTransaction(
+              transaction.to!,
+              transaction.value!,
+              transaction.data!,
+              nonce,
+            );
+
+            const signature = await this.signTransaction({
+              ...preparedTransaction,
+            } as TransactionRequest);
+
+            const signedPayload = await this.addSignatureAndSerialize(
+              preparedTransaction,
+              signature,
+            );
+
+            const tx = await externalAddress.broadcastExternalTransaction(signedPayload.slice(2));
+            return tx.transactionHash as `0x${string}`;
+          });
+
+          this.reportTransaction(hash);
+          return hash;
+        },
+      );
+    });
   }
 
   /**
@@ -274,18 +333,20 @@ export class CdpWalletProvider extends EvmWalletProvider {
    * @param to - The address to send the transaction to.
    * @param value - The value of the transaction.
    * @param data - The data of the transaction.
+   * @param nonce - The nonce of the transaction. Defaults to the transaction count of the wallet.
    * @returns The prepared transaction.
    */
   async prepareTransaction(
     to: `0x${string}`,
     value: bigint,
     data: `0x${string}`,
+    nonce?: number,
   ): Promise<TransactionSerializable> {
     if (!this.#cdpWallet) {
       throw new Error("Wallet not initialized");
     }
 
-    const nonce = await this.#publicClient!.getTransactionCount({
+    nonce ??= await this.#publicClient!.getTransactionCount({
       address: this.#address! as `0x${string}`,
     });
 
@@ -387,11 +448,22 @@ export class CdpWalletProvider extends EvmWalletProvider {
    * Waits for a transaction receipt.
    *
    * @param txHash - The hash of the transaction to wait for.
+   * @param options - Options to cancel the wait or limit its duration.
    * @returns The transaction receipt.
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  async waitForTransactionReceipt(txHash: `0x${string}`): Promise<any> {
-    return await this.#publicClient!.waitForTransactionReceipt({ hash: txHash });
+  async waitForTransactionReceipt(txHash: `0x${string}`, options: AbortOptions = {}): Promise<any> {
+    return (
+      this.getSimulatedReceipt(txHash) ??
+      (await this.traceReceiptWait(txHash, () =>
+        runAbortable(
+          options,
+          `Waiting for transaction ${txHash}`,
+          () => this.#publicClient!.waitForTransactionReceipt({ hash: txHash }),
+          txHash,
+        ),
+      ))
+    );
   }
 
   /**
@@ -401,7 +473,14 @@ export class CdpWalletProvider extends EvmWalletProvider {
    * @returns The response from the contract.
    */
   async readContract(params: ReadContractParameters): Promise<ReadContractReturnType> {
-    return this.#publicClient!.readContract(params);
+    return this.traceCall(
+      "readContract",
+      {
+        "agentkit.contract.address": params.address,
+        "agentkit.contract.function": params.functionName,
+      },
+      () => this.#publicClient!.readContract(params),
+    );
   }
 
   /**
@@ -415,7 +494,68 @@ export class CdpWalletProvider extends EvmWalletProvider {
       throw new Error("Wallet not initialized");
     }
 
-    return this.#cdpWallet.createTrade(options);
+    if (this.isDryRun()) {
+      throw new Error("Trades cannot be made in dry-run mode, use simulateTrade instead");
+    }
+
+    const wallet = this.#cdpWallet;
+    const createTrade = () =>
+      this.traceCall(
+        "createTrade",
+        {
+          "agentkit.trade.from_asset": options.fromAssetId,
+          "agentkit.trade.to_asset": options.toAssetId,
+        },
+        async () => this.reportTrade(await wallet.createTrade(options)),
+      );
+
+    if (!this.getSpendingPolicy()) {
+      return createTrade();
+    }
+
+    return this.enforceSpendingPolicy(
+      [await this.getTradeSpend(options)],
+      createTrade,
+      trade => trade.getTransaction().getTransactionHash() ?? trade.getId(),
+    );
+  }
+
+  /**
+   * Waits for a trade to complete, recording the gas used by its transactions.
+   *
+   * @param trade - The broadcast trade.
+   * @returns The completed trade.
+   */
+  async waitForTrade(trade: Trade): Promise<Trade> {
+    return this.traceCall(
+      "waitForTrade",
+      { "agentkit.transaction.hash": trade.getTransaction().getTransactionHash() ?? "" },
+      async () => {
+        const result = await trade.wait();
+        this.recordCdpTransactionGas(result.getApproveTransaction());
+        this.recordCdpTransactionGas(result.getTransaction());
+        return result;
+      },
+    );
+  }
+
+  /**
+   * Simulates a trade in dry-run mode, checking it against the spending policy without making it.
+   *
+   * @param options - The options for the trade.
+   * @throws SpendingPolicyViolationError if the trade violates the spending policy.
+   */
+  async simulateTrade(options: CreateTradeOptions): Promise<void> {
+    if (!this.#cdpWallet) {
+      throw new Error("Wallet not initialized");
+    }
+
+    if (!this.isDryRun()) {
+      throw new Error("Trades can only be simulated in dry-run mode");
+    }
+
+    const spend = await this.getTradeSpend(options);
+    await this.enforceSpendingPolicy([spend], async () => undefined);
   }
 
   /**
@@ -429,7 +569,14 @@ export class CdpWalletProvider extends EvmWalletProvider {
       throw new Error("Wallet not initialized");
     }
 
-    return this.#cdpWallet.deployToken(options);
+    if (this.isDryRun()) {
+      throw new Error("Tokens cannot be deployed in dry-run mode");
+    }
+
+    const wallet = this.#cdpWallet;
+    const contract = await this.traceCall("deployToken", {}, () => wallet.deployToken(options));
+    this.reportTransaction(contract.getTransaction()?.getTransactionHash());
+    return contract;
   }
 
   /**
@@ -454,7 +601,18 @@ export class CdpWalletProvider extends EvmWalletProvider {
       throw new Error("Wallet not initialized");
     }
 
-    return this.#cdpWallet.deployContract(options);
+    if (this.isDryRun()) {
+      throw new Error("Contracts cannot be deployed in dry-run mode");
+    }
+
+    const wallet = this.#cdpWallet;
+    const contract = await this.traceCall(
+      "deployContract",
+      { "agentkit.contract.name": options.contractName },
+      () => wallet.deployContract(options),
+    );
+    this.reportTransaction(contract.getTransaction()?.getTransactionHash());
+    return contract;
   }
 
   /**
@@ -478,14 +636,22 @@ export class CdpWalletProvider extends EvmWalletProvider {
       throw new Error("Wallet not initialized");
     }
 
-    return this.#cdpWallet.deployNFT(options);
+    if (this.isDryRun()) {
+      throw new Error("NFT collections cannot be deployed in dry-run mode");
+    }
+
+    const wallet = this.#cdpWallet;
+    const contract = await this.traceCall("deployNFT", {}, () => wallet.deployNFT(options));
+    this.reportTransaction(contract.getTransaction()?.getTransactionHash());
+    return contract;
   }
 
   /**
-   * Transfer the native asset of the network.
+   * Transfer the native asset of the network. The transfer is sent with `sendTransaction`, so it
+   * takes its nonce from the nonce manager like the other transactions of the wallet.
    *
    * @param to - The destination address.
-   * @param value - The amount to transfer in Wei.
+   * @param value - The amount to transfer in whole units (e.g. ETH).
    * @returns The transaction hash.
    */
   async nativeTransfer(to: `0x${string}`, value: string): Promise<`0x${string}`> {
@@ -493,20 +659,16 @@ export class CdpWalletProvider extends EvmWalletProvider {
       throw new Error("Wallet not initialized");
     }
 
-    const transferResult = await this.#cdpWallet.createTransfer({
-      amount: new Decimal(value),
-      assetId: Coinbase.assets.Eth,
-      destination: to,
-      gasless: false,
-    });
-
-    const result = await transferResult.wait();
+    return this.traceCall("nativeTransfer", { "agentkit.transaction.to": to }, async () => {
+      const hash = await this.sendTransaction({ to, value: parseEther(value) });
+      const receipt = await this.waitForTransactionReceipt(hash);
 
-    if (!result.getTransactionHash()) {
-      throw new Error("Transaction hash not found");
-    }
+      if (!receipt) {
+        throw new Error("Transaction failed");
+      }
 
-    return result.getTransactionHash() as `0x${string}`;
+      return receipt.transactionHash;
+    });
   }
 
   /**
@@ -521,4 +683,105 @@ export class CdpWalletProvider extends EvmWalletProvider {
 
     return this.#cdpWallet.export();
   }
+
+  /**
+   * Switches the wallet to another network, keeping its seed and address. The wallet of each
+   * network is created on first switch and reused afterwards.
+   *
+   * @param networkId - The ID of the network to switch to, e.g. "base-mainnet".
+   */
+  async switchNetwork(networkId: string): Promise<void> {
+    if (!this.#cdpWallet || !this.#network) {
+      throw new Error("Wallet not initialized");
+    }
+
+    const chain = NETWORK_ID_TO_VIEM_CHAIN[networkId];
+    if (!chain) {
+      throw new Error(`Unsupported network: ${networkId}`);
+    }
+
+    const previousNetwork = this.#network;
+    this.#wallets.set(previousNetwork.networkId!, this.#cdpWallet);
+
+    let wallet = this.#wallets.get(networkId);
+    if (!wallet) {
+      // Server-signer wallets hold no seed, and cannot be recreated on another network
+      if (!this.#cdpWallet.canSign()) {
+        throw new Error(
+          "Switching networks requires a wallet with its seed loaded, server-signer wallets cannot switch networks",
+        );
+      }
+
+      wallet = await Wallet.createWithSeed({ seed: this.#cdpWallet.export().seed, networkId });
+    }
+
+    const address = (await wallet.getDefaultAddress()).getId();
+
+    if (address.toLowerCase() !== this.#address?.toLowerCase()) {
+      throw new Error(`Wallet on ${networkId} has a different address: ${address}`);
+    }
+
+    this.#cdpWallet = wallet;
+    this.#network = {
+      protocolFamily: "evm",
+      chainId: NETWORK_ID_TO_CHAIN_ID[networkId],
+      networkId,
+    };
+    this.#publicClient = createPublicClient({
+      chain,
+      transport: retryingHttp(undefined, this.#retry),
+    });
+
+    this.notifyNetworkChange(previousNetwork);
+  }
+
+  /**
+   * Reports the transactions of a broadcast trade, its token approval first if it has one.
+   *
+   * @param trade - The broadcast trade.
+   * @returns The trade.
+   */
+  private reportTrade(trade: Trade): Trade {
+    this.reportTransaction(trade.getApproveTransaction()?.getTransactionHash());
+    this.reportTransaction(trade.getTransaction().getTransactionHash());
+    return trade;
+  }
+
+  /**
+   * Records the gas used by a completed CDP transaction, and the fees paid for it.
+   *
+   * @param transaction - The transaction, if any.
+   */
+  private recordCdpTransactionGas(transaction: Transaction | undefined): void {
+    const content = transaction?.content();
+
+    if (content?.gas === undefined) {
+      return;
+    }
+
+    this.recordGasUsed({
+      gasUsed: BigInt(content.gas),
+      effectiveGasPrice: content.gas_price === undefined ? undefined : BigInt(content.gas_price),
+    });
+  }
+
+  /**
+   * Gets the spend made by a trade.
+   *
+   * @param options - The options for the trade.
+   * @returns The amount of the asset traded away.
+   */
+  private async getTradeSpend(options: CreateTradeOptions): Promise<Spend> {
+    const fromAsset = await Asset.fetch(this.#cdpWallet!.getNetworkId(), options.fromAssetId);
+
+    return {
+      asset:
+        options.fromAssetId === Coinbase.assets.Eth
+          ? "native"
+          : fromAsset.contractAddress.toLowerCase() || options.fromAssetId,
+      amount: fromAsset.toAtomicAmount(new Decimal(options.amount.toString())),
+      destination: options.toAssetId,
+      kind: "trade",
+    };
+  }
 }
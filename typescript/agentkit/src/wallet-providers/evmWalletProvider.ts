@@ -2,7 +2,29 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import { WalletProvider } from "./walletProvider";
-import { TransactionRequest, ReadContractParameters, ReadContractReturnType } from "viem";
+import {
+  createPublicClient,
+  http,
+  PublicClient,
+  TransactionRequest,
+  ReadContractParameters,
+  ReadContractReturnType,
+} from "viem";
+import { getActionContext } from "../action-providers/actionContext";
+import { AbortOptions } from "../action-providers/actionAbort";
+import { Network } from "../network";
+import { NETWORK_ID_TO_VIEM_CHAIN } from "../network/network";
+import { Spend } from "../policy/spendingLedger";
+import { SpendingPolicy } from "../policy/spendingPolicy";
+import { DryRunOptions, simulateTransaction, TransactionSimulation } from "./transactionSimulation";
+import { NonceManager } from "./nonceManager";
+import { Attributes, Span, trace } from "@opentelemetry/api";
+import { recordTransactionGas, traceWalletCall } from "../telemetry/telemetry";
+
+/**
+ * A listener called after the wallet provider switched networks.
+ */
+export type NetworkChangeListener = (network: Network, previousNetwork: Network) => void;
 
 /**
  * EvmWalletProvider is the abstract base class for all EVM wallet providers.
@@ -10,6 +32,329 @@ import { TransactionRequest, ReadContractParameters, ReadContractReturnType } fr
  * @abstract
  */
 export abstract class EvmWalletProvider extends WalletProvider {
+  #spendingPolicy?: SpendingPolicy;
+  #dryRun?: DryRunOptions;
+  #dryRunClient?: PublicClient;
+  #simulations = new Map<string, TransactionSimulation>();
+  #networkChangeListeners = new Set<NetworkChangeListener>();
+  #nonceManager = new NonceManager();
+
+  /**
+   * Sets the spending policy enforced on the funds sent by the wallet.
+   *
+   * @param policy - The spending policy, or undefined to remove it.
+   */
+  setSpendingPolicy(policy?: SpendingPolicy): void {
+    this.#spendingPolicy = policy;
+  }
+
+  /**
+   * Gets the spending policy enforced on the funds sent by the wallet.
+   *
+   * @returns The spending policy, if any.
+   */
+  getSpendingPolicy(): SpendingPolicy | undefined {
+    return this.#spendingPolicy;
+  }
+
+  /**
+   * Sets the nonce manager assigning nonces to the transactions of the wallet. Wallet providers
+   * sending from the same account should share one.
+   *
+   * @param nonceManager - The nonce manager.
+   */
+  setNonceManager(nonceManager: NonceManager): void {
+    this.#nonceManager = nonceManager;
+  }
+
+  /**
+   * Gets the nonce manager assigning nonces to the transactions of the wallet.
+   *
+   * @returns The nonce manager.
+   */
+  getNonceManager(): NonceManager {
+    return this.#nonceManager;
+  }
+
+  /**
+   * Enables or disables the dry-run mode. In dry-run mode, transactions are simulated instead of
+   * broadcast, and their synthetic hashes resolve to simulated receipts.
+   *
+   * @param dryRun - True or the dry-run options to enable the dry-run mode, false to disable it.
+   */
+  setDryRun(dryRun?: boolean | DryRunOptions): void {
+    this.#dryRun = dryRun === true ? {} : dryRun || undefined;
+    this.#dryRunClient = this.#dryRun?.rpcUrl
+      ? createPublicClient({
+          chain: NETWORK_ID_TO_VIEM_CHAIN[this.getNetwork().networkId!],
+          transport: http(this.#dryRun.rpcUrl),
+        })
+      : undefined;
+  }
+
+  /**
+   * Checks whether the wallet provider is in dry-run mode.
+   *
+   * @returns True if transactions are simulated instead of broadcast, false otherwise.
+   */
+  isDryRun(): boolean {
+    return this.#dryRun !== undefined;
+  }
+
+  /**
+   * Gets the outcome of a transaction simulated in dry-run mode.
+   *
+   * @param txHash - The synthetic hash of the simulated transaction.
+   * @returns The simulation, or undefined if the hash is not of a simulated transaction.
+   */
+  getSimulation(txHash: string): TransactionSimulation | undefined {
+    return this.#simulations.get(txHash);
+  }
+
+  /**
+   * Registers a listener called after the wallet provider switched networks.
+   *
+   * @param listener - The listener.
+   * @returns A function unregistering the listener.
+   */
+  onNetworkChange(listener: NetworkChangeListener): () => void {
+    this.#networkChangeListeners.add(listener);
+    return () => {
+      this.#networkChangeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Switch the wallet to another network, keeping its key and address. Wallet providers that
+   * cannot switch networks throw.
+   *
+   * @param _ - The ID of the network to switch to, e.g. "base-mainnet".
+   * @throws Error as switching networks is not supported by default
+   */
+  async switchNetwork(_: string): Promise<void> {
+    throw new Error("Switching networks is not supported by this wallet provider");
+  }
+
+  /**
+   * Checks spends against the spending policy, makes them and records them. The spends are
+   * reserved while they are being made, so concurrent invocations cannot exceed the limits
+   * together.
+   *
+   * Spends are attributed to the network of the wallet and the action being invoked, if any.
+   *
+   * @param spends - The spends about to be made.
+   * @param send - The function making the spends.
+   * @param getHash - Gets the transaction hash to record from the result of `send`.
+   * @returns The result of `send`.
+   * @throws SpendingPolicyViolationError if a spend violates the policy.
+   */
+  protected async enforceSpendingPolicy<T>(
+    spends: Spend[],
+    send: () => Promise<T>,
+    getHash: (result: T) => string = result => String(result),
+  ): Promise<T> {
+    const policy = this.#spendingPolicy;
+
+    if (!policy || spends.length === 0) {
+      return send();
+    }
+
+    const attributed = spends.map(spend => ({
+      ...spend,
+      networkId: this.getNetwork().networkId,
+      actionName: getActionContext()?.actionName,
+    }));
+
+    const reservation = await policy.reserve(attributed);
+    let result: T;
+
+    try {
+      result = await send();
+    } catch (error) {
+      reservation.release();
+      throw error;
+    }
+
+    if (this.isDryRun()) {
+      reservation.release();
+    } else {
+      await reservation.commit(getHash(result));
+    }
+
+    return result;
+  }
+
+  /**
+   * Simulates a transaction in dry-run mode and reports it to the action being invoked, if any.
+   *
+   * @param transaction - The transaction to simulate.
+   * @param publicClient - The client of the RPC of the wallet provider, used unless the dry-run
+   * options set another RPC URL.
+   * @returns The synthetic hash of the simulated transaction.
+   */
+  protected async sendSimulatedTransaction(
+    transaction: TransactionRequest,
+    publicClient: PublicClient,
+  ): Promise<`0x${string}`> {
+    const simulation = await simulateTransaction(
+      this.#dryRunClient ?? publicClient,
+      this.getAddress() as `0x${string}`,
+      transaction,
+    );
+
+    this.#simulations.set(simulation.transactionHash, simulation);
+    getActionContext()?.simulations?.push(simulation);
+
+    return simulation.transactionHash;
+  }
+
+  /**
+   * Gets the receipt of a transaction simulated in dry-run mode.
+   *
+   * @param txHash - The synthetic hash of the simulated transaction.
+   * @returns The simulated receipt, or undefined if the hash is not of a simulated transaction.
+   */
+  protected getSimulatedReceipt(txHash: `0x${string}`): any {
+    const simulation = this.#simulations.get(txHash);
+
+    if (!simulation) {
+      return undefined;
+    }
+
+    return {
+      transactionHash: simulation.transactionHash,
+      status: simulation.status,
+      gasUsed: simulation.gasEstimate ?? 0n,
+      logs: [],
+      simulated: true,
+      revertReason: simulation.revertReason,
+    };
+  }
+
+  /**
+   * Sends a transaction of the wallet with the next nonce, so that concurrent transactions never
+   * share a nonce.
+   *
+   * @param publicClient - The client of the RPC of the wallet provider.
+   * @param send - Signs and broadcasts the transaction with the given nonce.
+   * @returns The hash of the transaction.
+   */
+  protected sendWithNonce(
+    publicClient: PublicClient,
+    send: (nonce: number) => Promise<`0x${string}`>,
+  ): Promise<`0x${string}`> {
+    return this.#nonceManager.send(publicClient, this.getAddress() as `0x${string}`, send);
+  }
+
+  /**
+   * Reports a submitted transaction to the action being invoked, if any, so that its hash is
+   * included in the result if the action times out.
+   *
+   * @param txHash - The hash of the submitted transaction.
+   */
+  protected reportTransaction(txHash: string | undefined): void {
+    if (txHash) {
+      getActionContext()?.transactionHashes?.push(txHash);
+      trace.getActiveSpan()?.setAttribute("agentkit.transaction.hash", txHash);
+    }
+  }
+
+  /**
+   * Runs a call of the wallet provider within an OpenTelemetry span, attributed to the wallet
+   * provider and its network.
+   *
+   * @param operation - The name of the call, e.g. "readContract".
+   * @param attributes - Additional attributes of the call.
+   * @param run - The call, receiving its span.
+   * @returns The result of the call.
+   */
+  protected traceCall<T>(
+    operation: string,
+    attributes: Attributes,
+    run: (span: Span) => Promise<T>,
+  ): Promise<T> {
+    return traceWalletCall(operation, { ...this.getTelemetryAttributes(), ...attributes }, run);
+  }
+
+  /**
+   * Waits for a transaction receipt within an OpenTelemetry span, recording the gas used by the
+   * transaction.
+   *
+   * @param txHash - The hash of the transaction.
+   * @param wait - Waits for the receipt of the transaction.
+   * @returns The transaction receipt.
+   */
+  protected traceReceiptWait(txHash: `0x${string}`, wait: () => Promise<any>): Promise<any> {
+    return this.traceCall(
+      "waitForTransactionReceipt",
+      { "agentkit.transaction.hash": txHash },
+      async () => {
+        const receipt = await wait();
+        this.recordGasUsed(receipt);
+        return receipt;
+      },
+    );
+  }
+
+  /**
+   * Records the gas used by a mined transaction, and the fees paid for it, on the active span and
+   * the gas counters of the wallet provider and its network.
+   *
+   * @param receipt - The receipt of the transaction.
+   * @param receipt.gasUsed - The gas used by the transaction.
+   * @param receipt.effectiveGasPrice - The price paid per unit of gas, if known.
+   */
+  protected recordGasUsed(
+    receipt: { gasUsed?: bigint; effectiveGasPrice?: bigint } | undefined,
+  ): void {
+    recordTransactionGas(receipt, this.getTelemetryAttributes());
+  }
+
+  /**
+   * Gets the attributes of the span of a sent transaction.
+   *
+   * @param transaction - The transaction.
+   * @returns The recipient of the transaction and whether it is simulated.
+   */
+  protected getTransactionAttributes(transaction: TransactionRequest): Attributes {
+    return { "agentkit.transaction.to": transaction.to ?? "", "agentkit.dry_run": this.isDryRun() };
+  }
+
+  /**
+   * Notifies the network change listeners after the wallet provider switched networks. Errors
+   * thrown by listeners are logged.
+   *
+   * @param previousNetwork - The network the wallet provider was on.
+   */
+  protected notifyNetworkChange(previousNetwork: Network): void {
+    // Move the dry-run client to the new network
+    if (this.#dryRun) {
+      this.setDryRun(this.#dryRun);
+    }
+
+    const network = this.getNetwork();
+
+    for (const listener of this.#networkChangeListeners) {
+      try {
+        listener(network, previousNetwork);
+      } catch (error) {
+        console.warn(`Warning: Network change listener failed: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Gets the attributes identifying the wallet provider in spans and metrics.
+   *
+   * @returns The name and network of the wallet provider.
+   */
+  private getTelemetryAttributes(): Attributes {
+    return {
+      "agentkit.wallet.provider": this.getName(),
+      "agentkit.network.id": this.getNetwork().networkId ?? "",
+    };
+  }
+
   /**
    * Sign a message.
    *
@@ -46,9 +391,12 @@ export abstract class EvmWalletProvider extends WalletProvider {
    * Wait for a transaction receipt.
    *
    * @param txHash - The transaction hash.
+   * @param options - Options to cancel the wait or limit its duration. Defaults to the signal of
+   * the action being invoked, if any.
    * @returns The transaction receipt.
+   * @throws ActionAbortedError if the wait is cancelled or times out.
    */
-  abstract waitForTransactionReceipt(txHash: `0x${string}`): Promise<any>;
+  abstract waitForTransactionReceipt(txHash: `0x${string}`, options?: AbortOptions): Promise<any>;
 
   /**
    * Read a contract.
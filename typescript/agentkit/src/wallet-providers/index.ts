@@ -2,3 +2,6 @@ export * from "./walletProvider";
 export * from "./evmWalletProvider";
 export * from "./viemWalletProvider";
 export * from "./cdpWalletProvider";
+export * from "./transactionSimulation";
+export * from "./retryTransport";
+export * from "./nonceManager";
@@ -0,0 +1,125 @@
+import { PublicClient, TransactionNotFoundError } from "viem";
+import { NonceManager } from "./nonceManager";
+import { runInActionContext } from "../action-providers/actionContext";
+
+const ADDRESS = "0x1234567890123456789012345678901234567890";
+
+/**
+ * Creates a client of a fake RPC reporting the given transaction counts.
+ *
+ * @param counts - The confirmed and pending transaction counts of the account.
+ * @param counts.confirmed - The number of confirmed transactions.
+ * @param counts.pending - The number of transactions including those in the mempool.
+ * @returns The client.
+ */
+function mockClient(counts: { confirmed: number; pending: number }) {
+  return {
+    chain: { id: 84532 },
+    getTransactionCount: jest.fn(async ({ blockTag }) =>
+      blockTag === "pending" ? counts.pending : counts.confirmed,
+    ),
+    getTransaction: jest.fn(async () => ({})),
+  } as unknown as PublicClient & { getTransaction: jest.Mock };
+}
+
+const hashOf = (nonce: number) => `0x${nonce.toString(16).padStart(64, "0")}` as `0x${string}`;
+
+describe("NonceManager", () => {
+  it("should give concurrent transactions consecutive nonces", async () => {
+    const manager = new NonceManager();
+    const client = mockClient({ confirmed: 5, pending: 5 });
+    const nonces: number[] = [];
+    const send = async (nonce: number) => {
+      nonces.push(nonce);
+      return hashOf(nonce);
+    };
+
+    await Promise.all([1, 2, 3].map(() => manager.send(client, ADDRESS, send)));
+
+    expect(nonces).toEqual([5, 6, 7]);
+    expect(manager.getPendingTransactions(ADDRESS, 84532).map(({ nonce }) => nonce)).toEqual([
+      5, 6, 7,
+    ]);
+  });
+
+  it("should resynchronize with the RPC after a failed broadcast", async () => {
+    const manager = new NonceManager();
+    const client = mockClient({ confirmed: 5, pending: 5 });
+
+    await manager.send(client, ADDRESS, async nonce => hashOf(nonce));
+    await expect(
+      manager.send(client, ADDRESS, async () => {
+        throw new Error("nonce too low");
+      }),
+    ).rejects.toThrow("nonce too low");
+
+    // The RPC never saw the first transaction either
+    await expect(manager.send(client, ADDRESS, async nonce => hashOf(nonce))).resolves.toBe(
+      hashOf(5),
+    );
+  });
+
+  it("should take the nonce of the RPC when the account sent transactions elsewhere", async () => {
+    const manager = new NonceManager();
+    const counts = { confirmed: 5, pending: 5 };
+    const client = mockClient(counts);
+
+    await manager.send(client, ADDRESS, async nonce => hashOf(nonce));
+    counts.pending = 9;
+
+    await expect(manager.send(client, ADDRESS, async nonce => hashOf(nonce))).resolves.toBe(
+      hashOf(9),
+    );
+  });
+
+  it("should forget confirmed transactions", async () => {
+    const manager = new NonceManager();
+    const counts = { confirmed: 5, pending: 5 };
+    const client = mockClient(counts);
+
+    await manager.send(client, ADDRESS, async nonce => hashOf(nonce));
+    counts.confirmed = 6;
+    counts.pending = 6;
+    await manager.send(client, ADDRESS, async nonce => hashOf(nonce));
+
+    expect(manager.getPendingTransactions(ADDRESS, 84532).map(({ nonce }) => nonce)).toEqual([6]);
+  });
+
+  it("should reuse the nonces of dropped transactions", async () => {
+    const manager = new NonceManager({ droppedAfterMs: 0 });
+    const client = mockClient({ confirmed: 5, pending: 5 });
+
+    await manager.send(client, ADDRESS, async nonce => hashOf(nonce));
+    await manager.send(client, ADDRESS, async nonce => hashOf(nonce));
+    client.getTransaction.mockImplementation(async ({ hash }) => {
+      if (hash === hashOf(5)) {
+        throw new TransactionNotFoundError({ hash });
+      }
+      return {};
+    });
+
+    await expect(manager.send(client, ADDRESS, async nonce => hashOf(nonce))).resolves.toBe(
+      hashOf(5),
+    );
+    expect(manager.getPendingTransactions(ADDRESS, 84532).map(({ nonce }) => nonce)).toEqual([5]);
+  });
+
+  it("should not send transactions of actions aborted while waiting for their turn", async () => {
+    const manager = new NonceManager();
+    const client = mockClient({ confirmed: 5, pending: 5 });
+    const controller = new AbortController();
+    const send = jest.fn(async (nonce: number) => hashOf(nonce));
+
+    const first = manager.send(client, ADDRESS, async nonce => {
+      controller.abort(new Error("cancelled"));
+      return hashOf(nonce);
+    });
+    const second = runInActionContext({ actionName: "test", signal: controller.signal }, () =>
+      manager.send(client, ADDRESS, send),
+    );
+
+    await first;
+    await expect(second).rejects.toThrow("cancelled");
+    expect(send).not.toHaveBeenCalled();
+  });
+});
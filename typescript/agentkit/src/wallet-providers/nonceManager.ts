@@ -0,0 +1,213 @@
+import { PublicClient, TransactionNotFoundError } from "viem";
+import { getActionContext } from "../action-providers/actionContext";
+
+/**
+ * Configuration options for the NonceManager.
+ */
+export interface NonceManagerOptions {
+  /**
+   * How long a pending transaction may be unknown to the RPC before it is considered dropped and
+   * its nonce reused, in milliseconds. Defaults to 120000.
+   */
+  droppedAfterMs?: number;
+}
+
+/**
+ * A transaction sent by the wallet and not yet confirmed.
+ */
+export interface PendingTransaction {
+  /**
+   * The nonce of the transaction.
+   */
+  nonce: number;
+
+  /**
+   * The hash of the transaction.
+   */
+  hash: `0x${string}`;
+
+  /**
+   * When the transaction was sent, in milliseconds since the epoch.
+   */
+  sentAt: number;
+}
+
+/**
+ * The nonce state of an account on a chain.
+ */
+interface AccountNonces {
+  next?: number;
+  pending: PendingTransaction[];
+  lock: Promise<void>;
+}
+
+const DEFAULT_DROPPED_AFTER_MS = 120_000;
+
+/**
+ * NonceManager assigns nonces to the transactions of EVM wallets, so that transactions sent
+ * concurrently, e.g. by tools running in parallel, never share a nonce.
+ *
+ * Transactions of an account are broadcast one at a time, each taking the nonce after the last
+ * one without waiting for it to be confirmed. The nonce is resynchronized with the RPC after a
+ * failed broadcast, and rewound when a pending transaction was dropped.
+ */
+export class NonceManager {
+  #accounts = new Map<string, AccountNonces>();
+  #droppedAfterMs: number;
+
+  /**
+   * Constructs a new NonceManager.
+   *
+   * @param options - The configuration options for the NonceManager.
+   */
+  constructor(options: NonceManagerOptions = {}) {
+    this.#droppedAfterMs = options.droppedAfterMs ?? DEFAULT_DROPPED_AFTER_MS;
+  }
+
+  /**
+   * Sends a transaction with the next nonce of an account.
+   *
+   * @param client - The client of the RPC of the chain.
+   * @param address - The address of the account.
+   * @param send - Signs and broadcasts the transaction with the given nonce.
+   * @returns The hash of the transaction.
+   * @throws The abort reason if the action being invoked is aborted before the transaction is
+   * sent.
+   */
+  async send(
+    client: PublicClient,
+    address: `0x${string}`,
+    send: (nonce: number) => Promise<`0x${string}`>,
+  ): Promise<`0x${string}`> {
+    const chainId = client.chain?.id ?? (await client.getChainId());
+    const account = this.#getAccount(address, chainId);
+
+    const previous = account.lock;
+    let release!: () => void;
+    account.lock = new Promise(resolve => (release = resolve));
+
+    try {
+      await previous;
+
+      const signal = getActionContext()?.signal;
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
+      const nonce = await this.#nextNonce(client, address, account);
+
+      try {
+        const hash = await send(nonce);
+        account.next = nonce + 1;
+        account.pending.push({ nonce, hash, sentAt: Date.now() });
+        return hash;
+      } catch (error) {
+        // The transaction may or may not have been broadcast, resynchronize with the RPC
+        account.next = undefined;
+        throw error;
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Gets the transactions of an account that were sent and not yet seen confirmed.
+   *
+   * @param address - The address of the account.
+   * @param chainId - The ID of the chain.
+   * @returns The pending transactions, by ascending nonce.
+   */
+  getPendingTransactions(address: string, chainId: number): PendingTransaction[] {
+    return [...(this.#accounts.get(accountKey(address, chainId))?.pending ?? [])];
+  }
+
+  /**
+   * Forgets the nonces of an account, e.g. after sending transactions from it elsewhere. The
+   * next transaction takes its nonce from the RPC.
+   *
+   * @param address - The address of the account.
+   * @param chainId - The ID of the chain.
+   */
+  reset(address: string, chainId: number): void {
+    const account = this.#accounts.get(accountKey(address, chainId));
+    if (account) {
+      account.next = undefined;
+      account.pending = [];
+    }
+  }
+
+  /**
+   * Gets the nonce state of an account, creating it if needed.
+   *
+   * @param address - The address of the account.
+   * @param chainId - The ID of the chain.
+   * @returns The nonce state.
+   */
+  #getAccount(address: string, chainId: number): AccountNonces {
+    const key = accountKey(address, chainId);
+    let account = this.#accounts.get(key);
+
+    if (!account) {
+      account = { pending: [], lock: Promise.resolve() };
+      this.#accounts.set(key, account);
+    }
+
+    return account;
+  }
+
+  /**
+   * Determines the nonce of the next transaction of an account.
+   *
+   * @param client - The client of the RPC of the chain.
+   * @param address - The address of the account.
+   * @param account - The nonce state of the account.
+   * @returns The nonce.
+   */
+  async #nextNonce(
+    client: PublicClient,
+    address: `0x${string}`,
+    account: AccountNonces,
+  ): Promise<number> {
+    const [confirmed, pending] = await Promise.all([
+      client.getTransactionCount({ address, blockTag: "latest" }),
+      client.getTransactionCount({ address, blockTag: "pending" }),
+    ]);
+
+    account.pending = account.pending.filter(transaction => transaction.nonce >= confirmed);
+
+    // The RPC may not see our latest transactions yet, or the account sent others elsewhere
+    let next = Math.max(account.next ?? pending, pending);
+
+    // A dropped transaction leaves a nonce gap blocking every later transaction, fill it
+    const now = Date.now();
+    for (const transaction of account.pending) {
+      if (now - transaction.sentAt < this.#droppedAfterMs) {
+        break;
+      }
+
+      const dropped = await client.getTransaction({ hash: transaction.hash }).then(
+        () => false,
+        error => error instanceof TransactionNotFoundError,
+      );
+      if (dropped) {
+        next = transaction.nonce;
+        account.pending = account.pending.filter(candidate => candidate.nonce < next);
+        break;
+      }
+    }
+
+    return next;
+  }
+}
+
+/**
+ * Gets the key of the nonce state of an account.
+ *
+ * @param address - The address of the account.
+ * @param chainId - The ID of the chain.
+ * @returns The key.
+ */
+function accountKey(address: string, chainId: number): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
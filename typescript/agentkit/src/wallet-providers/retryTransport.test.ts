@@ -0,0 +1,51 @@
+import { createPublicClient } from "viem";
+import { baseSepolia } from "viem/chains";
+import { retryingHttp } from "./retryTransport";
+
+const NO_DELAY = { initialDelayMs: 0, jitter: false };
+
+const rpcResponse = (result: unknown) =>
+  new Response(JSON.stringify({ jsonrpc: "2.0", id: 0, result }), {
+    headers: { "Content-Type": "application/json" },
+  });
+
+const unavailable = () => new Response("Service Unavailable", { status: 503 });
+
+describe("retryingHttp", () => {
+  const client = createPublicClient({
+    chain: baseSepolia,
+    transport: retryingHttp("https://rpc.example.com", NO_DELAY),
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should retry reads failing with a transient error", async () => {
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(unavailable())
+      .mockResolvedValue(rpcResponse("0x10"));
+
+    await expect(client.getChainId()).resolves.toBe(16);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry broadcasts the RPC may have processed", async () => {
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue(unavailable());
+
+    await expect(client.sendRawTransaction({ serializedTransaction: "0x02" })).rejects.toThrow();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry rate-limited broadcasts", async () => {
+    const hash = `0x${"ab".repeat(32)}`;
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(new Response("Too Many Requests", { status: 429 }))
+      .mockResolvedValue(rpcResponse(hash));
+
+    await expect(client.sendRawTransaction({ serializedTransaction: "0x02" })).resolves.toBe(hash);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
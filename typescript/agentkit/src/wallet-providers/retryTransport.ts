@@ -0,0 +1,51 @@
+import { http, Transport } from "viem";
+import { RetryOptions, withRetry } from "../action-providers/actionRetry";
+
+/**
+ * RPC methods broadcasting transactions. They are only retried when the RPC did not process
+ * them, so a transaction is never submitted twice.
+ */
+const BROADCAST_METHODS = new Set([
+  "eth_sendRawTransaction",
+  "eth_sendTransaction",
+  "wallet_sendCalls",
+]);
+
+/**
+ * Creates an HTTP transport retrying RPC requests failing with transient errors.
+ *
+ * Reads are retried on any transient error, broadcasts only when the RPC rejected them before
+ * processing them, e.g. with a rate limit.
+ *
+ * @param url - The URL of the RPC. Defaults to the public RPC of the chain.
+ * @param options - The retry options, or false to send each request once.
+ * @returns The transport.
+ */
+export function retryingHttp(url?: string, options?: RetryOptions | false): Transport {
+  return retrying(http(url, { retryCount: 0 }), options);
+}
+
+/**
+ * Wraps a transport to retry RPC requests failing with transient errors, the same way as
+ * `retryingHttp`.
+ *
+ * @param transport - The transport to wrap. Disable its own retries to avoid retrying twice.
+ * @param options - The retry options, or false to send each request once.
+ * @returns The retrying transport.
+ */
+export function retrying(transport: Transport, options?: RetryOptions | false): Transport {
+  return config => {
+    const created = transport(config);
+
+    return {
+      ...created,
+      request: (args =>
+        withRetry(
+          `RPC ${args.method}`,
+          () => created.request(args),
+          options,
+          !BROADCAST_METHODS.has(args.method),
+        )) as typeof created.request,
+    };
+  };
+}
@@ -0,0 +1,63 @@
+import { BaseError, PublicClient } from "viem";
+import { simulateTransaction } from "./transactionSimulation";
+
+const FROM = "0x1234567890123456789012345678901234567890";
+const TRANSACTION = {
+  to: "0x2222222222222222222222222222222222222222" as `0x${string}`,
+  data: "0xabcdef" as `0x${string}`,
+  value: 1n,
+};
+
+describe("simulateTransaction", () => {
+  let mockPublicClient: jest.Mocked<Pick<PublicClient, "call" | "estimateGas">>;
+
+  beforeEach(() => {
+    mockPublicClient = {
+      call: jest.fn().mockResolvedValue({ data: "0x01" }),
+      estimateGas: jest.fn().mockResolvedValue(50000n),
+    } as unknown as jest.Mocked<Pick<PublicClient, "call" | "estimateGas">>;
+  });
+
+  it("should simulate the transaction with eth_call and estimateGas", async () => {
+    const simulation = await simulateTransaction(
+      mockPublicClient as unknown as PublicClient,
+      FROM,
+      TRANSACTION,
+    );
+
+    const request = { account: FROM, ...TRANSACTION };
+    expect(mockPublicClient.call).toHaveBeenCalledWith(request);
+    expect(mockPublicClient.estimateGas).toHaveBeenCalledWith(request);
+    expect(simulation).toEqual({
+      transactionHash: expect.stringMatching(/^0x[0-9a-f]{64}$/),
+      status: "success",
+      transaction: TRANSACTION,
+      returnData: "0x01",
+      gasEstimate: 50000n,
+    });
+  });
+
+  it("should report the revert reason of reverting transactions", async () => {
+    mockPublicClient.call.mockRejectedValue(
+      new BaseError("Execution reverted with reason: insufficient balance."),
+    );
+
+    const simulation = await simulateTransaction(
+      mockPublicClient as unknown as PublicClient,
+      FROM,
+      TRANSACTION,
+    );
+
+    expect(simulation.status).toBe("reverted");
+    expect(simulation.revertReason).toBe("Execution reverted with reason: insufficient balance.");
+  });
+
+  it("should generate a unique hash for every simulation", async () => {
+    const client = mockPublicClient as unknown as PublicClient;
+
+    const first = await simulateTransaction(client, FROM, TRANSACTION);
+    const second = await simulateTransaction(client, FROM, TRANSACTION);
+
+    expect(first.transactionHash).not.toBe(second.transactionHash);
+  });
+});
@@ -0,0 +1,84 @@
+import { randomUUID } from "crypto";
+import { BaseError, keccak256, PublicClient, toHex, TransactionRequest } from "viem";
+
+/**
+ * Configuration options for the dry-run mode of EVM wallet providers.
+ */
+export interface DryRunOptions {
+  /**
+   * The RPC URL to simulate transactions against, e.g. a local anvil fork. Defaults to the RPC
+   * of the wallet provider.
+   */
+  rpcUrl?: string;
+}
+
+/**
+ * The outcome of a simulated transaction.
+ */
+export interface TransactionSimulation {
+  /**
+   * The synthetic hash identifying the simulated transaction. It does not exist on chain.
+   */
+  transactionHash: `0x${string}`;
+
+  /**
+   * Whether the transaction would succeed or revert.
+   */
+  status: "success" | "reverted";
+
+  /**
+   * The transaction that was simulated.
+   */
+  transaction: TransactionRequest;
+
+  /**
+   * The data returned by the simulated call.
+   */
+  returnData?: `0x${string}`;
+
+  /**
+   * The estimated gas used by the transaction.
+   */
+  gasEstimate?: bigint;
+
+  /**
+   * The reason the transaction would revert.
+   */
+  revertReason?: string;
+}
+
+/**
+ * Simulates a transaction with `eth_call` and `eth_estimateGas`, without broadcasting it.
+ *
+ * @param publicClient - The client of the RPC to simulate the transaction against.
+ * @param from - The address sending the transaction.
+ * @param transaction - The transaction to simulate.
+ * @returns The outcome of the simulation.
+ */
+export async function simulateTransaction(
+  publicClient: PublicClient,
+  from: `0x${string}`,
+  transaction: TransactionRequest,
+): Promise<TransactionSimulation> {
+  const request = {
+    account: from,
+    to: transaction.to,
+    data: transaction.data,
+    value: transaction.value,
+  };
+  const transactionHash = keccak256(toHex(`${from}:${randomUUID()}`));
+
+  try {
+    const { data } = await publicClient.call(request);
+    const gasEstimate = await publicClient.estimateGas(request);
+
+    return { transactionHash, status: "success", transaction, returnData: data, gasEstimate };
+  } catch (error) {
+    return {
+      transactionHash,
+      status: "reverted",
+      transaction,
+      revertReason: error instanceof BaseError ? error.shortMessage : String(error),
+    };
+  }
+}
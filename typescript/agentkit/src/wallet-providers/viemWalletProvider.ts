@@ -4,16 +4,54 @@
 import {
   WalletClient as ViemWalletClient,
   createPublicClient,
-  http,
+  createWalletClient,
   TransactionRequest,
   PublicClient as ViemPublicClient,
+  Chain,
+  Transport,
   ReadContractParameters,
   ReadContractReturnType,
   parseEther,
 } from "viem";
 import { EvmWalletProvider } from "./evmWalletProvider";
 import { Network } from "../network";
-import { CHAIN_ID_TO_NETWORK_ID } from "../network/network";
+import { CHAIN_ID_TO_NETWORK_ID, NETWORK_ID_TO_VIEM_CHAIN } from "../network/network";
+import { getTransactionSpends } from "../policy/spendingPolicy";
+import { DryRunOptions } from "./transactionSimulation";
+import { AbortOptions, runAbortable } from "../action-providers/actionAbort";
+import { RetryOptions } from "../action-providers/actionRetry";
+import { retrying, retryingHttp } from "./retryTransport";
+import { NonceManager } from "./nonceManager";
+
+/**
+ * Configuration options for the ViemWalletProvider.
+ */
+export interface ViemWalletProviderOptions {
+  /**
+   * Simulates transactions instead of broadcasting them.
+   */
+  dryRun?: boolean | DryRunOptions;
+
+  /**
+   * How RPC requests failing with transient errors are retried, or false to never retry them.
+   * Applies to the requests of the provider's own clients. The wallet client passed to the
+   * provider keeps its transport.
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Creates the transport of the provider's own clients for a chain, e.g. to use the RPC of a
+   * node provider on every network the wallet switches to. Its requests are retried according
+   * to `retry`. Defaults to an HTTP transport to the public RPC of the chain.
+   */
+  transport?: (chain: Chain) => Transport;
+
+  /**
+   * The nonce manager assigning nonces to the transactions of the wallet. Share one between
+   * wallet providers sending from the same account. Defaults to a nonce manager of its own.
+   */
+  nonceManager?: NonceManager;
+}
 
 /**
  * A wallet provider that uses the Viem library.
@@ -21,19 +59,28 @@ import { CHAIN_ID_TO_NETWORK_ID } from "../network/network";
 export class ViemWalletProvider extends EvmWalletProvider {
   #walletClient: ViemWalletClient;
   #publicClient: ViemPublicClient;
+  #retry?: RetryOptions | false;
+  #transport?: (chain: Chain) => Transport;
 
   /**
    * Constructs a new ViemWalletProvider.
    *
    * @param walletClient - The wallet client.
+   * @param options - The configuration options for the ViemWalletProvider.
    */
-  constructor(walletClient: ViemWalletClient) {
+  constructor(walletClient: ViemWalletClient, options: ViemWalletProviderOptions = {}) {
     super();
     this.#walletClient = walletClient;
+    this.#retry = options.retry;
+    this.#transport = options.transport;
     this.#publicClient = createPublicClient({
       chain: walletClient.chain,
-      transport: http(),
+      transport: this.createTransport(walletClient.chain),
     });
+    this.setDryRun(options.dryRun);
+    if (options.nonceManager) {
+      this.setNonceManager(options.nonceManager);
+    }
   }
 
   /**
@@ -110,7 +157,19 @@ export class ViemWalletProvider extends EvmWalletProvider {
       value: transaction.value,
     };
 
-    return this.#walletClient.sendTransaction(txParams);
+    return this.traceCall("sendTransaction", this.getTransactionAttributes(transaction), () =>
+      this.enforceSpendingPolicy(getTransactionSpends(transaction, this.getAddress()), async () => {
+        if (this.isDryRun()) {
+          return this.sendSimulatedTransaction(transaction, this.#publicClient);
+        }
+
+        const hash = await this.sendWithNonce(this.#publicClient, nonce =>
+          this.#walletClient.sendTransaction({ ...txParams, nonce }),
+        );
+        this.reportTransaction(hash);
+        return hash;
+      }),
+    );
   }
 
   /**
@@ -162,10 +221,21 @@ export class ViemWalletProvider extends EvmWalletProvider {
    * Waits for a transaction receipt.
    *
    * @param txHash - The hash of the transaction to wait for.
+   * @param options - Options to cancel the wait or limit its duration.
    * @returns The transaction receipt.
    */
-  async waitForTransactionReceipt(txHash: `0x${string}`): Promise<any> {
-    return await this.#publicClient.waitForTransactionReceipt({ hash: txHash });
+  async waitForTransactionReceipt(txHash: `0x${string}`, options: AbortOptions = {}): Promise<any> {
+    return (
+      this.getSimulatedReceipt(txHash) ??
+      (await this.traceReceiptWait(txHash, () =>
+        runAbortable(
+          options,
+          `Waiting for transaction ${txHash}`,
+          () => this.#publicClient.waitForTransactionReceipt({ hash: txHash }),
+          txHash,
+        ),
+      ))
+    );
   }
 
   /**
@@ -175,7 +245,14 @@ export class ViemWalletProvider extends EvmWalletProvider {
    * @returns The response from the contract.
    */
   async readContract(params: ReadContractParameters): Promise<ReadContractReturnType> {
-    return this.#publicClient.readContract(params);
+    return this.traceCall(
+      "readContract",
+      {
+        "agentkit.contract.address": params.address,
+        "agentkit.contract.function": params.functionName,
+      },
+      () => this.#publicClient.readContract(params),
+    );
   }
 
   /**
@@ -201,4 +278,48 @@ export class ViemWalletProvider extends EvmWalletProvider {
 
     return receipt.transactionHash;
   }
+
+  /**
+   * Switches the wallet to another network, keeping its account. The account must be a local
+   * account, e.g. created with `privateKeyToAccount`.
+   *
+   * @param networkId - The ID of the network to switch to, e.g. "base-mainnet".
+   * @param rpcUrl - The URL of the RPC of the network. Defaults to the transport of the `transport`
+   * option, or to the public RPC of the chain.
+   */
+  async switchNetwork(networkId: string, rpcUrl?: string): Promise<void> {
+    const chain = NETWORK_ID_TO_VIEM_CHAIN[networkId];
+    if (!chain) {
+      throw new Error(`Unsupported network: ${networkId}`);
+    }
+
+    const account = this.#walletClient.account;
+    if (account?.type !== "local") {
+      throw new Error("Switching networks requires a local account");
+    }
+
+    const previousNetwork = this.getNetwork();
+
+    const transport = this.createTransport(chain, rpcUrl);
+    this.#walletClient = createWalletClient({ account, chain, transport });
+    this.#publicClient = createPublicClient({ chain, transport });
+
+    this.notifyNetworkChange(previousNetwork);
+  }
+
+  /**
+   * Creates the transport of the provider's own clients, retrying requests failing with
+   * transient errors.
+   *
+   * @param chain - The chain of the clients.
+   * @param rpcUrl - The URL of the RPC, overriding the `transport` option.
+   * @returns The transport.
+   */
+  private createTransport(chain: Chain | undefined, rpcUrl?: string): Transport {
+    if (rpcUrl || !chain || !this.#transport) {
+      return retryingHttp(rpcUrl, this.#retry);
+    }
+
+    return retrying(this.#transport(chain), this.#retry);
+  }
 }
@@ -1,13 +1,31 @@
 import { z } from "zod";
-import { getLangChainTools } from "./index";
-import { AgentKit, Action } from "@coinbase/agentkit";
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { interrupt } from "@langchain/langgraph";
+import { ToolNode } from "@langchain/langgraph/prebuilt";
+import {
+  AGENTKIT_ACTION_EVENT,
+  AgentKitToolkit,
+  ToolException,
+  getLangChainTools,
+  interruptApprovalHandler,
+  watchLangChainTools,
+} from "./index";
+import { AgentKit, Action, actionError, actionSuccess } from "@coinbase/agentkit";
+
+jest.mock("@langchain/langgraph", () => ({
+  interrupt: jest.fn(() => ({ approved: true })),
+}));
 
 // Mocking the Action class
 const mockAction: Action = {
   name: "testAction",
   description: "A test action",
   schema: z.object({ test: z.string() }),
-  invoke: jest.fn(async arg => `Invoked with ${arg.test}`),
+  kind: "read",
+  category: "market-data",
+  tags: ["prices"],
+  risk: "low",
+  invoke: jest.fn(async arg => actionSuccess(`Invoked with ${arg.test}`)),
 };
 
 // Creating a mock for AgentKit
@@ -18,6 +36,7 @@ jest.mock("@coinbase/agentkit", () => {
     AgentKit: {
       from: jest.fn().mockImplementation(() => ({
         getActions: jest.fn(() => [mockAction]),
+        onActionsChange: jest.fn(() => jest.fn()),
       })),
     },
   };
@@ -34,8 +53,191 @@ describe("getLangChainTools", () => {
     expect(tool.name).toBe(mockAction.name);
     expect(tool.description).toBe(mockAction.description);
     expect(tool.schema).toBe(mockAction.schema);
+    expect(tool.tags).toEqual(["prices"]);
+    expect(tool.metadata).toEqual({ kind: "read", category: "market-data", risk: "low" });
 
     const result = await tool.invoke({ test: "data" });
     expect(result).toBe("Invoked with data");
   });
+
+  it("should use the interrupt approval handler when interrupting for approval", async () => {
+    const mockAgentKit = await AgentKit.from({});
+
+    await getLangChainTools(mockAgentKit, { interruptForApproval: true });
+
+    expect(mockAgentKit.getActions).toHaveBeenCalledWith({
+      approvalHandler: interruptApprovalHandler,
+    });
+  });
+});
+
+describe("AgentKitToolkit", () => {
+  const transferAction: Action = {
+    name: "transfer",
+    description: "Transfers tokens",
+    schema: z.object({ to: z.string() }),
+    kind: "write",
+    invoke: jest.fn(async ({ to }) =>
+      to === "0xabc"
+        ? actionSuccess(`Transferred to ${to}`, { transactionHash: "0x123" })
+        : actionError("Transaction reverted", "TRANSACTION_FAILED", undefined, {
+            transactionHash: "0x456",
+          }),
+    ),
+  };
+
+  const toolkitAgentKit = {
+    getActions: jest.fn(() => [mockAction, transferAction]),
+  } as unknown as AgentKit;
+
+  const transferTool = (toolkit: AgentKitToolkit) =>
+    toolkit.getTools().find(tool => tool.name === "transfer")!;
+
+  it("should filter actions", () => {
+    const names = (toolkit: AgentKitToolkit) => toolkit.getTools().map(tool => tool.name);
+
+    expect(names(new AgentKitToolkit(toolkitAgentKit))).toEqual(["testAction", "transfer"]);
+    expect(names(new AgentKitToolkit(toolkitAgentKit, { include: ["trans*"] }))).toEqual([
+      "transfer",
+    ]);
+    expect(names(new AgentKitToolkit(toolkitAgentKit, { exclude: ["transfer"] }))).toEqual([
+      "testAction",
+    ]);
+    expect(names(new AgentKitToolkit(toolkitAgentKit, { kinds: ["read"] }))).toEqual([
+      "testAction",
+    ]);
+    expect(
+      names(new AgentKitToolkit(toolkitAgentKit, { filter: action => action.kind === "write" })),
+    ).toEqual(["transfer"]);
+  });
+
+  it("should throw a ToolException when the action fails if throwOnError is set", async () => {
+    const tool = transferTool(new AgentKitToolkit(toolkitAgentKit, { throwOnError: true }));
+
+    const error = await tool.invoke({ to: "0xdef" }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ToolException);
+    expect(error.message).toBe("Transaction reverted");
+    expect(error.result.error.code).toBe("TRANSACTION_FAILED");
+    expect(await tool.invoke({ to: "0xabc" })).toBe("Transferred to 0xabc");
+  });
+
+  it("should send ToolExceptions back to the model with ToolNode", async () => {
+    const toolNode = new ToolNode(
+      new AgentKitToolkit(toolkitAgentKit, { throwOnError: true }).getTools(),
+    );
+
+    const { messages } = await toolNode.invoke({
+      messages: [
+        new AIMessage({
+          content: "",
+          tool_calls: [{ id: "call-1", name: "transfer", args: { to: "0xdef" } }],
+        }),
+      ],
+    });
+
+    expect(messages[0].content).toContain("Error: Transaction reverted");
+  });
+
+  it("should dispatch a callback event with the transaction hashes", async () => {
+    const handleCustomEvent = jest.fn();
+    const tool = transferTool(new AgentKitToolkit(toolkitAgentKit));
+
+    await tool.invoke({ to: "0xabc" }, { callbacks: [{ handleCustomEvent }] });
+    await tool.invoke({ to: "0xdef" }, { callbacks: [{ handleCustomEvent }] });
+
+    expect(handleCustomEvent.mock.calls.map(([name, data]) => [name, data])).toEqual([
+      [
+        AGENTKIT_ACTION_EVENT,
+        {
+          actionName: "transfer",
+          status: "success",
+          message: "Transferred to 0xabc",
+          transactionHashes: ["0x123"],
+        },
+      ],
+      [
+        AGENTKIT_ACTION_EVENT,
+        {
+          actionName: "transfer",
+          status: "error",
+          message: "Transaction reverted",
+          errorCode: "TRANSACTION_FAILED",
+          transactionHashes: ["0x456"],
+        },
+      ],
+    ]);
+  });
+
+  it("should keep the result of the action when dispatching the callback event fails", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation();
+    const tool = transferTool(new AgentKitToolkit(toolkitAgentKit));
+    const handleCustomEvent = jest.fn(() => {
+      throw new Error("handler failed");
+    });
+
+    const result = await tool.invoke(
+      { to: "0xabc" },
+      { callbacks: [{ handleCustomEvent, raiseError: true, awaitHandlers: true }] },
+    );
+
+    expect(result).toBe("Transferred to 0xabc");
+    expect(handleCustomEvent).toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("handler failed"));
+    warn.mockRestore();
+  });
+
+  it("should return the action result as artifact with content_and_artifact", async () => {
+    const tool = transferTool(
+      new AgentKitToolkit(toolkitAgentKit, { responseFormat: "content_and_artifact" }),
+    );
+
+    const message = await tool.invoke({
+      id: "call-1",
+      name: "transfer",
+      args: { to: "0xabc" },
+      type: "tool_call",
+    });
+
+    expect(message).toBeInstanceOf(ToolMessage);
+    expect(message.content).toBe("Transferred to 0xabc");
+    expect(message.artifact).toEqual({
+      status: "success",
+      message: "Transferred to 0xabc",
+      data: { transactionHash: "0x123" },
+    });
+  });
+});
+
+describe("watchLangChainTools", () => {
+  it("should call back with new tools when the actions change", async () => {
+    const mockAgentKit = await AgentKit.from({});
+    const onChange = jest.fn();
+
+    const unwatch = watchLangChainTools(mockAgentKit, onChange);
+    const listener = (mockAgentKit.onActionsChange as jest.Mock).mock.calls[0][0];
+    listener();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0].map(tool => tool.name)).toEqual([mockAction.name]);
+    expect(unwatch).toBe((mockAgentKit.onActionsChange as jest.Mock).mock.results[0].value);
+  });
+});
+
+describe("interruptApprovalHandler", () => {
+  it("should interrupt the graph with the approval request", async () => {
+    const request = {
+      id: "request-1",
+      actionName: "testAction",
+      kind: "write" as const,
+      args: { test: "data" },
+      preview: "preview",
+    };
+
+    const decision = await interruptApprovalHandler(request);
+
+    expect(interrupt).toHaveBeenCalledWith(request);
+    expect(decision).toEqual({ approved: true });
+  });
 });
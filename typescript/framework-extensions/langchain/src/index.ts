@@ -3,28 +3,286 @@
  */
 
 import { z } from "zod";
-import { StructuredTool, tool } from "@langchain/core/tools";
-import { AgentKit, Action } from "@coinbase/agentkit";
+import { dispatchCustomEvent } from "@langchain/core/callbacks/dispatch";
+import { BaseToolkit, StructuredTool, tool } from "@langchain/core/tools";
+import { interrupt } from "@langchain/langgraph";
+import {
+  AgentKit,
+  Action,
+  ActionErrorCode,
+  ActionKind,
+  ActionResult,
+  ActionResultStatus,
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalRequest,
+  configureActions,
+  DEFAULT_ACTION_KIND,
+  formatActionResult,
+} from "@coinbase/agentkit";
+
+/**
+ * Options for getting Langchain tools from an AgentKit instance
+ */
+export interface GetLangChainToolsOptions {
+  /**
+   * Whether actions requiring approval interrupt the LangGraph graph instead of using the
+   * approval handler of the AgentKit instance. The graph is resumed with an `ApprovalDecision`,
+   * e.g. `new Command({ resume: { approved: true } })`.
+   */
+  interruptForApproval?: boolean;
+}
+
+/**
+ * Options for creating an AgentKit toolkit
+ */
+export interface AgentKitToolkitOptions extends GetLangChainToolsOptions {
+  /**
+   * Only turn actions matching one of these names or glob patterns into tools. All actions are
+   * turned into tools if not set.
+   */
+  include?: string[];
+
+  /**
+   * Never turn actions matching one of these names or glob patterns into tools. Takes precedence
+   * over `include`.
+   */
+  exclude?: string[];
+
+  /**
+   * Only turn actions of these kinds into tools, e.g. `["read"]` for a read-only agent.
+   */
+  kinds?: ActionKind[];
+
+  /**
+   * Only turn actions for which this predicate returns true into tools.
+   */
+  filter?: (action: Action) => boolean;
+
+  /**
+   * Whether tools throw a `ToolException` when their action fails, instead of returning the error
+   * message. LangGraph's `ToolNode` sends thrown errors back to the model when `handleToolErrors`
+   * is enabled, and lets them fail the run otherwise.
+   */
+  throwOnError?: boolean;
+
+  /**
+   * The response format of the tools. With `content_and_artifact`, tools called with a tool call
+   * return a `ToolMessage` holding the message of the action as content and its `ActionResult`
+   * as artifact, for the host to use its structured data without sending it to the model.
+   */
+  responseFormat?: "content" | "content_and_artifact";
+}
+
+/**
+ * The name of the LangChain custom event dispatched after each action invocation. Callback
+ * handlers receive it through `handleCustomEvent`, and `streamEvents` as an `on_custom_event`.
+ */
+export const AGENTKIT_ACTION_EVENT = "agentkit_action";
+
+/**
+ * The payload of the LangChain custom event dispatched after each action invocation
+ */
+export interface AgentKitActionEvent {
+  /**
+   * The name of the invoked action.
+   */
+  actionName: string;
+
+  /**
+   * The outcome of the invocation.
+   */
+  status: ActionResultStatus;
+
+  /**
+   * The message of the action result.
+   */
+  message: string;
+
+  /**
+   * The error code of the action result, if the action failed.
+   */
+  errorCode?: ActionErrorCode;
+
+  /**
+   * The hashes of the transactions submitted by the action, if any.
+   */
+  transactionHashes: string[];
+}
+
+/**
+ * The error thrown by the tools of an AgentKit toolkit created with `throwOnError` when their
+ * action fails
+ */
+export class ToolException extends Error {
+  /**
+   * Constructs a new ToolException.
+   *
+   * @param result - The error result of the action.
+   */
+  constructor(public readonly result: ActionResult) {
+    super(result.message);
+    this.name = "ToolException";
+  }
+}
+
+/**
+ * An approval handler that interrupts the running LangGraph graph with the approval request and
+ * returns the decision the graph is resumed with.
+ *
+ * @param request - The approval request.
+ * @returns The decision the graph is resumed with.
+ */
+export const interruptApprovalHandler: ApprovalHandler = (request: ApprovalRequest) =>
+  interrupt<ApprovalRequest, ApprovalDecision>(request);
 
 /**
  * Get Langchain tools from an AgentKit instance
  *
  * @param agentKit - The AgentKit instance
+ * @param options - Options for getting the tools
  * @returns An array of Langchain tools
  */
-export async function getLangChainTools(agentKit: AgentKit): Promise<StructuredTool[]> {
-  const actions: Action[] = agentKit.getActions();
-  return actions.map(action =>
-    tool(
-      async (arg: z.output<typeof action.schema>) => {
-        const result = await action.invoke(arg);
-        return result;
-      },
-      {
-        name: action.name,
-        description: action.description,
-        schema: action.schema,
-      },
-    ),
+export async function getLangChainTools(
+  agentKit: AgentKit,
+  options: GetLangChainToolsOptions = {},
+): Promise<StructuredTool[]> {
+  return new AgentKitToolkit(agentKit, options).tools;
+}
+
+/**
+ * A Langchain toolkit of the actions of an AgentKit instance
+ */
+export class AgentKitToolkit extends BaseToolkit {
+  /**
+   * The tools of the filtered actions.
+   */
+  tools: StructuredTool[];
+
+  /**
+   * Constructs a new AgentKitToolkit.
+   *
+   * @param agentKit - The AgentKit instance
+   * @param options - Options for filtering the actions and configuring the tools
+   */
+  constructor(agentKit: AgentKit, options: AgentKitToolkitOptions = {}) {
+    super();
+
+    const actions = configureActions(
+      agentKit.getActions(
+        options.interruptForApproval ? { approvalHandler: interruptApprovalHandler } : {},
+      ),
+      { include: options.include, exclude: options.exclude },
+    ).filter(
+      action =>
+        (!options.kinds || options.kinds.includes(action.kind ?? DEFAULT_ACTION_KIND)) &&
+        (!options.filter || options.filter(action)),
+    );
+
+    this.tools = actions.map(action => createTool(action, options));
+  }
+}
+
+/**
+ * Create the Langchain tool of an action
+ *
+ * @param action - The action
+ * @param options - Options for configuring the tool
+ * @returns The Langchain tool
+ */
+function createTool(action: Action, options: AgentKitToolkitOptions): StructuredTool {
+  const responseFormat = options.responseFormat ?? "content";
+
+  return tool(
+    async (arg: z.output<typeof action.schema>, config) => {
+      const result = await action.invoke(arg, { signal: config?.signal });
+
+      // The action already ran, so a failing event handler must not change its result
+      try {
+        await dispatchCustomEvent(AGENTKIT_ACTION_EVENT, getActionEvent(action, result), config);
+      } catch (error) {
+        console.warn(`Warning: Failed to dispatch ${AGENTKIT_ACTION_EVENT} event: ${error}`);
+      }
+
+      if (result.status === "error" && options.throwOnError) {
+        throw new ToolException(result);
+      }
+
+      const content = formatActionResult(result);
+      return responseFormat === "content_and_artifact" ? [content, result] : content;
+    },
+    {
+      name: action.name,
+      description: action.description,
+      schema: action.schema,
+      tags: action.tags,
+      metadata: getToolMetadata(action),
+      responseFormat,
+    },
   );
 }
+
+/**
+ * Get the payload of the custom event dispatched after an action invocation
+ *
+ * @param action - The invoked action
+ * @param result - The result of the action
+ * @returns The event payload, listing the transaction hashes found in the result data
+ */
+function getActionEvent(action: Action, result: ActionResult): AgentKitActionEvent {
+  const transactionHashes = new Set<string>(
+    Array.isArray(result.data?.transactionHashes) ? result.data.transactionHashes : [],
+  );
+  if (result.data?.transactionHash) {
+    transactionHashes.add(result.data.transactionHash);
+  }
+
+  return {
+    actionName: action.name,
+    status: result.status,
+    message: result.message,
+    ...(result.error && { errorCode: result.error.code }),
+    transactionHashes: [...transactionHashes],
+  };
+}
+
+/**
+ * Get the metadata of the Langchain tool of an action, for hosts to build UIs, policies and
+ * tool selection from
+ *
+ * @param action - The action
+ * @returns The metadata of the action, leaving out unset fields
+ */
+function getToolMetadata(action: Action): Record<string, unknown> {
+  const metadata = {
+    provider: action.provider,
+    kind: action.kind,
+    category: action.category,
+    risk: action.risk,
+    networks: action.networks,
+    examples: action.examples,
+  };
+
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Watch the Langchain tools of an AgentKit instance, e.g. to rebuild an agent after a wallet
+ * provider switched networks
+ *
+ * @param agentKit - The AgentKit instance
+ * @param onChange - Called with the new tools whenever the actions of the AgentKit change
+ * @param options - Options for getting the tools
+ * @returns A function to stop watching the tools
+ */
+export function watchLangChainTools(
+  agentKit: AgentKit,
+  onChange: (tools: StructuredTool[]) => void,
+  options: GetLangChainToolsOptions = {},
+): () => void {
+  return agentKit.onActionsChange(() => {
+    getLangChainTools(agentKit, options).then(onChange, error =>
+      console.warn(`Warning: Failed to refresh Langchain tools: ${error}`),
+    );
+  });
+}
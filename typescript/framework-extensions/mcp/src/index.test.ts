@@ -0,0 +1,205 @@
+import { createServer, Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { AgentKit, Action, actionError, actionSuccess } from "@coinbase/agentkit";
+import { createMcpHttpHandler, createMcpServer, toCallToolResult, toMcpTool } from "./index";
+
+const priceAction: Action = {
+  name: "fetch_price",
+  description: "Fetches a price",
+  schema: z.object({ symbol: z.string().describe("The token symbol") }),
+  kind: "read",
+  risk: "low",
+  outputSchema: z.object({ price: z.number() }),
+  invoke: jest.fn(async ({ symbol }) =>
+    symbol === "BTC"
+      ? actionSuccess("The price of BTC is 100000", { price: 100000, retries: [] })
+      : actionError(`No price feed for ${symbol}`, "NOT_FOUND"),
+  ),
+};
+
+const transferAction: Action = {
+  name: "transfer",
+  description: "Transfers tokens",
+  schema: z.object({ to: z.string(), amount: z.string() }),
+  invoke: jest.fn(async () => actionSuccess("Transferred")),
+};
+
+/**
+ * Creates an AgentKit instance stand-in exposing the given actions.
+ *
+ * @param actions - The actions of the AgentKit instance
+ * @returns The AgentKit instance and a function emitting a change of its actions
+ */
+function mockAgentKit(actions: Action[]) {
+  const listeners: (() => void)[] = [];
+  const agentKit = {
+    getActions: jest.fn(() => actions),
+    onActionsChange: jest.fn(listener => {
+      listeners.push(listener);
+      return jest.fn();
+    }),
+  } as unknown as AgentKit;
+
+  return { agentKit, changeActions: () => listeners.forEach(listener => listener()) };
+}
+
+/**
+ * Connects an MCP client to an MCP server of an AgentKit instance.
+ *
+ * @param agentKit - The AgentKit instance
+ * @returns The connected client
+ */
+async function connect(agentKit: AgentKit) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test", version: "1.0.0" });
+
+  await createMcpServer(agentKit).connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+describe("toMcpTool", () => {
+  it("should map the schemas and metadata of an action", () => {
+    expect(toMcpTool(priceAction)).toEqual({
+      name: "fetch_price",
+      description: "Fetches a price",
+      inputSchema: {
+        type: "object",
+        properties: { symbol: { type: "string", description: "The token symbol" } },
+        required: ["symbol"],
+        additionalProperties: false,
+      },
+      outputSchema: {
+        type: "object",
+        properties: { price: { type: "number" } },
+        required: ["price"],
+        additionalProperties: false,
+      },
+      annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: true },
+    });
+
+    expect(toMcpTool(transferAction).annotations).toEqual({
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: true,
+    });
+  });
+});
+
+describe("toCallToolResult", () => {
+  it("should map strings and failed results to text content", () => {
+    expect(toCallToolResult("Done")).toEqual({ content: [{ type: "text", text: "Done" }] });
+    expect(toCallToolResult(actionError("Failed", "REQUEST_FAILED"))).toEqual({
+      content: [{ type: "text", text: "Failed" }],
+      isError: true,
+    });
+  });
+
+  it("should return the data matching the output schema as structured content", () => {
+    const result = actionSuccess("Price", { price: 1, retries: [] });
+
+    expect(toCallToolResult(result, priceAction.outputSchema)).toEqual({
+      content: [{ type: "text", text: "Price" }],
+      structuredContent: { price: 1 },
+    });
+  });
+
+  it("should return results whose data does not match the output schema as tool errors", () => {
+    const result = actionSuccess("Price", { price: "unknown" });
+
+    expect(toCallToolResult(result, priceAction.outputSchema)).toEqual({
+      content: [
+        {
+          type: "text",
+          text: expect.stringContaining(
+            "The result does not match the output schema of the action",
+          ),
+        },
+      ],
+      isError: true,
+    });
+  });
+});
+
+describe("createMcpServer", () => {
+  it("should list and call the actions as tools", async () => {
+    const { agentKit } = mockAgentKit([priceAction, transferAction]);
+    const client = await connect(agentKit);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(["fetch_price", "transfer"]);
+
+    expect(await client.callTool({ name: "fetch_price", arguments: { symbol: "BTC" } })).toEqual({
+      content: [{ type: "text", text: "The price of BTC is 100000" }],
+      structuredContent: { price: 100000 },
+    });
+    expect(await client.callTool({ name: "fetch_price", arguments: { symbol: "DOGE" } })).toEqual({
+      content: [{ type: "text", text: "No price feed for DOGE" }],
+      isError: true,
+    });
+
+    await client.close();
+  });
+
+  it("should reject calls of unknown tools", async () => {
+    const { agentKit } = mockAgentKit([transferAction]);
+    const client = await connect(agentKit);
+
+    await expect(client.callTool({ name: "swap", arguments: {} })).rejects.toThrow(
+      "Unknown tool: swap",
+    );
+
+    await client.close();
+  });
+
+  it("should notify clients when the actions change", async () => {
+    const { agentKit, changeActions } = mockAgentKit([transferAction]);
+    const client = await connect(agentKit);
+    const notified = new Promise(resolve =>
+      client.setNotificationHandler(ToolListChangedNotificationSchema, resolve),
+    );
+
+    changeActions();
+
+    await expect(notified).resolves.toMatchObject({
+      method: "notifications/tools/list_changed",
+    });
+    await client.close();
+  });
+});
+
+describe("createMcpHttpHandler", () => {
+  let server: HttpServer;
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("should serve the actions over streamable HTTP", async () => {
+    const { agentKit } = mockAgentKit([transferAction]);
+    const handler = createMcpHttpHandler(agentKit);
+    server = createServer((request, response) => void handler(request, response));
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}`)));
+
+    const result = await client.callTool({
+      name: "transfer",
+      arguments: { to: "0x1234", amount: "1" },
+    });
+    expect(result.content).toEqual([{ type: "text", text: "Transferred" }]);
+    expect(transferAction.invoke).toHaveBeenCalledWith(
+      { to: "0x1234", amount: "1" },
+      expect.objectContaining({ signal: expect.any(AbortSignal) }),
+    );
+
+    await client.close();
+  });
+});
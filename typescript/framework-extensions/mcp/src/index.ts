@@ -0,0 +1,11 @@
+/**
+ * Main exports for the CDP MCP package
+ */
+
+export { getMcpTools, toMcpTool, toCallToolResult } from "./mcpTools";
+export {
+  McpServerOptions,
+  createMcpServer,
+  serveMcpStdio,
+  createMcpHttpHandler,
+} from "./mcpServer";
@@ -0,0 +1,119 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { AgentKit } from "@coinbase/agentkit";
+import { version } from "../package.json";
+import { getMcpTools, getOutputSchema, toCallToolResult } from "./mcpTools";
+
+/**
+ * Options for creating an MCP server from an AgentKit instance
+ */
+export interface McpServerOptions {
+  /**
+   * The name of the server, as shown to MCP clients. Defaults to "agentkit".
+   */
+  name?: string;
+
+  /**
+   * The version of the server, as shown to MCP clients. Defaults to the version of this package.
+   */
+  version?: string;
+
+  /**
+   * Instructions describing how to use the server, passed to the model by MCP clients
+   */
+  instructions?: string;
+}
+
+/**
+ * Create an MCP server exposing the actions of an AgentKit instance as tools. Tools are listed
+ * from the current actions on every request, and clients are notified when the actions change,
+ * e.g. after a wallet provider switched networks.
+ *
+ * @param agentKit - The AgentKit instance
+ * @param options - Options for the MCP server
+ * @returns The MCP server, to connect to a transport
+ */
+export function createMcpServer(agentKit: AgentKit, options: McpServerOptions = {}): Server {
+  const server = new Server(
+    { name: options.name ?? "agentkit", version: options.version ?? version },
+    {
+      capabilities: { tools: { listChanged: true } },
+      ...(options.instructions && { instructions: options.instructions }),
+    },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: getMcpTools(agentKit.getActions()),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const action = agentKit.getActions().find(candidate => candidate.name === request.params.name);
+    if (!action) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${request.params.name}`);
+    }
+
+    const result = await action.invoke(request.params.arguments ?? {}, { signal: extra.signal });
+    return toCallToolResult(result, getOutputSchema(action));
+  });
+
+  const unwatch = agentKit.onActionsChange(() => {
+    server.sendToolListChanged().catch(error => {
+      console.warn(`Warning: Failed to notify MCP clients of changed tools: ${error}`);
+    });
+  });
+  server.onclose = unwatch;
+
+  return server;
+}
+
+/**
+ * Serve the actions of an AgentKit instance as MCP tools over stdio, e.g. for desktop assistants
+ * launching the server as a subprocess. Nothing else may be written to stdout.
+ *
+ * @param agentKit - The AgentKit instance
+ * @param options - Options for the MCP server
+ * @returns The connected MCP server
+ */
+export async function serveMcpStdio(
+  agentKit: AgentKit,
+  options: McpServerOptions = {},
+): Promise<Server> {
+  const server = createMcpServer(agentKit, options);
+  await server.connect(new StdioServerTransport());
+  return server;
+}
+
+/**
+ * Create a Node.js request handler serving the actions of an AgentKit instance as MCP tools over
+ * streamable HTTP. The handler is stateless: each request is served by a new MCP server, so
+ * clients are not notified of changed tools and must list them again.
+ *
+ * @param agentKit - The AgentKit instance
+ * @param options - Options for the MCP server
+ * @returns The request handler, e.g. for `http.createServer` or an Express route
+ */
+export function createMcpHttpHandler(
+  agentKit: AgentKit,
+  options: McpServerOptions = {},
+): (request: IncomingMessage, response: ServerResponse, parsedBody?: unknown) => Promise<void> {
+  return async (request, response, parsedBody) => {
+    const server = createMcpServer(agentKit, options);
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+
+    response.on("close", () => {
+      transport.close();
+      server.close();
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(request, response, parsedBody);
+  };
+}
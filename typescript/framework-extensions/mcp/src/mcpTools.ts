@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  Action,
+  ActionResult,
+  DEFAULT_ACTION_KIND,
+  bigIntReplacer,
+  formatActionResult,
+  toJsonSchema,
+} from "@coinbase/agentkit";
+
+/**
+ * Get the MCP tools of actions
+ *
+ * @param actions - The actions, e.g. from `agentKit.getActions()`
+ * @returns An array of MCP tools, one per action
+ */
+export function getMcpTools(actions: Action[]): Tool[] {
+  return actions.map(toMcpTool);
+}
+
+/**
+ * Get the MCP tool of an action. The zod schema of the action becomes the JSON Schema of the
+ * tool input, and its kind and risk become tool annotations.
+ *
+ * @param action - The action
+ * @returns The MCP tool
+ */
+export function toMcpTool(action: Action): Tool {
+  const readOnly = (action.kind ?? DEFAULT_ACTION_KIND) === "read";
+  const outputSchema = getOutputSchema(action);
+
+  return {
+    name: action.name,
+    description: action.description,
+    inputSchema: toJsonSchema(action.schema) as Tool["inputSchema"],
+    ...(outputSchema && { outputSchema: toJsonSchema(outputSchema) as Tool["outputSchema"] }),
+    annotations: {
+      readOnlyHint: readOnly,
+      destructiveHint: !readOnly && action.risk !== "low",
+      openWorldHint: true,
+    },
+  };
+}
+
+/**
+ * Convert the result of an action into the result of an MCP tool call. The message of the result
+ * becomes text content, and failed results are flagged as tool errors so the client can recover.
+ *
+ * @param result - The result of the action, or the string returned by actions predating
+ * structured results
+ * @param outputSchema - The output schema of the action, if declared. The data of successful
+ * results is then returned as structured content, and results whose data does not match it are
+ * returned as tool errors.
+ * @returns The result of the tool call
+ */
+export function toCallToolResult(
+  result: ActionResult | string,
+  outputSchema?: z.ZodTypeAny,
+): CallToolResult {
+  if (typeof result === "string") {
+    return { content: [{ type: "text", text: result }] };
+  }
+
+  const structured = result.status === "success" && outputSchema?.safeParse(result.data);
+
+  if (structured && !structured.success) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `The result does not match the output schema of the action: ${structured.error.message}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  return {
+    content: [{ type: "text", text: formatActionResult(result) }],
+    ...(result.status === "error" && { isError: true }),
+    ...(structured && {
+      structuredContent: JSON.parse(JSON.stringify(structured.data, bigIntReplacer)),
+    }),
+  };
+}
+
+/**
+ * Get the output schema of an action, if it declares one MCP supports. MCP tools only return
+ * objects as structured content.
+ *
+ * @param action - The action
+ * @returns The output schema, if it describes objects
+ */
+export function getOutputSchema(action: Action): z.ZodTypeAny | undefined {
+  return action.outputSchema instanceof z.ZodObject ? action.outputSchema : undefined;
+}
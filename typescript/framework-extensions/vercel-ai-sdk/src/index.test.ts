@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { streamText } from "ai";
+import { AgentKit, Action, actionError, actionSuccess } from "@coinbase/agentkit";
+import { getVercelAITools } from "./index";
+
+type LanguageModel = Parameters<typeof streamText>[0]["model"];
+
+const mockAction: Action = {
+  name: "get_balance",
+  description: "Gets the balance of a token",
+  schema: z.object({ token: z.string() }),
+  kind: "read",
+  invoke: jest.fn(async ({ token }) =>
+    token === "USDC"
+      ? actionSuccess("The balance is 10 USDC", { balance: BigInt(10) })
+      : actionError(`Unknown token ${token}`, "UNSUPPORTED_ASSET"),
+  ),
+};
+
+const mockAgentKit = {
+  getActions: jest.fn(() => [mockAction]),
+} as unknown as AgentKit;
+
+/**
+ * Creates a language model calling the get_balance tool, then answering with text.
+ *
+ * @param token - The token argument of the tool call
+ * @returns The model and the prompts it was called with
+ */
+function mockModel(token: string) {
+  const prompts: unknown[] = [];
+  const usage = { promptTokens: 1, completionTokens: 1 };
+  const model = {
+    specificationVersion: "v1",
+    provider: "mock",
+    modelId: "mock",
+    defaultObjectGenerationMode: undefined,
+    doGenerate: jest.fn(),
+    doStream: jest.fn(async ({ prompt }) => {
+      prompts.push(prompt);
+      const parts =
+        prompts.length === 1
+          ? [
+              {
+                type: "tool-call",
+                toolCallType: "function",
+                toolCallId: "call-1",
+                toolName: "get_balance",
+                args: JSON.stringify({ token }),
+              },
+              { type: "finish", finishReason: "tool-calls", usage },
+            ]
+          : [
+              { type: "text-delta", textDelta: "Done" },
+              { type: "finish", finishReason: "stop", usage },
+            ];
+
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            parts.forEach(part => controller.enqueue(part));
+            controller.close();
+          },
+        }),
+        rawCall: { rawPrompt: prompt, rawSettings: {} },
+      };
+    }),
+  } as unknown as LanguageModel;
+
+  return { model, prompts };
+}
+
+describe("getVercelAITools", () => {
+  it("should return a tool per action", async () => {
+    const tools = await getVercelAITools(mockAgentKit, {});
+
+    expect(Object.keys(tools)).toEqual(["get_balance"]);
+    expect(tools.get_balance.description).toBe(mockAction.description);
+    expect(tools.get_balance.parameters).toBe(mockAction.schema);
+    expect(mockAgentKit.getActions).toHaveBeenCalledWith({});
+  });
+
+  it("should run actions in streamText tool-calling loops", async () => {
+    const { model, prompts } = mockModel("USDC");
+
+    const result = streamText({
+      model,
+      tools: await getVercelAITools(mockAgentKit),
+      maxSteps: 2,
+      prompt: "What is my USDC balance?",
+    });
+
+    await result.consumeStream();
+    expect(await result.text).toBe("Done");
+    const [firstStep] = await result.steps;
+    expect(firstStep.toolResults).toEqual([
+      expect.objectContaining({
+        toolName: "get_balance",
+        result: { status: "success", message: "The balance is 10 USDC", data: { balance: "10" } },
+      }),
+    ]);
+    expect(mockAction.invoke).toHaveBeenCalledWith(
+      { token: "USDC" },
+      expect.objectContaining({ signal: undefined }),
+    );
+    expect(JSON.stringify(prompts[1])).toContain(
+      '"content":[{"type":"text","text":"The balance is 10 USDC"}]',
+    );
+  });
+
+  it("should return failed results to the model instead of failing the stream", async () => {
+    const { model } = mockModel("DOGE");
+
+    const result = streamText({
+      model,
+      tools: await getVercelAITools(mockAgentKit),
+      maxSteps: 2,
+      prompt: "What is my DOGE balance?",
+    });
+
+    await result.consumeStream();
+    expect(await result.text).toBe("Done");
+    const [firstStep] = await result.steps;
+    expect(firstStep.toolResults).toEqual([
+      expect.objectContaining({ result: expect.objectContaining({ status: "error" }) }),
+    ]);
+    expect(JSON.stringify(firstStep.toolResults)).toContain('"code":"UNSUPPORTED_ASSET"');
+  });
+});
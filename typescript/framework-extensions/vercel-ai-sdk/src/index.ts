@@ -0,0 +1,57 @@
+/**
+ * Main exports for the CDP Vercel AI SDK package
+ */
+
+import { z } from "zod";
+import { Tool, tool } from "ai";
+import {
+  AgentKit,
+  Action,
+  ActionResult,
+  GetActionsOptions,
+  bigIntReplacer,
+  formatActionResult,
+} from "@coinbase/agentkit";
+
+/**
+ * A Vercel AI SDK tool of an action. It returns the result of the action, for UIs to render the
+ * outcome of `result` tool invocations, and sends its message to the model.
+ */
+export type VercelAITool = Tool<z.ZodTypeAny, ActionResult>;
+
+/**
+ * Get Vercel AI SDK tools from an AgentKit instance
+ *
+ * @param agentKit - The AgentKit instance
+ * @param options - Options for getting the actions, e.g. an approval handler
+ * @returns A record of Vercel AI SDK tools by action name, for `streamText` and `generateText`
+ */
+export async function getVercelAITools(
+  agentKit: AgentKit,
+  options: GetActionsOptions = {},
+): Promise<Record<string, VercelAITool>> {
+  const actions: Action[] = agentKit.getActions(options);
+  return Object.fromEntries(actions.map(action => [action.name, getVercelAITool(action)]));
+}
+
+/**
+ * Get the Vercel AI SDK tool of an action
+ *
+ * @param action - The action
+ * @returns The Vercel AI SDK tool
+ */
+export function getVercelAITool(action: Action): VercelAITool {
+  return tool({
+    description: action.description,
+    parameters: action.schema,
+    execute: async (args, { abortSignal }) => {
+      const result = await action.invoke(args, { signal: abortSignal });
+
+      // Tool results are streamed to the UI as JSON, which has no bigints
+      return JSON.parse(JSON.stringify(result, bigIntReplacer)) as ActionResult;
+    },
+    experimental_toToolResultContent: result => [
+      { type: "text", text: formatActionResult(result) },
+    ],
+  });
+}